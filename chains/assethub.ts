@@ -1,16 +1,11 @@
 export const ASSET_HUB = {
   key: "assethub" as const,
   name: "Polkadot Asset Hub",
-  // TODO: choose RPC provider(s) — keep as user-configurable
-  rpcs: [
-    "wss://polkadot-asset-hub-rpc.polkadot.io",
-  ],
-};
-export const ASSET_HUB = {
-  key: "assethub" as const,
-  name: "Polkadot Asset Hub",
-  // TODO: choose RPC provider(s) — keep as user-configurable
+  genesisHash: "0x68d56f15f85d3136970ec16946040bc1752654e906147f7e43e9d539d7c3de2f",
+  ss58Prefix: 0,
   rpcs: [
+    "wss://rpc-asset-hub-polkadot.luckyfriday.io",
     "wss://polkadot-asset-hub-rpc.polkadot.io",
+    "wss://asset-hub-polkadot-rpc.dwellir.com", // last-ish
   ],
 };
@@ -1,8 +1,10 @@
 export const HYDRADX = {
   key: "hydradx" as const,
   name: "HydraDX",
-  // TODO: choose RPC provider(s) — keep as user-configurable
+  genesisHash: "0xafdc188f45c71dacbaa0b62e16a91f726c7b8699a9748cdf715459de6b7f366d",
+  ss58Prefix: 63,
   rpcs: [
     "wss://rpc.hydradx.cloud",
+    "wss://hydradx-rpc.dwellir.com",
   ],
 };
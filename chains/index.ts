@@ -0,0 +1,25 @@
+// Chain registry: name, genesis and default RPC endpoints for every chain the dApp talks to.
+// The defaults are merged with the user's saved endpoint settings (see ./settings.ts).
+import type { ChainKey } from "../xcm-engine/types";
+
+import { ASSET_HUB } from "./assethub";
+import { HYDRADX } from "./hydradx";
+import { PEOPLE } from "./people";
+import { RELAY } from "./relay";
+
+export type ChainInfo = {
+  key: ChainKey;
+  name: string;
+  genesisHash: string; // a configured endpoint must serve this chain
+  ss58Prefix: number;  // address format accounts are shown in (beneficiaries are re-encoded to it)
+  rpcs: readonly string[];
+};
+
+// Display order
+export const CHAINS: readonly ChainInfo[] = [ASSET_HUB, RELAY, PEOPLE, HYDRADX];
+
+export function chainInfo(key: ChainKey): ChainInfo {
+  const c = CHAINS.find((x) => x.key === key);
+  if (!c) throw new Error(`Unknown chain: ${key}`);
+  return c;
+}
@@ -0,0 +1,10 @@
+export const PEOPLE = {
+  key: "people" as const,
+  name: "People",
+  genesisHash: "0x67fa177a097bfa18f77ea95ab56e9bcdfeb0e5b8a40e46298bb93e16b6fc5008",
+  ss58Prefix: 0,
+  rpcs: [
+    "wss://polkadot-people-rpc.polkadot.io",
+    "wss://people-polkadot-rpc.dwellir.com",
+  ],
+};
@@ -0,0 +1,10 @@
+export const RELAY = {
+  key: "relay" as const,
+  name: "Polkadot Relay",
+  genesisHash: "0x91b171bb158e2d3848fa23a9f1c25182fb8e20313b2c1eb49219da7a70ce90c3",
+  ss58Prefix: 0,
+  rpcs: [
+    "wss://rpc.polkadot.io",
+    "wss://polkadot-rpc.dwellir.com",
+  ],
+};
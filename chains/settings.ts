@@ -0,0 +1,57 @@
+// User endpoint settings: order, enabled flag and custom endpoints per chain.
+// Pure merge/validation; persistence lives in frontend/src/engine/endpoints.ts.
+import type { ChainKey } from "../xcm-engine/types";
+
+import { CHAINS } from "./index";
+
+export type EndpointSetting = {
+  url: string;
+  enabled: boolean;
+  custom: boolean; // added by the user (removable), else a registry default
+};
+
+export type ChainSettings = Record<ChainKey, EndpointSetting[]>;
+
+export function defaultChainSettings(): ChainSettings {
+  const out = {} as ChainSettings;
+  for (const c of CHAINS) out[c.key] = c.rpcs.map((url) => ({ url, enabled: true, custom: false }));
+  return out;
+}
+
+// Saved settings win for order and enabled flags. Defaults added since are appended,
+// defaults removed since are dropped (custom endpoints are always kept).
+export function mergeChainSettings(saved?: Partial<Record<string, EndpointSetting[]>>): ChainSettings {
+  const out = defaultChainSettings();
+  if (!saved) return out;
+
+  for (const c of CHAINS) {
+    const list = saved[c.key];
+    if (!Array.isArray(list)) continue;
+
+    const kept = list.filter(
+      (e) => typeof e?.url === "string" && (e.custom || c.rpcs.includes(e.url))
+    );
+    const keptUrls = new Set(kept.map((e) => e.url));
+    const added = out[c.key].filter((e) => !keptUrls.has(e.url));
+
+    out[c.key] = [
+      ...kept.map((e) => ({ url: e.url, enabled: e.enabled !== false, custom: !!e.custom })),
+      ...added,
+    ];
+  }
+  return out;
+}
+
+// Enabled endpoints per chain, in the user's order
+export function enabledRpcs(settings: ChainSettings): Record<ChainKey, string[]> {
+  const out = {} as Record<ChainKey, string[]>;
+  for (const c of CHAINS) out[c.key] = settings[c.key].filter((e) => e.enabled).map((e) => e.url);
+  return out;
+}
+
+export function validateRpcUrl(url: string, existing: EndpointSetting[]): string | undefined {
+  const s = url.trim();
+  if (!/^wss?:\/\/[^\s/]+/.test(s)) return "Endpoint must be a ws:// or wss:// URL.";
+  if (existing.some((e) => e.url === s)) return "Endpoint already listed.";
+  return undefined;
+}
@@ -0,0 +1,730 @@
+// crosspay: the dApp flows from a terminal and from scripts.
+//
+//   crosspay balances <address> [--json]
+//   crosspay quote --from assethub --to hydradx --asset USDC_AH --amount 5 [--address <ss58>] [--beneficiary <ss58>] [--json]
+//   crosspay build --from ... --to ... --asset ... --amount ... --address <ss58> [--beneficiary <ss58>] [--json]
+//   crosspay send  --from ... --to ... --asset ... --amount ... (--seed <uri> | --keystore <file.json>) [--beneficiary <ss58>] [--no-track] [--json]
+//   crosspay request --to ... --asset ... --amount ... (--beneficiary <ss58> | --seed / --keystore to sign) [--ref <text>] [--json]
+//   crosspay verify  --to ... --asset ... --amount ... --beneficiary <ss58> --ref <text> [--blocks 600] [--tolerance <pct>] [--json]
+//
+// --advanced opts in to experimental routes (DOT Asset Hub → HydraDX via polkadotXcm.execute).
+// Multi-hop routes (e.g. relay → hydradx, hydradx → people) pass through Asset Hub; quote lists the hops and their fees.
+// --method typeAndThen|transferAssets|legacy and --fee-asset asset|DOT apply to the stablecoin routes.
+// --real / --multisig-threshold with --signatories wrap build and send in proxy.proxy / a multisig approval.
+// --beneficiary takes a 0x EVM (H160) address on Asset Hub → HydraDX stablecoins; balances takes one too (HydraDX only).
+// The guard also keeps the sending account alive on the source (ED, locks, fees, asset min balance).
+// --request <link> pays a payment request: quote, build and send take its fields (--from picks among its sources).
+// --ref <text> on build and send tags the XCM with the reference's topic; verify finds it on the destination.
+// Keystore password: $CROSSPAY_PASSWORD (or the variable named by --password-env).
+// Exit codes: 0 ok (verify: paid), 1 error / failed transaction or delivery / payment not found, 2 rejected by validation or guard.
+import { readFileSync } from "node:fs";
+
+import type { SubmittableExtrinsic } from "@polkadot/api/types";
+import { Keyring } from "@polkadot/keyring";
+import type { KeyringPair } from "@polkadot/keyring/types";
+import { stringToU8a, u8aToHex } from "@polkadot/util";
+import { cryptoWaitReady } from "@polkadot/util-crypto";
+
+import { amountError, formatAmount, jsonBigint } from "../../xcm-engine/amount";
+import { assetSymbol, assetsTo, feePayingAsset, findRouteByKey, routeHops } from "../../xcm-engine/capabilities";
+import { formatDelivery } from "../../xcm-engine/delivery";
+import type { DeliveryResult } from "../../xcm-engine/delivery";
+import { DOT_DECIMALS, destFeeFromAmount, feesBeforeHopDot, sumFeeLegs, unquotedSourceFees } from "../../xcm-engine/fees";
+import { guardRoute } from "../../xcm-engine/guard";
+import type { GuardInput, GuardResult } from "../../xcm-engine/guard";
+import { sourceCosts } from "../../xcm-engine/keepAlive";
+import { formatMultisigStep, isDirect } from "../../xcm-engine/origin";
+import {
+  paymentRequestMessage,
+  paymentRequestQuery,
+  paymentRequestToTransfer,
+  paymentRequestUrl,
+  parsePaymentRequest,
+} from "../../xcm-engine/paymentRequest";
+import type { PaymentRequest } from "../../xcm-engine/paymentRequest";
+import type { OriginSetting } from "../../xcm-engine/origin";
+import { formatProgram } from "../../xcm-engine/program";
+import type { ExecuteProgram } from "../../xcm-engine/program";
+import { formatPaymentVerification, validateReference } from "../../xcm-engine/topic";
+import { buildTransfer, formatTransferEvent, parseDecimalToInt, submitTransfer } from "../../xcm-engine/transfer";
+import type { BuildOptions, TransferMethod } from "../../xcm-engine/transfer";
+import { formatNegotiation } from "../../xcm-engine/version";
+import type { VersionNegotiation } from "../../xcm-engine/version";
+import type { FeeLeg, TransferRequest } from "../../xcm-engine/types";
+import { validateRequest } from "../../xcm-engine/validate";
+
+import { creditAccountFor, encodeForChain, parseAccountId } from "../src/engine/addressBook";
+import { bootstrapGuardInput, destAssetGuardInput, probeAllChains } from "../src/engine/balances";
+import type { ChainBalanceSnapshot } from "../src/engine/balances";
+import { finalizedBlockNumber, trackDelivery, verifyPayment } from "../src/engine/delivery";
+import { PROBE_CFG, RPCS_BY_CHAIN } from "../src/engine/endpoints";
+import { destFeeAssetFor, estimateNetworkFees } from "../src/engine/fees";
+import { fetchSourceHoldings } from "../src/engine/keepAlive";
+import { checkOrigin, originAccount, wrapForOrigin } from "../src/engine/multisig";
+import { paymentRequestQrText, readPaymentRequest } from "../src/engine/paymentRequest";
+import { createConnectionPool } from "../src/engine/pool";
+import { paymentTopic } from "../src/engine/topic";
+
+const EXIT_OK = 0;
+const EXIT_ERROR = 1;
+const EXIT_BLOCKED = 2;
+
+// deployed dApp, opened by payment-request links
+const APP_URL = "https://il-corvo.github.io/xcm-crosspay/";
+
+const USAGE = `Usage:
+  crosspay balances <address> [--json]
+  crosspay quote --from <chain> --to <chain> --asset <asset> --amount <n> [--address <ss58>] [--beneficiary <ss58>] [--json]
+  crosspay build --from <chain> --to <chain> --asset <asset> --amount <n> --address <ss58> [--beneficiary <ss58>] [--ref <text>] [--json]
+  crosspay send  --from <chain> --to <chain> --asset <asset> --amount <n> (--seed <uri> | --keystore <file>) [--beneficiary <ss58>] [--ref <text>] [--password-env VAR] [--no-track] [--json]
+  crosspay request --to <chain> --asset <asset> --amount <n> (--beneficiary <address> | --seed <uri> | --keystore <file>) [--ref <text>] [--from <chain>] [--base <url>] [--json]
+  crosspay verify  (--to <chain> --asset <asset> --amount <n> --beneficiary <address> --ref <text> | --request <link>) [--blocks <n>] [--tolerance <pct>] [--json]
+
+Options:
+  --advanced                                  enable experimental routes (polkadotXcm.execute)
+  --method typeAndThen|transferAssets|legacy  extrinsic for stablecoin routes (default typeAndThen)
+  --fee-asset asset|DOT                       asset paying destination fees (default: the transferred one)
+  --real <address> [--proxy-type Any]        submit through proxy.proxy on behalf of the real account
+  --multisig-threshold <n> --signatories a,b  submit as one signatory of a multisig (the others, comma separated)
+  --beneficiary <address>                     account credited on the destination, any SS58 format (default: the sender);
+                                              0x EVM (H160) addresses on Asset Hub → HydraDX stablecoins
+  --request <link>                            quote / build / send the transfer a payment-request link asks for
+                                              (replaces --to, --asset, --amount and --beneficiary; --from picks the source)
+  --ref <text>                                payment reference sent as the XCM topic (SetTopic); a request's own by default.
+                                              Execute routes and --method typeAndThen only
+  --blocks <n> / --tolerance <pct>            verify: latest destination blocks to scan (default 600), share that may be short
+
+Chains: assethub, hydradx, relay, people
+Assets: DOT, DOT_HYDRA, USDC_AH, USDT_AH, USDC_HYDRA, USDT_HYDRA`;
+
+// ------------------ args ------------------
+
+type Args = {
+  positional: string[];
+  flags: Record<string, string | true>;
+};
+
+function parseArgs(argv: string[]): Args {
+  const positional: string[] = [];
+  const flags: Record<string, string | true> = {};
+
+  for (let i = 0; i < argv.length; i++) {
+    const a = argv[i];
+    if (!a.startsWith("--")) {
+      positional.push(a);
+      continue;
+    }
+    const name = a.slice(2);
+    const next = argv[i + 1];
+    if (next !== undefined && !next.startsWith("--")) {
+      flags[name] = next;
+      i++;
+    } else {
+      flags[name] = true;
+    }
+  }
+  return { positional, flags };
+}
+
+function flag(args: Args, name: string): string | undefined {
+  const v = args.flags[name];
+  return typeof v === "string" ? v : undefined;
+}
+
+class UsageError extends Error {}
+
+function advanced(args: Args): boolean {
+  return args.flags.advanced === true;
+}
+
+const METHODS: readonly TransferMethod[] = ["typeAndThen", "transferAssets", "legacy"];
+
+// --ref, or the reference of the --request link
+function referenceOf(args: Args): string | undefined {
+  const ref = flag(args, "ref");
+  const link = flag(args, "request");
+  if (ref !== undefined || !link) return ref;
+  return parsePaymentRequest(link.slice(link.indexOf("?") + 1)).request?.reference;
+}
+
+// --advanced, --method, --fee-asset, --ref
+function buildOptions(args: Args): BuildOptions {
+  const method = flag(args, "method");
+  if (method !== undefined && !METHODS.includes(method as TransferMethod)) {
+    throw new UsageError(`--method must be one of ${METHODS.join(", ")}.`);
+  }
+  const feeAsset = flag(args, "fee-asset");
+  if (feeAsset !== undefined && feeAsset !== "asset" && feeAsset !== "DOT") {
+    throw new UsageError("--fee-asset must be asset or DOT.");
+  }
+  const reference = referenceOf(args);
+  const refError = reference === undefined ? undefined : validateReference(reference);
+  if (refError) throw new UsageError(refError);
+  return {
+    advancedEnabled: advanced(args),
+    method: method as TransferMethod | undefined,
+    feeAsset,
+    topic: reference?.trim() ? paymentTopic(reference) : undefined,
+  };
+}
+
+// --real, --proxy-type, --multisig-threshold, --signatories; the signer submits directly without them
+function originFromArgs(args: Args, signer: string): OriginSetting {
+  const real = flag(args, "real");
+  const threshold = flag(args, "multisig-threshold");
+  const signatories = flag(args, "signatories");
+  if ((threshold === undefined) !== (signatories === undefined)) {
+    throw new UsageError("--multisig-threshold and --signatories go together.");
+  }
+  const origin: OriginSetting = {
+    proxy: real ? { real, proxyType: flag(args, "proxy-type") } : undefined,
+    multisig:
+      threshold !== undefined && signatories !== undefined
+        ? { threshold: Number(threshold), otherSignatories: signatories.split(",").map((a) => a.trim()).filter(Boolean) }
+        : undefined,
+  };
+  const errors = checkOrigin(signer, origin);
+  if (errors.length) throw new UsageError(errors.join("\n"));
+  return origin;
+}
+
+function requestFromArgs(args: Args): TransferRequest {
+  const from = flag(args, "from");
+  const to = flag(args, "to");
+  const asset = flag(args, "asset");
+  const amount = flag(args, "amount");
+  if (!from || !to || !asset || !amount) {
+    throw new UsageError("--from, --to, --asset and --amount are required.");
+  }
+  return { from, to, asset, amount, beneficiary: flag(args, "beneficiary") } as TransferRequest;
+}
+
+// --request <link>: the transfer a payment request asks for (rejected like the dApp rejects it),
+// paid from --from or its first source; the other commands' flags otherwise
+async function requestOf(args: Args): Promise<TransferRequest> {
+  const link = flag(args, "request");
+  if (!link) return requestFromArgs(args);
+
+  const { request, errors, signature, sources } = await readPaymentRequest(link.slice(link.indexOf("?") + 1));
+  if (!request) throw new UsageError(`Payment request rejected:\n${errors.map((e) => `  - ${e}`).join("\n")}`);
+  const from = (flag(args, "from") ?? sources[0]) as TransferRequest["from"];
+  if (!sources.includes(from)) throw new UsageError(`This payment request can be paid from ${sources.join(", ")}.`);
+
+  if (!args.flags.json) {
+    const ref = request.reference ? ` (reference ${request.reference})` : "";
+    const signed = signature === "valid" ? "signed by the beneficiary" : "unsigned: check it with the payee";
+    console.error(`Payment request${ref}, ${signed}.`);
+  }
+  return paymentRequestToTransfer(request, from);
+}
+
+// Beneficiary of `req` (the sender when unset), re-encoded for the destination;
+// `credit` is the account its deposit events name (the mapped account of an H160)
+function beneficiaryOf(
+  req: TransferRequest,
+  sender: string,
+  advancedEnabled: boolean
+): { publicKey: Uint8Array; address: string; credit: string } {
+  const parsed = parseAccountId(req.beneficiary || sender);
+  if (typeof parsed === "string") throw new UsageError(parsed);
+  const route = findRouteByKey(req.from, req.to, req.asset, advancedEnabled)?.route;
+  if (parsed.length === 20 && route && !route.evmBeneficiary) {
+    throw new UsageError(`${route.label} does not accept EVM (H160) beneficiaries.`);
+  }
+  return { publicKey: parsed, address: encodeForChain(parsed, req.to), credit: creditAccountFor(parsed, req.to) };
+}
+
+// ------------------ output ------------------
+
+function print(json: boolean, data: unknown, human: string) {
+  console.log(json ? JSON.stringify(data, jsonBigint, 2) : human);
+}
+
+function fmtLeg(l: FeeLeg): string {
+  const amount = l.amount ?? "—";
+  const note = l.note ? `  (${l.note})` : "";
+  const total = l.inTotal ? "" : " [not in total]";
+  return `  ${l.kind.padEnd(22)} ${l.chain.padEnd(9)} ${amount} ${l.asset}${total}${note}`;
+}
+
+// ------------------ chain access ------------------
+
+// probes and commands share one connection per chain, closed before exiting
+const pool = createConnectionPool({ endpoints: RPCS_BY_CHAIN });
+
+function connectChain(chain: TransferRequest["from"], verbose: boolean) {
+  return pool.get(chain, verbose ? (line) => console.error(line) : undefined);
+}
+
+// Optional connection (destination, intermediate hop): undefined when unreachable
+function tryConnect(chain: TransferRequest["from"] | undefined) {
+  if (!chain) return Promise.resolve(undefined);
+  return connectChain(chain, false)
+    .then((c) => c.api)
+    .catch(() => undefined);
+}
+
+function fmtHops(match: NonNullable<ReturnType<typeof findRouteByKey>>): string | undefined {
+  const hops = routeHops(match.route);
+  if (!hops) return undefined;
+  return [hops[0].from, ...hops.map((h) => `${h.to} (${h.transfer})`)].join(" → ");
+}
+
+// Same checks the dApp runs before enabling Preview/Submit
+// `snapshots` are the beneficiary's; `extra` adds what is known once fees are estimated
+function checkRequest(
+  req: TransferRequest,
+  snapshots: ChainBalanceSnapshot[],
+  advancedEnabled: boolean,
+  extra: Partial<GuardInput> = {}
+): { errors: string[]; guard: GuardResult } {
+  const errors = validateRequest(req);
+  const symbol = assetSymbol(req.asset);
+  const guard = guardRoute({
+    from: req.from,
+    to: req.to,
+    asset: symbol,
+    amount: req.amount,
+    ...bootstrapGuardInput(snapshots),
+    ...destAssetGuardInput(snapshots, req.to, symbol, snapshots.find((s) => s.chain === req.to)),
+    advancedEnabled,
+    ...extra,
+  });
+  return { errors, guard };
+}
+
+const blocked = (reason: string): GuardResult => ({ ok: false, hardBlock: true, reason });
+
+// Balances of `address` (the dispatching account) on the source for the keep-alive guard,
+// with the fees it pays there once `legs` are estimated. When they cannot be read the guard
+// cannot run: `error` says why and the caller blocks.
+async function sourceOf(
+  req: TransferRequest,
+  address: string,
+  args: Args,
+  legs?: FeeLeg[],
+  signerPays = true
+): Promise<{ source?: GuardInput["source"]; error?: string }> {
+  const match = findRouteByKey(req.from, req.to, req.asset, advanced(args));
+  if (!match) return {};
+  const { route, asset } = match;
+  const { feeAsset } = buildOptions(args);
+  try {
+    const { api } = await connectChain(req.from, false);
+    const holdings = await fetchSourceHoldings(api, address, route, asset, feeAsset);
+    return {
+      source: {
+        holdings,
+        amount: parseDecimalToInt(req.amount, asset.decimals),
+        costs: sourceCosts({ legs: legs ?? [], from: req.from, holdings, route, asset, feeAsset, signerPays }),
+        estimated: !!legs,
+      },
+    };
+  } catch (e) {
+    return { error: `Source balances could not be read on ${req.from}: ${e instanceof Error ? e.message : String(e)}` };
+  }
+}
+
+// Intermediate ED, destination min balance and source keep-alive guards again, with the runtime fees
+// of `tx`. Without the source fees the keep-alive check cannot run: a failed estimate blocks.
+async function checkWithFees(
+  req: TransferRequest,
+  snapshots: ChainBalanceSnapshot[],
+  args: Args,
+  tx: SubmittableExtrinsic<"promise">,
+  sender: string,
+  signerPays = true
+): Promise<{ legs?: FeeLeg[]; guard: GuardResult }> {
+  const match = findRouteByKey(req.from, req.to, req.asset, advanced(args));
+  if (!match) throw new Error("Unsupported route/asset.");
+  const via = match.route.via?.chain;
+  const payer = feePayingAsset(match.route, match.asset, buildOptions(args).feeAsset);
+
+  let legs: FeeLeg[];
+  try {
+    legs = await estimateNetworkFees({
+      from: req.from,
+      to: req.to,
+      srcApi: (await connectChain(req.from, false)).api,
+      destApi: await tryConnect(req.to),
+      via,
+      viaApi: await tryConnect(via),
+      tx,
+      address: sender,
+      destFeeAsset: destFeeAssetFor(payer),
+    });
+  } catch (e) {
+    const reason = `Network fees could not be estimated: ${e instanceof Error ? e.message : String(e)}`;
+    return { guard: blocked(reason) };
+  }
+  const unquoted = unquotedSourceFees(legs, req.from);
+  if (unquoted) return { legs, guard: blocked(unquoted) };
+  const { source, error } = await sourceOf(req, sender, args, legs, signerPays);
+  if (error) return { legs, guard: blocked(error) };
+
+  const { guard } = checkRequest(req, snapshots, advanced(args), {
+    viaFeeDot: via ? feesBeforeHopDot(legs, req.from) : undefined,
+    destFeeAsset: destFeeFromAmount(legs, req.to, match.asset, payer),
+    source,
+  });
+  return { legs, guard };
+}
+
+function reportCheck(json: boolean, req: TransferRequest, errors: string[], guard: GuardResult): boolean {
+  if (errors.length === 0 && guard.ok) return true;
+  const reasons = [...errors, ...(guard.ok ? [] : [guard.reason ?? "Blocked by guard."])];
+  print(json, { ok: false, request: req, errors, guard }, `✗ Rejected:\n${reasons.map((r) => `  - ${r}`).join("\n")}`);
+  return false;
+}
+
+async function loadPair(args: Args): Promise<KeyringPair> {
+  await cryptoWaitReady();
+  const keyring = new Keyring({ type: "sr25519" });
+
+  const seed = flag(args, "seed");
+  if (seed) return keyring.addFromUri(seed);
+
+  const file = flag(args, "keystore");
+  if (!file) throw new UsageError("send needs --seed <uri> or --keystore <file.json>.");
+
+  const json = JSON.parse(readFileSync(file, "utf8"));
+  const pair = keyring.addFromJson(json);
+  const envName = flag(args, "password-env") ?? "CROSSPAY_PASSWORD";
+  pair.decodePkcs8(process.env[envName] ?? "");
+  return pair;
+}
+
+// ------------------ commands ------------------
+
+async function cmdBalances(args: Args): Promise<number> {
+  const json = args.flags.json === true;
+  const address = args.positional[1];
+  if (!address) throw new UsageError("balances needs an <address>.");
+
+  const snaps = await probeAllChains(address, PROBE_CFG, pool);
+  const lines = snaps.map((s) => {
+    if (!s.ok) return `${s.chain.padEnd(9)} ERR ${s.error ?? ""}`;
+    const tokens = Object.entries(s.tokens ?? {})
+      .map(([k, v]) => `${k} ${formatAmount(v, 6)}`)
+      .join("  ");
+    const native = s.nativeFree ? formatAmount(s.nativeFree, 6) : "-";
+    return `${s.chain.padEnd(9)} ${s.nativeSymbol} ${native} (ED ${s.ed ? formatAmount(s.ed, 6) : "-"})  ${tokens}`;
+  });
+  print(json, snaps, lines.join("\n"));
+  return snaps.every((s) => s.ok) ? EXIT_OK : EXIT_ERROR;
+}
+
+async function cmdQuote(args: Args): Promise<number> {
+  const json = args.flags.json === true;
+  const req = await requestOf(args);
+  const address = flag(args, "address");
+
+  // the guards read the beneficiary's balances (the sender's when paying yourself)
+  const recipient = req.beneficiary ? beneficiaryOf(req, "", advanced(args)).address : address;
+  const snapshots = recipient ? await probeAllChains(recipient, PROBE_CFG, pool) : [];
+  const { source, error } = address ? await sourceOf(req, address, args) : {};
+  if (error) {
+    reportCheck(json, req, [], blocked(error));
+    return EXIT_BLOCKED;
+  }
+  const { errors, guard } = checkRequest(req, snapshots, advanced(args), { source });
+  if (!reportCheck(json, req, errors, guard)) return EXIT_BLOCKED;
+
+  const match = findRouteByKey(req.from, req.to, req.asset, advanced(args));
+  if (!match) throw new Error("Unsupported route/asset.");
+
+  // Runtime legs need a sender to simulate the extrinsic
+  let legs: FeeLeg[] | undefined;
+  let xcmVersion: VersionNegotiation | undefined;
+  let feeGuard: GuardResult | undefined;
+  if (address) {
+    const { api: srcApi } = await connectChain(req.from, false);
+    const tx = await buildTransfer<SubmittableExtrinsic<"promise">>(srcApi, req, beneficiaryOf(req, address, advanced(args)).publicKey, {
+      ...buildOptions(args),
+      destApi: await tryConnect(match.route.via?.chain ?? req.to),
+      onVersion: (n) => (xcmVersion = n),
+    });
+    ({ legs, guard: feeGuard } = await checkWithFees(req, snapshots, args, tx, address));
+    if (!reportCheck(json, req, [], feeGuard)) return EXIT_BLOCKED;
+  }
+
+  const hops = fmtHops(match);
+  const networkFeeDot = legs ? formatAmount(sumFeeLegs(legs, "DOT", DOT_DECIMALS), 6) : undefined;
+  const human = [
+    `Route:   ${match.route.label}`,
+    `Amount:  ${req.amount} ${match.asset.symbol}`,
+    ...(req.beneficiary ? [`To:      ${beneficiaryOf(req, "", advanced(args)).address}`] : []),
+    ...(hops ? [`Hops:    ${hops}`] : []),
+    ...(guard.reason ? [`Note:    ${guard.reason}`] : []),
+    ...(xcmVersion ? [`XCM:     ${formatNegotiation(xcmVersion)}`] : []),
+    legs ? `Fees:\n${legs.map(fmtLeg).join("\n")}\n  network total: ${networkFeeDot} DOT` : "Fees:    pass --address to estimate from the runtime",
+  ].join("\n");
+
+  print(
+    json,
+    { ok: true, request: req, route: match.route.id, hops: routeHops(match.route), guard: feeGuard ?? guard, xcmVersion, legs, networkFeeDot },
+    human
+  );
+  return EXIT_OK;
+}
+
+async function cmdBuild(args: Args): Promise<number> {
+  const json = args.flags.json === true;
+  const req = await requestOf(args);
+  const address = flag(args, "address");
+  if (!address) throw new UsageError("build needs --address <ss58>.");
+  const opts = buildOptions(args);
+  const origin = originFromArgs(args, address);
+  const { publicKey, address: beneficiary } = beneficiaryOf(req, originAccount(address, origin), advanced(args));
+
+  const snapshots = await probeAllChains(beneficiary, PROBE_CFG, pool);
+  const { errors, guard } = checkRequest(req, snapshots, advanced(args));
+  if (!reportCheck(json, req, errors, guard)) return EXIT_BLOCKED;
+
+  const match = findRouteByKey(req.from, req.to, req.asset, advanced(args));
+  const { api } = await connectChain(req.from, !json);
+  // next hop: the intermediate chain on multi-hop routes
+  const nextApi = await tryConnect(match?.route.via?.chain ?? req.to);
+  let program: ExecuteProgram | undefined;
+  let xcmVersion: VersionNegotiation | undefined;
+  const transfer = await buildTransfer<SubmittableExtrinsic<"promise">>(api, req, publicKey, {
+    ...opts,
+    destApi: nextApi,
+    onProgram: (p) => (program = p),
+    onVersion: (n) => (xcmVersion = n),
+  });
+  // source keep-alive with the fees the built transfer costs
+  const sender = originAccount(address, origin);
+  const { guard: feeGuard } = await checkWithFees(req, snapshots, args, transfer, sender, isDirect(origin));
+  if (!reportCheck(json, req, [], feeGuard)) return EXIT_BLOCKED;
+  if (feeGuard.reason && !json) console.error(`Note: ${feeGuard.reason}`);
+
+  const { tx, origin: dispatchedFrom, multisig } = await wrapForOrigin(api, transfer, address, origin);
+  const out = {
+    ok: true,
+    request: req,
+    signer: address,
+    origin: dispatchedFrom,
+    beneficiary,
+    call: `${tx.method.section}.${tx.method.method}`,
+    callData: tx.method.toHex(),
+    callHash: tx.method.hash.toHex(),
+    topic: opts.topic,
+    xcmVersion,
+    hops: match ? routeHops(match.route) : undefined,
+    program: program ? JSON.parse(formatProgram(program)) : undefined,
+    multisig: multisig && { ...multisig, step: formatMultisigStep(multisig.step, origin.multisig?.threshold ?? 0) },
+  };
+  const hops = match ? fmtHops(match) : undefined;
+  const human = [
+    `To:        ${beneficiary}`,
+    ...(dispatchedFrom !== address ? [`From:      ${dispatchedFrom}`] : []),
+    ...(multisig
+      ? [formatMultisigStep(multisig.step, origin.multisig?.threshold ?? 0), `Multisig call data: ${multisig.callData}`]
+      : []),
+    `Call:      ${out.call}`,
+    `Call data: ${out.callData}`,
+    `Call hash: ${out.callHash}`,
+    ...(opts.topic ? [`Topic:     ${opts.topic}`] : []),
+    ...(xcmVersion ? [`XCM:       ${formatNegotiation(xcmVersion)}`] : []),
+    ...(hops ? [`Hops:      ${hops}`] : []),
+    ...(program ? [`XCM program:\n${formatProgram(program)}`] : []),
+  ].join("\n");
+  print(json, out, human);
+  return EXIT_OK;
+}
+
+async function cmdSend(args: Args): Promise<number> {
+  const json = args.flags.json === true;
+  const req = await requestOf(args);
+  const pair = await loadPair(args);
+  const origin = originFromArgs(args, pair.address);
+  const sender = originAccount(pair.address, origin);
+  const { publicKey, address: beneficiary, credit } = beneficiaryOf(req, sender, advanced(args));
+
+  const snapshots = await probeAllChains(beneficiary, PROBE_CFG, pool);
+  const { errors, guard } = checkRequest(req, snapshots, advanced(args));
+  if (!reportCheck(json, req, errors, guard)) return EXIT_BLOCKED;
+
+  const log = (line: string) => {
+    if (!json) console.error(line);
+  };
+
+  const via = findRouteByKey(req.from, req.to, req.asset, advanced(args))?.route.via?.chain;
+  const { api } = await connectChain(req.from, !json);
+  const destApi = args.flags["no-track"] ? undefined : await tryConnect(req.to);
+  const viaApi = await tryConnect(via);
+  const fromBlock = destApi ? (await finalizedBlockNumber(destApi)) + 1 : 0;
+
+  const buildOpts: BuildOptions = {
+    ...buildOptions(args),
+    destApi: via ? viaApi : destApi,
+    onProgram: (p) => log(`XCM program:\n${formatProgram(p)}`),
+    onVersion: (n) => log(formatNegotiation(n)),
+  };
+  const transfer = await buildTransfer<SubmittableExtrinsic<"promise">>(api, req, publicKey, buildOpts);
+  // source keep-alive with the fees the built transfer costs, before anything is signed
+  const { guard: feeGuard } = await checkWithFees(req, snapshots, args, transfer, sender, isDirect(origin));
+  if (!reportCheck(json, req, [], feeGuard)) return EXIT_BLOCKED;
+  if (feeGuard.reason) log(`Note: ${feeGuard.reason}`);
+  if (buildOpts.topic) log(`Payment reference topic: ${buildOpts.topic}`);
+  const { tx, multisig } = await wrapForOrigin(api, transfer, pair.address, origin);
+  if (multisig) log(formatMultisigStep(multisig.step, origin.multisig?.threshold ?? 0));
+  log("Signing & submitting...");
+
+  const outcome = await submitTransfer(api, tx, { pair }, (ev) => log(formatTransferEvent(ev)));
+
+  // a multisig approval before the last one dispatches nothing yet
+  const dispatched = !multisig || multisig.step.final;
+  if (outcome.ok && !dispatched) log(`Approval recorded. Multisig call data: ${multisig?.callData}`);
+
+  let delivery: DeliveryResult | undefined;
+  if (outcome.ok && destApi && dispatched) {
+    delivery = await trackDelivery({
+      api: destApi,
+      chain: req.to,
+      messageIds: outcome.messageIds,
+      beneficiary: credit,
+      fromBlock,
+      log,
+    });
+  }
+
+  const human = outcome.ok
+    ? ["✓ Finalized", ...(delivery ? [formatDelivery(delivery)] : [])].join("\n")
+    : `✗ Failed: ${outcome.error}`;
+  print(json, { request: req, topic: buildOpts.topic, ...outcome, delivery }, human);
+
+  const delivered = !delivery || delivery.status === "delivered";
+  return outcome.ok && delivered ? EXIT_OK : EXIT_ERROR;
+}
+
+async function cmdRequest(args: Args): Promise<number> {
+  const json = args.flags.json === true;
+  const to = flag(args, "to");
+  const asset = flag(args, "asset");
+  const amount = flag(args, "amount");
+  if (!to || !asset || !amount) throw new UsageError("--to, --asset and --amount are required.");
+
+  // with a key, the request is signed by it and pays it
+  const pair = flag(args, "seed") || flag(args, "keystore") ? await loadPair(args) : undefined;
+  const beneficiary = flag(args, "beneficiary") ?? pair?.address;
+  if (!beneficiary) throw new UsageError("request needs --beneficiary <address>, or --seed / --keystore to sign as it.");
+
+  let pr = {
+    to,
+    asset,
+    amount,
+    beneficiary,
+    reference: flag(args, "ref"),
+    from: flag(args, "from"),
+  } as PaymentRequest;
+  if (pair) pr = { ...pr, signature: u8aToHex(pair.sign(stringToU8a(paymentRequestMessage(pr)))) };
+
+  const checked = await readPaymentRequest(paymentRequestQuery(pr));
+  if (!checked.request) {
+    const reasons = checked.errors.map((e) => `  - ${e}`).join("\n");
+    print(json, { ok: false, request: pr, errors: checked.errors }, `✗ Rejected:\n${reasons}`);
+    return EXIT_BLOCKED;
+  }
+
+  const url = paymentRequestUrl(flag(args, "base") ?? APP_URL, pr);
+  const human = [
+    url,
+    checked.signature === "valid" ? "Signed by the beneficiary." : "Unsigned.",
+    await paymentRequestQrText(url),
+  ].join("\n");
+  print(json, { ok: true, request: pr, url, signature: checked.signature, sources: checked.sources }, human);
+  return EXIT_OK;
+}
+
+// Scans the destination for the payment reference's topic: exit 0 only when paid
+async function cmdVerify(args: Args): Promise<number> {
+  const json = args.flags.json === true;
+  const link = flag(args, "request");
+  let pr: Partial<PaymentRequest> = {
+    to: flag(args, "to") as PaymentRequest["to"] | undefined,
+    asset: flag(args, "asset") as PaymentRequest["asset"] | undefined,
+    amount: flag(args, "amount"),
+    beneficiary: flag(args, "beneficiary"),
+  };
+  if (link) {
+    const { request, errors } = parsePaymentRequest(link.slice(link.indexOf("?") + 1));
+    if (!request) throw new UsageError(`Payment request rejected:\n${errors.map((e) => `  - ${e}`).join("\n")}`);
+    pr = request;
+  }
+  const { to, asset, amount, beneficiary } = pr;
+  const reference = referenceOf(args);
+  if (!to || !asset || !amount || !beneficiary) {
+    throw new UsageError("verify needs --to, --asset, --amount and --beneficiary (or --request <link>).");
+  }
+  if (!reference?.trim()) throw new UsageError("verify needs --ref <text> (or a --request link with a reference).");
+  const refError = validateReference(reference);
+  if (refError) throw new UsageError(refError);
+
+  const routeAsset = assetsTo(to, true).find((a) => a.key === asset);
+  if (!routeAsset) throw new UsageError(`No route delivers ${asset} to ${to}.`);
+  const parsed = parseAccountId(beneficiary);
+  if (typeof parsed === "string") throw new UsageError(parsed);
+  const amountErr = amountError(amount, routeAsset.decimals, "--amount");
+  if (amountErr) throw new UsageError(amountErr);
+  const expected = parseDecimalToInt(amount, routeAsset.decimals);
+  if (expected <= 0n) throw new UsageError("--amount must be greater than 0.");
+  const blocks = Number(flag(args, "blocks") ?? 600);
+  const tolerance = Number(flag(args, "tolerance") ?? 0);
+  if (!Number.isInteger(blocks) || blocks < 1) throw new UsageError("--blocks must be a positive integer.");
+  if (!(tolerance >= 0 && tolerance <= 100)) throw new UsageError("--tolerance must be a percentage between 0 and 100.");
+
+  const { api } = await connectChain(to, !json);
+  const v = await verifyPayment({
+    api,
+    chain: to,
+    topic: paymentTopic(reference),
+    beneficiary: creditAccountFor(parsed, to),
+    expected,
+    blocks,
+    tolerance: tolerance / 100,
+    onProgress: (scanned, total) => {
+      if (!json && (scanned === total || scanned % 100 < 8)) console.error(`Scanned ${scanned}/${total} blocks...`);
+    },
+  });
+
+  print(
+    json,
+    { ...v, reference: reference.trim(), expected: v.expected.toString(), received: v.received.toString() },
+    [formatPaymentVerification(v, routeAsset.decimals, routeAsset.symbol), `Topic: ${v.topic}`].join("\n")
+  );
+  return v.status === "paid" ? EXIT_OK : EXIT_ERROR;
+}
+
+// ------------------ main ------------------
+
+const COMMANDS: Record<string, (args: Args) => Promise<number>> = {
+  balances: cmdBalances,
+  quote: cmdQuote,
+  build: cmdBuild,
+  send: cmdSend,
+  request: cmdRequest,
+  verify: cmdVerify,
+};
+
+async function main(): Promise<number> {
+  const args = parseArgs(process.argv.slice(2));
+  const cmd = COMMANDS[args.positional[0] ?? ""];
+  if (!cmd || args.flags.help) {
+    console.error(USAGE);
+    return args.flags.help ? EXIT_OK : EXIT_ERROR;
+  }
+
+  try {
+    return await cmd(args);
+  } catch (e) {
+    console.error(`✗ ${e instanceof Error ? e.message : String(e)}`);
+    if (e instanceof UsageError) console.error(`\n${USAGE}`);
+    return EXIT_ERROR;
+  } finally {
+    await pool.disconnectAll();
+  }
+}
+
+main().then((code) => process.exit(code));
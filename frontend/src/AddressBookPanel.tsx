@@ -0,0 +1,92 @@
+import { useState } from "react";
+
+import { removeEntry, upsertEntry, validateLabel } from "../../xcm-engine/addressBook";
+import type { AddressBookEntry } from "../../xcm-engine/addressBook";
+
+const smallBtn = {
+  padding: "4px 8px",
+  borderRadius: 6,
+  border: "1px solid #ddd",
+  background: "#fff",
+  cursor: "pointer",
+  fontSize: 12,
+} as const;
+
+export function AddressBookPanel(props: {
+  book: AddressBookEntry[];
+  onChange: (next: AddressBookEntry[]) => void;
+  onUse: (address: string) => void;
+}) {
+  const { book, onChange, onUse } = props;
+
+  // label being edited, per entry
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+  const [errors, setErrors] = useState<Record<string, string | undefined>>({});
+
+  function rename(e: AddressBookEntry) {
+    const label = drafts[e.publicKey];
+    if (label === undefined || label.trim() === e.label) return;
+    const err = validateLabel(book, label, e.publicKey);
+    setErrors({ ...errors, [e.publicKey]: err });
+    if (err) return;
+    onChange(upsertEntry(book, { publicKey: e.publicKey, label, address: e.address }));
+    setDrafts((d) => {
+      const next = { ...d };
+      delete next[e.publicKey];
+      return next;
+    });
+  }
+
+  return (
+    <details
+      style={{
+        border: "1px solid #e5e5e5",
+        borderRadius: 12,
+        padding: 16,
+        background: "#fff",
+        marginTop: 20,
+      }}
+    >
+      <summary style={{ cursor: "pointer", fontWeight: 600 }}>Address book ({book.length})</summary>
+
+      <div style={{ marginTop: 10, fontSize: 13, opacity: 0.75 }}>
+        Saved recipients, matched by account in every address format. Saved in this browser.
+        Add one from the Beneficiary field after entering its address.
+      </div>
+
+      {book.length === 0 && <div style={{ marginTop: 12, fontSize: 13, opacity: 0.6 }}>No entries yet.</div>}
+
+      {book.map((e) => (
+        <div key={e.publicKey} style={{ padding: "6px 0", borderTop: "1px solid #f0f0f0", marginTop: 6 }}>
+          <div style={{ display: "flex", alignItems: "center", gap: 8, fontSize: 13 }}>
+            <input
+              value={drafts[e.publicKey] ?? e.label}
+              onChange={(ev) => setDrafts({ ...drafts, [e.publicKey]: ev.target.value })}
+              onBlur={() => rename(e)}
+              onKeyDown={(ev) => {
+                if (ev.key === "Enter") rename(e);
+              }}
+              style={{ width: 180, padding: 6, borderRadius: 6, border: "1px solid #ddd", fontSize: 13 }}
+            />
+            <span style={{ fontFamily: "monospace", fontSize: 12, overflow: "hidden", textOverflow: "ellipsis" }}>
+              {e.address}
+            </span>
+            <span style={{ marginLeft: "auto", display: "flex", gap: 4 }}>
+              <button style={smallBtn} onClick={() => onUse(e.address)}>
+                Use
+              </button>
+              <button style={smallBtn} onClick={() => onChange(removeEntry(book, e.publicKey))}>
+                Remove
+              </button>
+            </span>
+          </div>
+          <div style={{ fontSize: 11, opacity: 0.6, marginTop: 2 }}>
+            Added {new Date(e.addedAt).toLocaleDateString()}
+            {e.lastUsedAt ? ` · last paid ${new Date(e.lastUsedAt).toLocaleString()}` : " · never paid"}
+          </div>
+          {errors[e.publicKey] && <div style={{ fontSize: 12, color: "#b00020" }}>{errors[e.publicKey]}</div>}
+        </div>
+      ))}
+    </details>
+  );
+}
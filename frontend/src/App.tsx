@@ -1,154 +1,138 @@
-import { useEffect, useMemo, useState } from "react";
+import { useCallback, useEffect, useMemo, useState } from "react";
 import "./App.css";
 
 import { guardRoute } from "../../xcm-engine/guard";
+import type { GuardResult } from "../../xcm-engine/guard";
+import {
+  assetSymbol,
+  assetsTo,
+  coerceRoute,
+  feePayingAsset,
+  findRouteByKey,
+  routeHops,
+} from "../../xcm-engine/capabilities";
+import type { FeeAssetChoice } from "../../xcm-engine/capabilities";
+import {
+  buildTransfer,
+  formatTransferEvent,
+  parseDecimalToInt,
+  submitTransfer,
+} from "../../xcm-engine/transfer";
+import type { TransferMethod } from "../../xcm-engine/transfer";
 
 import { WalletPanel } from "./WalletPanel";
 import { SendForm } from "./SendForm";
-
-import type { TransferRequest, FeeQuote } from "../../xcm-engine/types";
+import { HistoryPanel } from "./HistoryPanel";
+import { SettingsPanel } from "./SettingsPanel";
+import { AddressBookPanel } from "./AddressBookPanel";
+import { OriginPanel } from "./OriginPanel";
+import type { PendingState } from "./OriginPanel";
+import { BatchPanel } from "./BatchPanel";
+import { PaymentRequestBanner, PaymentRequestPanel } from "./PaymentRequestPanel";
+import { VerifyPaymentPanel } from "./VerifyPaymentPanel";
+import type { VerifyOptions } from "./VerifyPaymentPanel";
+
+import type { TransferRequest, FeeQuote, FeeLeg } from "../../xcm-engine/types";
 import { validateRequest } from "../../xcm-engine/validate";
-import { quoteFeesDot, DEFAULT_SERVICE_FEE } from "../../xcm-engine/fees";
-import { buildXcmDryRun } from "../../xcm-engine/dryRun";
+import {
+  destFeeFromAmount,
+  feesBeforeHopDot,
+  quoteFeesDot,
+  sumFeeLegs,
+  unquotedSourceFees,
+  DEFAULT_SERVICE_FEE,
+  DOT_DECIMALS,
+} from "../../xcm-engine/fees";
 import type { XcmDryRun } from "../../xcm-engine/dryRun";
-
-import { ApiPromise, WsProvider } from "@polkadot/api";
+import { buildExecuteProgram } from "../../xcm-engine/program";
+import type { ExecuteProgram } from "../../xcm-engine/program";
+import { formatNegotiation } from "../../xcm-engine/version";
+import type { VersionNegotiation } from "../../xcm-engine/version";
+import { formatDelivery } from "../../xcm-engine/delivery";
+import type { DeliveryResult } from "../../xcm-engine/delivery";
+import type { TransferRecord } from "../../xcm-engine/history";
+import { markUsed, upsertEntry } from "../../xcm-engine/addressBook";
+import type { AddressBookEntry } from "../../xcm-engine/addressBook";
+import { beneficiaryLocation } from "../../xcm-engine/beneficiary";
+import { formatMultisigStep, isDirect } from "../../xcm-engine/origin";
+import type { OriginSetting, PendingMultisig } from "../../xcm-engine/origin";
+import { payoutTotals } from "../../xcm-engine/batch";
+import type { PayoutItem } from "../../xcm-engine/batch";
+import { isPaymentRequestQuery, paymentRequestToTransfer } from "../../xcm-engine/paymentRequest";
+import type { PaymentRequest } from "../../xcm-engine/paymentRequest";
+import { topicUnsupportedReason, validateReference } from "../../xcm-engine/topic";
+import type { PaymentVerification } from "../../xcm-engine/topic";
+import { batchSourceCosts, checkSourceKeepAlive, maxSendable, sourceCosts } from "../../xcm-engine/keepAlive";
+import type { SourceHoldings } from "../../xcm-engine/keepAlive";
+import { amountError, amountOf, formatAmount, formatUnits, jsonBigint, mulDiv, rescale } from "../../xcm-engine/amount";
+import type { Amount } from "../../xcm-engine/amount";
+import type { ChainSettings } from "../../chains/settings";
+
+import type { ApiPromise } from "@polkadot/api";
+import type { SubmittableExtrinsic } from "@polkadot/api/types";
 import { web3FromAddress } from "@polkadot/extension-dapp";
-import { decodeAddress } from "@polkadot/util-crypto";
-
-import { probeAllChains } from "./engine/balances";
-import type { ChainBalanceSnapshot, ProbeConfig } from "./engine/balances";
-
-const DOT_DECIMALS = 10;
+import { u8aToHex } from "@polkadot/util";
+
+import {
+  checkBeneficiary,
+  creditAccountFor,
+  loadAddressBook,
+  parseAccountId,
+  saveAddressBook,
+} from "./engine/addressBook";
+import {
+  approvePending,
+  checkOrigin,
+  fetchPendingMultisigs,
+  loadOrigin,
+  multisigAddress,
+  originAccount,
+  saveOrigin,
+  wrapForOrigin,
+} from "./engine/multisig";
+import { bootstrapGuardInput, destAssetGuardInput, probeAllChains, subscribeAllChains } from "./engine/balances";
+import type { ChainBalanceSnapshot } from "./engine/balances";
+import { PROBE_CFG, endpointsFromSettings, loadChainSettings, saveChainSettings } from "./engine/endpoints";
+import { destFeeAssetFor, estimateNetworkFees } from "./engine/fees";
+import { runDryRun } from "./engine/dryRun";
+import { finalizedBlockNumber, trackDelivery, verifyPayment } from "./engine/delivery";
+import { batchStartBlocks, buildBatch, estimateBatchFees, trackPayouts } from "./engine/batch";
+import { readPaymentRequest, signPaymentRequest } from "./engine/paymentRequest";
+import type { IncomingPaymentRequest } from "./engine/paymentRequest";
+import { paymentTopic } from "./engine/topic";
+import { fetchSourceHoldings } from "./engine/keepAlive";
+import { listTransfers, newRecordId, saveTransfer } from "./engine/historyStore";
+import { createConnectionPool } from "./engine/pool";
+import type { EndpointStats } from "./engine/pool";
 
 // ------------------ helpers ------------------
 
-function withTimeout<T>(p: Promise<T>, ms: number): Promise<T> {
-  return new Promise((resolve, reject) => {
-    const t = setTimeout(() => reject(new Error("RPC timeout")), ms);
-    p.then((v) => {
-      clearTimeout(t);
-      resolve(v);
-    }).catch((e) => {
-      clearTimeout(t);
-      reject(e);
-    });
-  });
-}
+// one long-lived connection per chain for the whole session, on the user's endpoints
+const pool = createConnectionPool({ endpoints: endpointsFromSettings(loadChainSettings(localStorage)) });
 
-function parseDecimalToInt(amount: string, decimals: number): bigint {
-  const s = (amount ?? "").trim();
-  if (!s) return 0n;
-  const m = s.match(/^(\d*)\.?(\d*)$/);
-  if (!m) return 0n;
-
-  const wholeStr = m[1] || "0";
-  const fracRaw = m[2] || "";
-  const frac = fracRaw.slice(0, decimals).padEnd(decimals, "0");
-
-  const whole = BigInt(wholeStr || "0");
-  const fracInt = BigInt(frac || "0");
-  const base = 10n ** BigInt(decimals);
-  return whole * base + fracInt;
-}
-
-function makeFeeQuoteNoService(networkFeeDotEst: number): FeeQuote {
+function makeFeeQuoteNoService(networkFeeDotEst: Amount, legs?: FeeLeg[]): FeeQuote {
   return {
-    networkFeeDotEst: networkFeeDotEst.toFixed(6),
-    serviceFeeDot: (0).toFixed(6),
-    totalFeeDot: networkFeeDotEst.toFixed(6),
+    networkFeeDotEst: formatAmount(networkFeeDotEst, 6),
+    serviceFeeDot: formatAmount(amountOf(0n, DOT_DECIMALS), 6),
+    totalFeeDot: formatAmount(networkFeeDotEst, 6),
+    legs,
     notes: ["Service fee disabled (opt-out)."],
   };
 }
 
-async function connectApiWithFallback(
-  rpcs: string[],
-  setLog: (fn: (s: string) => string) => void,
-  cacheKey: string
-): Promise<{ api: ApiPromise; rpc: string }> {
-  const cached = sessionStorage.getItem(cacheKey);
-  const ordered = cached ? [cached, ...rpcs.filter((x) => x !== cached)] : rpcs;
-
-  setLog((s) => s + "Connecting RPC (fallback mode)\n");
-  let lastErr: any = null;
-
-  for (const rpc of ordered) {
-    try {
-      setLog((s) => s + `→ Trying: ${rpc}\n`);
-      const api = await withTimeout(
-        ApiPromise.create({ provider: new WsProvider(rpc) }),
-        8000
-      );
-      setLog((s) => s + `✅ Connected: ${rpc}\n`);
-      sessionStorage.setItem(cacheKey, rpc);
-      return { api, rpc };
-    } catch (e: any) {
-      lastErr = e;
-      setLog((s) => s + `✗ Failed: ${rpc} (${e?.message ?? String(e)})\n`);
-    }
-  }
-
-  throw new Error(
-    `All RPC endpoints failed. Last error: ${lastErr?.message ?? String(lastErr)}`
-  );
+// snapshot balances are exact; shown rounded down to 6 decimals
+function fmtSnap(a?: Amount): string {
+  return a ? formatAmount(a, 6) : "-";
 }
 
-function logFinalizedEvents(
-  result: any,
-  setLog: (fn: (s: string) => string) => void
-) {
-  if (!result.status?.isFinalized) return;
-
-  try {
-    const lines: string[] = [];
-    for (const { event } of result.events) {
-      const sec = event.section;
-      const met = event.method;
-
-      const interesting =
-        sec === "polkadotXcm" ||
-        sec === "xcmPallet" ||
-        sec === "xcmpQueue" ||
-        sec === "messageQueue" ||
-        sec === "dmpQueue" ||
-        sec === "balances" ||
-        sec === "assets" ||
-        sec === "tokens" ||
-        sec === "system";
-
-      if (!interesting) continue;
-
-      let payload = "";
-      try {
-        payload = JSON.stringify(event.toHuman());
-      } catch {
-        payload = event.toString();
-      }
-
-      // keep system noise low
-      if (sec === "system" && met !== "ExtrinsicSuccess" && met !== "ExtrinsicFailed")
-        continue;
+const SNAPSHOT_ORDER: ChainBalanceSnapshot["chain"][] = ["assethub", "hydradx", "relay", "people"];
 
-      if (sec === "polkadotXcm" && met === "Attempted") {
-        let p2 = "";
-        try {
-          p2 = JSON.stringify(event.toHuman(), null, 2);
-        } catch {
-          p2 = event.toString();
-        }
-        lines.push(`*** polkadotXcm.Attempted ***\n${p2}`);
-      } else {
-        lines.push(`${sec}.${met}: ${payload}`);
-      }
-    }
-
-    if (lines.length) {
-      setLog(
-        (s) => s + `\n--- EVENTS (finalized) ---\n${lines.join("\n")}\n--- END EVENTS ---\n`
-      );
-    }
-  } catch {}
-}
+const DELIVERY_COLORS: Record<DeliveryResult["status"], string> = {
+  tracking: "#3a3a3a",
+  delivered: "#1f6f3f",
+  failed: "#8a1f1f",
+  timed_out: "#7a5a10",
+};
 
 // ------------------ App ------------------
 
@@ -160,20 +144,158 @@ export default function App() {
     to: "hydradx",
     asset: "USDC_AH",
     amount: "",
+    beneficiary: "",
   });
 
   const [serviceFeeEnabled, setServiceFeeEnabled] = useState(true);
 
+  // reserve routes: extrinsic used and asset paying destination fees
+  const [transferMethod, setTransferMethod] = useState<TransferMethod>("typeAndThen");
+  const [feeAssetChoice, setFeeAssetChoice] = useState<FeeAssetChoice>("asset");
+
+  // opt-in for the experimental DOT execute route (off on every load)
+  const [advancedDotEnabled, setAdvancedDotEnabled] = useState(false);
+
+  // XCM program of the last `execute` build, keyed by the request it was built for
+  const [program, setProgram] = useState<{ key: string; program: ExecuteProgram } | undefined>(undefined);
+
+  // XCM version negotiated at the last build, per route (it does not depend on the amount)
+  const [xcmVersion, setXcmVersion] = useState<{ routeId: string; negotiation: VersionNegotiation } | undefined>(
+    undefined
+  );
+
   const [selectedAddress, setSelectedAddress] = useState<string>("");
 
   const [dryRun, setDryRun] = useState<XcmDryRun | undefined>(undefined);
+  const [dryRunning, setDryRunning] = useState(false);
+  const [dryRunError, setDryRunError] = useState<string | undefined>(undefined);
   const [submitLog, setSubmitLog] = useState<string>("");
   const [submitting, setSubmitting] = useState(false);
+  const [delivery, setDelivery] = useState<DeliveryResult | undefined>(undefined);
+
+  // local transfer history (IndexedDB, per account)
+  const [history, setHistory] = useState<TransferRecord[]>([]);
+  const [historyError, setHistoryError] = useState<string | undefined>(undefined);
+
+  // runtime fee estimate, keyed by the request it was computed for
+  const [feeEstimate, setFeeEstimate] = useState<
+    { key: string; legs?: FeeLeg[]; error?: string } | undefined
+  >(undefined);
+  const [feeEstimating, setFeeEstimating] = useState(false);
+
+  // source balances for the keep-alive guard, keyed like the estimate; "Max" state
+  const [sourceHoldings, setSourceHoldings] = useState<{ key: string; holdings: SourceHoldings } | undefined>(
+    undefined
+  );
+  const [maxing, setMaxing] = useState(false);
+  const [maxNote, setMaxNote] = useState<string | undefined>(undefined);
+
+  // source balances of the batch rows' routes (JSON list of from/to/asset), by route
+  const [batchRoutes, setBatchRoutes] = useState("[]");
+  const [batchHoldings, setBatchHoldings] = useState<
+    { key: string; holdings: Record<string, SourceHoldings> } | undefined
+  >(undefined);
 
   // portfolio snapshot
   const [snapshots, setSnapshots] = useState<ChainBalanceSnapshot[]>([]);
+  const [evmBalance, setEvmBalance] = useState<ChainBalanceSnapshot | undefined>(undefined);
   const [snapUpdatedMs, setSnapUpdatedMs] = useState<number | undefined>(undefined);
-  const [snapLoading, setSnapLoading] = useState(false);
+  const [liveEpoch, setLiveEpoch] = useState(0); // bumped by Refresh to resubscribe
+  const [endpointStats, setEndpointStats] = useState<EndpointStats[]>([]);
+
+  useEffect(() => pool.onStats(() => setEndpointStats(pool.stats())), []);
+
+  // saved recipients (persisted)
+  const [addressBook, setAddressBook] = useState<AddressBookEntry[]>(() => loadAddressBook(localStorage));
+
+  function onAddressBook(next: AddressBookEntry[]) {
+    setAddressBook(next);
+    saveAddressBook(localStorage, next);
+  }
+
+  // "Submit as": proxy / multisig origin (persisted)
+  const [origin, setOrigin] = useState<OriginSetting>(() => loadOrigin(localStorage));
+  const [pending, setPending] = useState<PendingState>({ loading: false });
+  const [pendingEpoch, setPendingEpoch] = useState(0); // bumped to re-read the pending operations
+  const [approving, setApproving] = useState<string | undefined>(undefined);
+  // call of the last multisig submission, for the approval that executes it
+  const [lastMultisig, setLastMultisig] = useState<{ callHash: string; callData: string } | undefined>(undefined);
+
+  function onOrigin(next: OriginSetting) {
+    setOrigin(next);
+    saveOrigin(localStorage, next);
+  }
+
+  // payment reference, sent as the XCM topic (SetTopic) so the payee can find the deposit
+  const [reference, setReference] = useState("");
+
+  // payment request opened from a link: prefills the form and locks it
+  const [incoming, setIncoming] = useState<IncomingPaymentRequest | undefined>(undefined);
+  const lockedSources = incoming?.request ? incoming.sources : undefined;
+
+  useEffect(() => {
+    const search = window.location.search;
+    if (!isPaymentRequestQuery(search)) return;
+    let cancelled = false;
+    readPaymentRequest(search)
+      .then((res) => {
+        if (cancelled) return;
+        setIncoming(res);
+        if (!res.request) return;
+        setReq(paymentRequestToTransfer(res.request, res.sources[0]));
+        setReference(res.request.reference ?? "");
+      })
+      .catch((e) => {
+        if (cancelled) return;
+        setIncoming({ errors: [e instanceof Error ? e.message : String(e)], signature: "unsigned", sources: [] });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  function onDismissRequest() {
+    setIncoming(undefined);
+    window.history.replaceState(null, "", window.location.pathname);
+  }
+
+  async function onSignRequest(pr: PaymentRequest): Promise<PaymentRequest> {
+    const injector = await web3FromAddress(selectedAddress);
+    return signPaymentRequest(pr, selectedAddress, injector.signer);
+  }
+
+  // looks for the deposit of a payment reference on the destination
+  async function onVerifyPayment(pr: PaymentRequest, opts: VerifyOptions): Promise<PaymentVerification> {
+    const refError = validateReference(pr.reference ?? "");
+    if (refError) throw new Error(refError);
+    const routeAsset = assetsTo(pr.to).find((a) => a.key === pr.asset);
+    if (!routeAsset) throw new Error(`No route delivers ${pr.asset} to ${pr.to}.`);
+    const parsed = parseAccountId(pr.beneficiary);
+    if (typeof parsed === "string") throw new Error(parsed);
+    const expected = parseDecimalToInt(pr.amount, routeAsset.decimals);
+    if (expected <= 0n) throw new Error("The expected amount must be greater than 0.");
+
+    const { api } = await connectChain(pr.to);
+    return verifyPayment({
+      api,
+      chain: pr.to,
+      topic: paymentTopic(pr.reference ?? ""),
+      beneficiary: creditAccountFor(parsed, pr.to),
+      expected,
+      blocks: opts.blocks,
+      tolerance: opts.tolerance,
+      onProgress: opts.onProgress,
+    });
+  }
+
+  // user RPC settings (persisted, applied to the pool right away)
+  const [chainSettings, setChainSettings] = useState<ChainSettings>(() => loadChainSettings(localStorage));
+
+  function onChainSettings(next: ChainSettings) {
+    setChainSettings(next);
+    saveChainSettings(localStorage, next);
+    pool.setEndpoints(endpointsFromSettings(next));
+  }
 
   // ---- guarded request (From != To) ----
   const guardedReq = useMemo<TransferRequest>(() => {
@@ -185,23 +307,116 @@ export default function App() {
 
   const errors = useMemo(() => validateRequest(guardedReq), [guardedReq]);
 
+  // an estimate only applies to the exact request (and build options) it was computed for
+  const keyOf = (r: TransferRequest) => JSON.stringify([r, transferMethod, feeAssetChoice, reference.trim()]);
+  const reqKey = keyOf(guardedReq);
+  const feeLegs = feeEstimate?.key === reqKey ? feeEstimate.legs : undefined;
+  const feeError = feeEstimate?.key === reqKey ? feeEstimate.error : undefined;
+
   // ---- snapshots shortcuts ----
   const relaySnap = snapshots.find((s) => s.chain === "relay");
   const peopleSnap = snapshots.find((s) => s.chain === "people");
 
-  // ---- fee quote ----
-  const isRelayMode = guardedReq.from === "relay" || guardedReq.to === "relay";
-  const isPeopleMode = guardedReq.from === "people" || guardedReq.to === "people";
-  const isTeleportDot = guardedReq.asset === "DOT" && (isRelayMode || isPeopleMode);
+  // ---- route (from the registry) ----
+  const routeMatch = findRouteByKey(guardedReq.from, guardedReq.to, guardedReq.asset, advancedDotEnabled);
+  const route = routeMatch?.route;
+  const via = route?.via?.chain; // multi-hop routes
+
+  // ---- payment reference → topic id (execute programs and typeAndThen only) ----
+  const referenceError =
+    validateReference(reference) ??
+    (reference.trim() && route ? topicUnsupportedReason(route, route.transferType ? transferMethod : "legacy") : undefined);
+  const topic = reference.trim() && !referenceError ? paymentTopic(reference) : undefined;
+
+  // ---- origin: the account the transfer is dispatched from (signer, proxy real, multisig) ----
+  const originErrors = useMemo(() => checkOrigin(selectedAddress, origin), [selectedAddress, origin]);
+  const originValid = !!selectedAddress && originErrors.length === 0;
+  const originAddress = originValid ? originAccount(selectedAddress, origin) : selectedAddress;
+  const multisigAccount = originValid && origin.multisig ? multisigAddress(selectedAddress, origin.multisig) : undefined;
+
+  // ---- beneficiary (the sender when empty), re-encoded for the destination ----
+  const beneficiaryCheck = useMemo(
+    () =>
+      checkBeneficiary({
+        address: guardedReq.beneficiary ?? "",
+        to: guardedReq.to,
+        evm: route?.evmBeneficiary,
+        sender: originAddress,
+        book: addressBook,
+        history,
+      }),
+    [guardedReq.beneficiary, guardedReq.to, route?.evmBeneficiary, originAddress, addressBook, history]
+  );
+  const beneficiaryKey = beneficiaryCheck.publicKey;
+  const beneficiaryAddress = beneficiaryCheck.encoded ?? originAddress;
+  const creditAddress = beneficiaryCheck.creditAccount ?? originAddress; // named by deposit events
+
+  // ---- source keep-alive: the dispatching account's balances on the source ----
+  // re-read whenever the wallet snapshot of the source chain moves
+  const fromSnap = snapshots.find((s) => s.chain === guardedReq.from);
+  const fromBalances = fromSnap ? JSON.stringify([fromSnap.nativeFree, fromSnap.tokens], jsonBigint) : "";
+  const holdingsKey = JSON.stringify([guardedReq.from, guardedReq.to, guardedReq.asset, originAddress, feeAssetChoice]);
+  const holdings = sourceHoldings?.key === holdingsKey ? sourceHoldings.holdings : undefined;
+
+  const { from: holdingsFrom, to: holdingsTo, asset: holdingsAsset } = guardedReq;
+  useEffect(() => {
+    const match = findRouteByKey(holdingsFrom, holdingsTo, holdingsAsset, advancedDotEnabled);
+    if (!match || !originAddress) return;
+    let cancelled = false;
+    pool
+      .get(holdingsFrom)
+      .then(({ api }) => fetchSourceHoldings(api, originAddress, match.route, match.asset, feeAssetChoice))
+      .then((h) => {
+        if (!cancelled) setSourceHoldings({ key: holdingsKey, holdings: h });
+      })
+      .catch(() => {
+        // the guard runs without source balances until a read succeeds
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [holdingsKey, holdingsFrom, holdingsTo, holdingsAsset, originAddress, feeAssetChoice, advancedDotEnabled, fromBalances]);
+
+  // ---- XCM program (execute routes) ----
+  // Shown as soon as the form is filled; the built one has the negotiated version and the runtime max_weight.
+  const negotiated = xcmVersion?.routeId === routeMatch?.route.id ? xcmVersion?.negotiation : undefined;
+  const programPreview = useMemo<ExecuteProgram | undefined>(() => {
+    if (program?.key === reqKey) return program.program;
+    if (!routeMatch || routeMatch.route.call !== "execute" || !beneficiaryKey || beneficiaryCheck.error) return undefined;
+    if (amountError(guardedReq.amount, routeMatch.asset.decimals)) return undefined;
+    const amount = parseDecimalToInt(guardedReq.amount, routeMatch.asset.decimals);
+    if (amount <= 0n) return undefined;
+    const v = negotiated?.version ?? "V4";
+    const beneficiary = beneficiaryLocation(routeMatch.route, beneficiaryKey);
+    return buildExecuteProgram(routeMatch.route, routeMatch.asset, amount, beneficiary, v, topic);
+  }, [program, reqKey, routeMatch, beneficiaryKey, beneficiaryCheck.error, guardedReq.amount, negotiated, topic]);
 
-  const networkFeeDotEst = 0.012;
+  // ---- fee quote ----
+  const isTeleportDot = route?.mode === "dot_teleport";
 
   const feeQuote = useMemo<FeeQuote>(() => {
-    if (isTeleportDot) {
+    if (!feeLegs) {
       return {
         networkFeeDotEst: "-",
         serviceFeeDot: "-",
         totalFeeDot: "-",
+        notes: [
+          feeError
+            ? `Fee estimation failed: ${feeError}`
+            : "Network fees not estimated yet: use \"Estimate network fees\".",
+        ],
+      };
+    }
+
+    // Only DOT legs are summed; legs paid in other assets are listed separately.
+    const networkFeeDotEst = sumFeeLegs(feeLegs, "DOT", DOT_DECIMALS);
+
+    if (isTeleportDot) {
+      return {
+        networkFeeDotEst: formatAmount(networkFeeDotEst, 6),
+        serviceFeeDot: "-",
+        totalFeeDot: formatAmount(networkFeeDotEst, 6),
+        legs: feeLegs,
         notes: [
           "Teleport mode: fees are paid on-chain.",
           "Small teleports may be largely consumed by execution costs.",
@@ -209,510 +424,737 @@ export default function App() {
       };
     }
 
-    if (!serviceFeeEnabled) return makeFeeQuoteNoService(networkFeeDotEst);
+    if (!serviceFeeEnabled) return makeFeeQuoteNoService(networkFeeDotEst, feeLegs);
 
-    const q = quoteFeesDot(0, networkFeeDotEst, DEFAULT_SERVICE_FEE);
+    const q = quoteFeesDot(amountOf(0n, DOT_DECIMALS), networkFeeDotEst, DEFAULT_SERVICE_FEE, feeLegs);
     q.notes = [...q.notes, "Service fee toggle is informational (not collected on-chain)."];
     return q;
-  }, [isTeleportDot, serviceFeeEnabled]);
-
-  // ---- guard mapping ----
-  const guardAsset =
-    guardedReq.asset === "USDC_AH" || guardedReq.asset === "USDC_HYDRA"
-      ? "USDC"
-      : guardedReq.asset === "USDT_AH" || guardedReq.asset === "USDT_HYDRA"
-      ? "USDT"
-      : "DOT";
+  }, [feeLegs, feeError, isTeleportDot, serviceFeeEnabled]);
 
-  const guard = guardRoute({
-    from: guardedReq.from as any,
-    to: guardedReq.to as any,
-    asset: guardAsset as any,
-    amount: Number(guardedReq.amount || "0"),
+  // fees the source account pays besides the amount (a proxy / multisig signer pays the extrinsic)
+  function sourceCostsFor(h: SourceHoldings, legs: FeeLeg[]) {
+    if (!routeMatch) return {};
+    const { route, asset } = routeMatch;
+    return sourceCosts({ legs, from: route.from, holdings: h, route, asset, feeAsset: feeAssetChoice, signerPays: isDirect(origin) });
+  }
 
-    relayFreeDot: relaySnap?.nativeFree ? Number(relaySnap.nativeFree) : undefined,
-    relayEDDot: relaySnap?.ed ? Number(relaySnap.ed) : undefined,
+  // ---- guard mapping ----
+  // the snapshot balances are the sender's: the bootstrap guard only knows them when paying yourself
+  const bootstrap = bootstrapGuardInput(snapshots);
+  // smallest units of the amount; undefined while it does not parse (validateRequest says why)
+  const amountUnits =
+    routeMatch && !amountError(guardedReq.amount, routeMatch.asset.decimals)
+      ? parseDecimalToInt(guardedReq.amount, routeMatch.asset.decimals)
+      : undefined;
+  // The guard for the form's request with `legs` (undefined: not estimated yet) and source balances `h`;
+  // onSubmitReal runs it again with the fees of the exact extrinsic it signs
+  function checkRequest(legs: FeeLeg[] | undefined, h: SourceHoldings | undefined): GuardResult {
+    return guardRoute({
+      from: guardedReq.from,
+      to: guardedReq.to,
+      asset: assetSymbol(guardedReq.asset),
+      amount: guardedReq.amount,
+
+      ...(beneficiaryCheck.self ? bootstrap : { ...bootstrap, relayFreeDot: undefined, peopleFreeDot: undefined }),
+      viaFeeDot: via && legs ? feesBeforeHopDot(legs, guardedReq.from) : undefined,
+      // the beneficiary's destination balances are known when paying yourself or an EVM account
+      ...destAssetGuardInput(
+        snapshots,
+        guardedReq.to,
+        assetSymbol(guardedReq.asset),
+        beneficiaryCheck.self ? snapshots.find((s) => s.chain === guardedReq.to) : evmBalance
+      ),
+      destFeeAsset:
+        legs && routeMatch
+          ? destFeeFromAmount(
+              legs,
+              guardedReq.to,
+              routeMatch.asset,
+              feePayingAsset(routeMatch.route, routeMatch.asset, feeAssetChoice)
+            )
+          : undefined,
+      source:
+        h && amountUnits !== undefined
+          ? {
+              holdings: h,
+              amount: amountUnits,
+              costs: sourceCostsFor(h, legs ?? []),
+              estimated: !!legs,
+            }
+          : undefined,
 
-    peopleFreeDot: peopleSnap?.nativeFree ? Number(peopleSnap.nativeFree) : undefined,
-    peopleEDDot: peopleSnap?.ed ? Number(peopleSnap.ed) : undefined,
-  } as any);
+      advancedEnabled: advancedDotEnabled,
+    });
+  }
+  const guard = checkRequest(feeLegs, holdings);
 
-  const warning = !guard.ok ? guard.reason : undefined;
-  const canPreview = errors.length === 0 && guard.ok;
+  // blocks, and the guard's warnings (the experimental note has its own box)
+  const warning = guard.ok && route?.experimental ? undefined : guard.reason;
+  const canPreview =
+    errors.length === 0 && guard.ok && !beneficiaryCheck.error && originErrors.length === 0 && !referenceError;
 
   // ---- route support ----
-  const supportsAhToHydraStable =
-    guardedReq.from === "assethub" &&
-    guardedReq.to === "hydradx" &&
-    (guardedReq.asset === "USDC_AH" || guardedReq.asset === "USDT_AH");
-
-  const supportsHydraToAhStable =
-    guardedReq.from === "hydradx" &&
-    guardedReq.to === "assethub" &&
-    (guardedReq.asset === "USDC_HYDRA" || guardedReq.asset === "USDT_HYDRA");
-
-  const supportsAhToRelayDot =
-    guardedReq.from === "assethub" &&
-    guardedReq.to === "relay" &&
-    guardedReq.asset === "DOT";
-
-  const supportsRelayToAhDot =
-    guardedReq.from === "relay" &&
-    guardedReq.to === "assethub" &&
-    guardedReq.asset === "DOT";
-
-  const supportsAhToPeopleDot =
-    guardedReq.from === "assethub" &&
-    guardedReq.to === "people" &&
-    guardedReq.asset === "DOT";
-
-  const supportsPeopleToAhDot =
-    guardedReq.from === "people" &&
-    guardedReq.to === "assethub" &&
-    guardedReq.asset === "DOT";
-
-  const supportedAny =
-    supportsAhToHydraStable ||
-    supportsHydraToAhStable ||
-    supportsAhToRelayDot ||
-    supportsRelayToAhDot ||
-    supportsAhToPeopleDot ||
-    supportsPeopleToAhDot;
+  const supportedAny = !!routeMatch;
 
   const canSubmitReal =
-    !submitting && errors.length === 0 && guard.ok && supportedAny && !!selectedAddress;
-
-  const modeLabel =
-    supportsAhToRelayDot ? "Asset Hub → Relay (DOT teleport)" :
-    supportsRelayToAhDot ? "Relay → Asset Hub (DOT teleport)" :
-    supportsAhToPeopleDot ? "Asset Hub → People (DOT teleport)" :
-    supportsPeopleToAhDot ? "People → Asset Hub (DOT teleport)" :
-    supportsAhToHydraStable ? "Asset Hub → HydraDX (reserve transfer)" :
-    supportsHydraToAhStable ? "HydraDX → Asset Hub (reserve transfer)" :
-    "Mode";
-
-  const submitHelp =
-    supportsAhToHydraStable ? "Real submit: stablecoin Asset Hub → HydraDX." :
-    supportsHydraToAhStable ? "Real submit: stablecoin HydraDX → Asset Hub." :
-    supportsAhToRelayDot ? "Real submit: DOT teleport Asset Hub → Relay." :
-    supportsRelayToAhDot ? "Real submit: DOT teleport Relay → Asset Hub (requires spendable DOT on Relay for fees)." :
-    supportsAhToPeopleDot ? "Real submit: DOT teleport Asset Hub → People." :
-    supportsPeopleToAhDot ? "Real submit: DOT teleport People → Asset Hub." :
-    "Unsupported route/asset.";
+    !submitting &&
+    errors.length === 0 &&
+    guard.ok &&
+    !!feeLegs && // the keep-alive guard needs the fees charged on the source
+    supportedAny &&
+    originValid &&
+    !beneficiaryCheck.error &&
+    !referenceError;
+
+  const modeLabel = route?.label ?? "Mode";
+
+  const submitHelp = route?.help ?? "Unsupported route/asset.";
 
   const safetyMsg = isTeleportDot
     ? "Teleport note: fees are on-chain. Bootstrap destination above ED when needed."
     : "See the multi-chain wallet snapshot above for balances and ED.";
 
-  const onDryRun = () => setDryRun(buildXcmDryRun(guardedReq, feeQuote));
-
-  // ---- probe config + refresh ----
-  const PROBE_CFG: ProbeConfig = {
-    timeoutMs: 8000,
-    rpcs: {
-      assethub: [
-        "wss://polkadot-asset-hub-rpc.polkadot.io",
-        "wss://rpc-asset-hub-polkadot.luckyfriday.io",
-        "wss://asset-hub-polkadot-rpc.dwellir.com",
-      ],
-      hydradx: ["wss://rpc.hydradx.cloud", "wss://hydradx-rpc.dwellir.com"],
-      relay: ["wss://rpc.polkadot.io", "wss://polkadot-rpc.dwellir.com"],
-      people: ["wss://polkadot-people-rpc.polkadot.io", "wss://people-polkadot-rpc.dwellir.com"],
-    },
-    assetHub: { usdcAssetId: 1337, usdtAssetId: 1984 },
-    hydra: { usdcAssetId: 22, usdtAssetId: 10, hdxSymbol: "HDX" },
-  };
 
-  async function refreshSnapshot(addr: string) {
-    setSnapLoading(true);
-    try {
-      const res = await probeAllChains(addr, PROBE_CFG);
-      setSnapshots(res);
+  // ---- live balances ----
+  // balances of the dispatching account: the funds and the ED guards are its own
+  useEffect(() => {
+    if (!originAddress) return;
+    setSnapshots([]);
+
+    return subscribeAllChains(originAddress, PROBE_CFG, pool, (snap) => {
+      setSnapshots((prev) => {
+        const next = prev.filter((s) => s.chain !== snap.chain).concat(snap);
+        return next.sort((a, b) => SNAPSHOT_ORDER.indexOf(a.chain) - SNAPSHOT_ORDER.indexOf(b.chain));
+      });
       setSnapUpdatedMs(Date.now());
-    } finally {
-      setSnapLoading(false);
+    });
+  }, [originAddress, liveEpoch]);
+
+  // ---- EVM beneficiary: what its 0x address holds on HydraDX ----
+  const evmAddress = beneficiaryCheck.evm ? beneficiaryCheck.encoded : undefined;
+  useEffect(() => {
+    setEvmBalance(undefined);
+    if (!evmAddress) return;
+    let cancelled = false;
+    probeAllChains(evmAddress, PROBE_CFG, pool)
+      .then((snaps) => {
+        if (!cancelled) setEvmBalance(snaps.find((s) => s.chain === "hydradx"));
+      })
+      .catch((e) => {
+        // shown as "Balance unavailable"; the destination guard then treats the balance as unknown
+        if (cancelled) return;
+        const error = e instanceof Error ? e.message : String(e);
+        setEvmBalance({ chain: "hydradx", nativeSymbol: PROBE_CFG.hydra.hdxSymbol ?? "HDX", nativeDecimals: 12, ok: false, error, ts: Date.now() });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [evmAddress]);
+
+  async function reloadHistory(addr: string) {
+    try {
+      setHistory(await listTransfers(addr));
+      setHistoryError(undefined);
+    } catch (e) {
+      setHistoryError(e instanceof Error ? e.message : String(e));
     }
   }
 
   useEffect(() => {
     if (!selectedAddress) return;
-    refreshSnapshot(selectedAddress).catch(() => {});
-    // eslint-disable-next-line react-hooks/exhaustive-deps
+    reloadHistory(selectedAddress);
   }, [selectedAddress]);
 
-  // ---- RPC lists ----
-  const ASSET_HUB_RPCS = [
-    "wss://rpc-asset-hub-polkadot.luckyfriday.io",
-    "wss://polkadot-asset-hub-rpc.polkadot.io",
-    "wss://asset-hub-polkadot-rpc.dwellir.com", // last-ish
-  ];
-
-  const HYDRA_RPCS = ["wss://rpc.hydradx.cloud", "wss://hydradx-rpc.dwellir.com"];
-
-  const RELAY_RPCS = ["wss://rpc.polkadot.io", "wss://polkadot-rpc.dwellir.com"];
-
-  const PEOPLE_RPCS = ["wss://polkadot-people-rpc.polkadot.io", "wss://people-polkadot-rpc.dwellir.com"];
-
-  // ---- tx builders ----
-  async function makeTxAhToHydra(api: ApiPromise) {
-    const injector = await web3FromAddress(selectedAddress);
-    api.setSigner(injector.signer);
-
-    const HYDRADX_PARA = 2034;
-    const dest = { V3: { parents: 1, interior: { X1: { Parachain: HYDRADX_PARA } } } };
-
-    const id = decodeAddress(selectedAddress);
-    const beneficiary = { V3: { parents: 0, interior: { X1: { AccountId32: { network: null, id } } } } };
+  // History must never break the submit flow
+  async function persistRecord(rec: TransferRecord) {
+    try {
+      await saveTransfer(rec);
+    } catch (e) {
+      setHistoryError(e instanceof Error ? e.message : String(e));
+    }
+    await reloadHistory(rec.account);
+  }
 
-    const assetId = guardedReq.asset === "USDC_AH" ? 1337 : 1984;
+  // ---- batch payouts: each row is checked like the form's request ----
+  // source balances of the rows' routes, re-read whenever the wallet snapshots move
+  const snapBalances = JSON.stringify(snapshots.map((s) => [s.chain, s.nativeFree, s.tokens]), jsonBigint);
+  const batchHoldingsKey = JSON.stringify([batchRoutes, originAddress, feeAssetChoice, advancedDotEnabled]);
+  const rowHoldings = batchHoldings?.key === batchHoldingsKey ? batchHoldings.holdings : undefined;
+  useEffect(() => {
+    if (!originAddress) return;
+    let cancelled = false;
+    const routes = JSON.parse(batchRoutes) as Array<Pick<TransferRequest, "from" | "to" | "asset">>;
+    Promise.all(
+      routes.map(async (r) => {
+        const match = findRouteByKey(r.from, r.to, r.asset, advancedDotEnabled);
+        if (!match) return [];
+        const { api } = await pool.get(r.from);
+        const h = await fetchSourceHoldings(api, originAddress, match.route, match.asset, feeAssetChoice);
+        return [[JSON.stringify([r.from, r.to, r.asset]), h] as const];
+      })
+    )
+      .then((entries) => {
+        if (!cancelled) setBatchHoldings({ key: batchHoldingsKey, holdings: Object.fromEntries(entries.flat()) });
+      })
+      .catch(() => {
+        // rows are checked without source balances until a read succeeds
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [batchHoldingsKey, batchRoutes, originAddress, feeAssetChoice, advancedDotEnabled, snapBalances]);
+
+  const checkPayout = useCallback(
+    (r: TransferRequest): string[] => {
+      const errs = validateRequest(r);
+      const match = findRouteByKey(r.from, r.to, r.asset, advancedDotEnabled);
+      const b = checkBeneficiary({
+        address: r.beneficiary ?? "",
+        to: r.to,
+        evm: match?.route.evmBeneficiary,
+        sender: originAddress,
+        book: addressBook,
+        history,
+      });
+      if (b.error) errs.push(b.error);
+
+      // fees are not estimated per row: the batch's combined quote is checked before signing
+      const boot = bootstrapGuardInput(snapshots);
+      const h = rowHoldings?.[JSON.stringify([r.from, r.to, r.asset])];
+      const g = guardRoute({
+        from: r.from,
+        to: r.to,
+        asset: assetSymbol(r.asset),
+        amount: r.amount,
+        ...(b.self ? boot : { ...boot, relayFreeDot: undefined, peopleFreeDot: undefined }),
+        ...destAssetGuardInput(snapshots, r.to, assetSymbol(r.asset), b.self ? snapshots.find((s) => s.chain === r.to) : undefined),
+        source:
+          h && match && !amountError(r.amount, match.asset.decimals)
+            ? {
+                holdings: h,
+                amount: parseDecimalToInt(r.amount, match.asset.decimals),
+                costs: sourceCosts({
+                  legs: [],
+                  from: r.from,
+                  holdings: h,
+                  route: match.route,
+                  asset: match.asset,
+                  feeAsset: feeAssetChoice,
+                  signerPays: isDirect(origin),
+                }),
+                estimated: false,
+              }
+            : undefined,
+        advancedEnabled: advancedDotEnabled,
+      });
+      if (!g.ok && g.reason) errs.push(g.reason);
+      return errs;
+    },
+    [advancedDotEnabled, originAddress, addressBook, history, snapshots, rowHoldings, feeAssetChoice, origin]
+  );
 
-    const md: any = await api.query.assets.metadata(assetId);
-    const decimals: number = Number(md.decimals?.toString?.() ?? "6");
+  const onBatchRoutes = useCallback(
+    (routes: Array<Pick<TransferRequest, "from" | "to" | "asset">>) => setBatchRoutes(JSON.stringify(routes)),
+    []
+  );
 
-    const amountInt = parseDecimalToInt(guardedReq.amount, decimals);
+  // The rows pass one by one; their sum and the batch's combined fees may still empty the source
+  // account: each asset's total is checked against what can be sent from it
+  async function batchSourceErrors(api: ApiPromise, items: PayoutItem[], legs: FeeLeg[]): Promise<string[]> {
+    const transfers = items.flatMap((it) => {
+      const req = it.request;
+      const match = req && findRouteByKey(req.from, req.to, req.asset, advancedDotEnabled);
+      return match ? [match] : [];
+    });
+    const errors: string[] = [];
+    for (const t of payoutTotals(items)) {
+      const match = transfers.find((m) => m.asset.key === t.asset);
+      if (!match) continue;
+      const h = await fetchSourceHoldings(api, originAddress, match.route, match.asset, feeAssetChoice);
+      const costs = batchSourceCosts({ legs, holdings: h, transfers, feeAsset: feeAssetChoice, signerPays: isDirect(origin) });
+      const check = checkSourceKeepAlive(h, rescale(t.amount, match.asset.decimals).planck, costs, true);
+      if (!check.ok && check.reason) errors.push(`${t.rows} ${assetSymbol(t.asset)} transfers: ${check.reason}`);
+    }
+    return errors;
+  }
 
-    const assets = {
-      V3: [
-        {
-          fun: { Fungible: amountInt.toString() },
-          id: {
-            Concrete: {
-              parents: 0,
-              interior: { X2: [{ PalletInstance: 50 }, { GeneralIndex: String(assetId) }] },
-            },
-          },
-        },
-      ],
-    };
+  const batchDefaults = useMemo(() => ({ from: guardedReq.from, to: guardedReq.to }), [guardedReq.from, guardedReq.to]);
 
-    return api.tx.polkadotXcm.limitedReserveTransferAssets(dest as any, beneficiary as any, assets as any, 0, { Unlimited: null } as any);
+  function batchOptions() {
+    return { advancedEnabled: advancedDotEnabled, method: transferMethod, feeAsset: feeAssetChoice };
   }
 
-  async function makeTxHydraToAh(api: ApiPromise) {
-    const injector = await web3FromAddress(selectedAddress);
-    api.setSigner(injector.signer);
-
-    const ASSET_HUB_PARA = 1000;
-    const dest = { V3: { parents: 1, interior: { X1: { Parachain: ASSET_HUB_PARA } } } };
-
-    const id = decodeAddress(selectedAddress);
-    const beneficiary = { V3: { parents: 0, interior: { X1: { AccountId32: { network: null, id } } } } };
-
-    const generalIndex = guardedReq.asset === "USDC_HYDRA" ? "1337" : "1984";
-    const hydraAssetId = guardedReq.asset === "USDC_HYDRA" ? 22 : 10;
-
-    const a: any = await api.query.assetRegistry.assets(hydraAssetId);
-    const human = a.toHuman() as any;
-    const decimals: number = Number(human?.decimals ?? "6");
-
-    const amountInt = parseDecimalToInt(guardedReq.amount, decimals);
-
-    const assets = {
-      V3: [
-        {
-          fun: { Fungible: amountInt.toString() },
-          id: {
-            Concrete: {
-              parents: 1,
-              interior: {
-                X3: [
-                  { Parachain: ASSET_HUB_PARA },
-                  { PalletInstance: 50 },
-                  { GeneralIndex: generalIndex },
-                ],
-              },
-            },
-          },
-        },
-      ],
+  async function onBatchEstimate(items: PayoutItem[]): Promise<FeeQuote> {
+    const from = items[0]?.request?.from;
+    if (!from) throw new Error("No payout rows to quote.");
+    const srcApi = (await connectChain(from)).api;
+    const tx = await buildBatch(pool, srcApi, items, batchOptions());
+    const legs = await estimateBatchFees({ pool, srcApi, tx, items, address: originAddress, feeAsset: feeAssetChoice });
+    const networkFeeDotEst = sumFeeLegs(legs, "DOT", DOT_DECIMALS);
+    const sourceErrors = await batchSourceErrors(srcApi, items, legs);
+    return {
+      ...makeFeeQuoteNoService(networkFeeDotEst, legs),
+      notes: [`Combined quote for the batch of ${items.length} transfers.`, ...sourceErrors.map((e) => `⚠ ${e}`)],
     };
-
-    return api.tx.polkadotXcm.limitedReserveTransferAssets(dest as any, beneficiary as any, assets as any, 0, { Unlimited: null } as any);
   }
 
-  async function makeTxAhToRelay(api: ApiPromise) {
+  // One utility.batchAll for the rows of one source chain, one history record per row
+  async function onBatchSubmit(
+    items: PayoutItem[],
+    quote: FeeQuote | undefined,
+    update: (index: number, patch: Partial<PayoutItem>) => void,
+    log: (line: string) => void
+  ) {
+    const from = items[0]?.request?.from;
+    if (!from) throw new Error("No payout rows to submit.");
+    if (!originValid) throw new Error(originErrors[0] ?? "Select an account first.");
+    const { api, rpc } = await connectChain(from, log);
+
+    const fromBlocks = await batchStartBlocks(pool, items);
     const injector = await web3FromAddress(selectedAddress);
-    api.setSigner(injector.signer);
-
-    const dest = { V4: { parents: "1", interior: "Here" } };
-
-    const id = decodeAddress(selectedAddress);
-    const beneficiary = {
-      V4: { parents: "0", interior: { X1: [{ AccountId32: { network: null, id } }] } },
+    const batch = await buildBatch(pool, api, items, batchOptions());
+    // the combined fees are needed to check the source account: estimated now when not quoted yet
+    const legs =
+      quote?.legs ?? (await estimateBatchFees({ pool, srcApi: api, tx: batch, items, address: originAddress, feeAsset: feeAssetChoice }));
+    const sourceErrors = await batchSourceErrors(api, items, legs);
+    if (sourceErrors.length > 0) throw new Error(sourceErrors.join(" "));
+    // each record keeps its share of the combined network fee
+    const rowFees = {
+      ...makeFeeQuoteNoService(mulDiv(sumFeeLegs(legs, "DOT", DOT_DECIMALS), 1n, BigInt(items.length))),
+      notes: [`1/${items.length} of the combined quote for the batch.`],
     };
+    const wrapped = await wrapForOrigin(api, batch, selectedAddress, origin);
+    const ms = wrapped.multisig;
+    if (!isDirect(origin)) log(`Dispatched from ${wrapped.origin} (${wrapped.tx.method.section}.${wrapped.tx.method.method})`);
+    if (ms && origin.multisig) {
+      log(formatMultisigStep(ms.step, origin.multisig.threshold));
+      setLastMultisig({ callHash: ms.callHash, callData: ms.callData });
+    }
 
-    const amountInt = parseDecimalToInt(guardedReq.amount, DOT_DECIMALS);
-
-    const assets = {
-      V4: [
-        { id: { parents: "1", interior: "Here" }, fun: { Fungible: amountInt.toString() } },
-      ],
+    const batchId = newRecordId();
+    let records: TransferRecord[] = items.map((it, index) => {
+      const req = it.request;
+      const match = req && findRouteByKey(req.from, req.to, req.asset, advancedDotEnabled);
+      if (!req || !match) throw new Error(`Line ${it.row.line}: unsupported route/asset.`);
+      const b = checkBeneficiary({ address: req.beneficiary ?? "", to: req.to, sender: originAddress, book: [], history: [] });
+      return {
+        id: newRecordId(),
+        account: selectedAddress,
+        origin: isDirect(origin) ? undefined : wrapped.origin,
+        multisig:
+          ms && origin.multisig
+            ? { callHash: ms.callHash, approvals: ms.step.approvals + 1, threshold: origin.multisig.threshold }
+            : undefined,
+        batch: { id: batchId, index, size: items.length },
+        createdAt: Date.now(),
+        request: { ...req, beneficiary: b.encoded ?? req.beneficiary },
+        mode: match.route.mode,
+        routeId: match.route.id,
+        rpc,
+        status: "pending",
+        fees: rowFees,
+        events: [],
+        messageIds: [],
+      };
+    });
+    const saveAll = async () => {
+      for (const r of records) await persistRecord(r);
     };
+    await saveAll();
+    log(`Signing & submitting ${items.length} transfers in one utility.batchAll...`);
 
-    return api.tx.polkadotXcm.limitedTeleportAssets(dest as any, beneficiary as any, assets as any, "0" as any, "Unlimited" as any);
-  }
-
-  async function makeTxRelayToAh(api: ApiPromise) {
-    const injector = await web3FromAddress(selectedAddress);
-    api.setSigner(injector.signer);
-
-    const pallet =
-      (api.tx as any).xcmPallet?.limitedTeleportAssets
-        ? "xcmPallet"
-        : (api.tx as any).polkadotXcm?.limitedTeleportAssets
-        ? "polkadotXcm"
-        : null;
+    let outcome;
+    try {
+      outcome = await submitTransfer(api, wrapped.tx, { address: selectedAddress, signer: injector.signer }, (ev) =>
+        log(formatTransferEvent(ev))
+      );
+    } catch (e) {
+      // e.g. signature rejected in the extension
+      const error = e instanceof Error ? e.message : String(e);
+      records = records.map((r) => ({ ...r, status: "failed", error }));
+      await saveAll();
+      throw e;
+    }
 
-    if (!pallet) throw new Error("Relay runtime does not expose limitedTeleportAssets.");
+    records = records.map((r) => ({
+      ...r,
+      status: outcome.ok ? "finalized" : "failed",
+      blockHash: outcome.blockHash || undefined,
+      txHash: outcome.txHash,
+      error: outcome.error,
+      events: outcome.events,
+    }));
+    await saveAll();
+    if (ms) refreshPending();
+
+    if (!outcome.ok) {
+      // batchAll is all or nothing
+      items.forEach((_, i) => update(i, { status: "failed", reason: outcome.error ?? "Batch failed." }));
+      log(`❌ Batch failed: ${outcome.error ?? "unknown error"}`);
+      return;
+    }
+    if (ms && !ms.step.final) {
+      items.forEach((_, i) => update(i, { status: "submitted", reason: "Multisig approval recorded: awaiting co-signers." }));
+      log(`Approval recorded. Call hash: ${ms.callHash}`);
+      log(`Call data (for the signatory executing it):\n${ms.callData}`);
+      return;
+    }
 
-    const dest = { V4: { parents: 0, interior: { X1: [{ Parachain: 1000 }] } } };
+    await trackPayouts({
+      pool,
+      items,
+      messageIds: outcome.sentIds ?? [],
+      fromBlocks,
+      log,
+      onItem: (i, patch) => {
+        update(i, patch);
+        if (patch.messageId) records[i] = { ...records[i], messageIds: [patch.messageId] };
+        if (patch.status === "delivered" || patch.status === "failed" || patch.status === "timed_out") {
+          records[i] = { ...records[i], delivery: patch.status, deliveryReason: patch.reason };
+          persistRecord(records[i]).catch(() => {
+            // persistRecord shows its own errors in the history panel
+          });
+        }
+      },
+    });
+  }
 
-    const id = decodeAddress(selectedAddress);
-    const beneficiary = { V4: { parents: 0, interior: { X1: [{ AccountId32: { network: null, id } }] } } };
+  // ---- pending multisig operations (on the source chain) ----
+  const refreshPending = () => setPendingEpoch((n) => n + 1);
 
-    const amountInt = parseDecimalToInt(guardedReq.amount, DOT_DECIMALS);
-    const assets = { V4: [{ id: { parents: 0, interior: "Here" }, fun: { Fungible: amountInt.toString() } }] };
+  useEffect(() => {
+    setPending({ loading: !!multisigAccount });
+    if (!multisigAccount) return;
+    let cancelled = false;
+    pool
+      .get(guardedReq.from)
+      .then(({ api }) => fetchPendingMultisigs(api, multisigAccount))
+      .then((ops) => {
+        if (!cancelled) setPending({ ops, loading: false });
+      })
+      .catch((e) => {
+        if (!cancelled) setPending({ error: e instanceof Error ? e.message : String(e), loading: false });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [multisigAccount, guardedReq.from, pendingEpoch]);
 
-    if (pallet === "xcmPallet") {
-      return (api.tx as any).xcmPallet.limitedTeleportAssets(dest as any, beneficiary as any, assets as any, 0, "Unlimited" as any);
+  // Co-signer approval from the pending list; the call data of our own last submission is known
+  async function onApprovePending(op: PendingMultisig, callData?: string) {
+    if (!origin.multisig) return;
+    setApproving(op.callHash);
+    setSubmitLog("");
+    setDelivery(undefined);
+    const log = (line: string) => setSubmitLog((s) => s + line + "\n");
+    try {
+      const { api } = await connectChain(guardedReq.from, log);
+      const data = callData || (lastMultisig?.callHash === op.callHash ? lastMultisig.callData : undefined);
+      const { tx, step } = await approvePending(api, selectedAddress, origin.multisig, op, data);
+      log(formatMultisigStep(step, origin.multisig.threshold));
+
+      const injector = await web3FromAddress(selectedAddress);
+      const outcome = await submitTransfer(api, tx, { address: selectedAddress, signer: injector.signer }, (ev) =>
+        log(formatTransferEvent(ev))
+      );
+      if (!outcome.ok) log(`❌ Approval failed: ${outcome.error ?? "unknown error"}`);
+    } catch (e) {
+      log(`❌ Error: ${e instanceof Error ? e.message : String(e)}`);
+    } finally {
+      setApproving(undefined);
+      refreshPending();
     }
-    return (api.tx as any).polkadotXcm.limitedTeleportAssets(dest as any, beneficiary as any, assets as any, 0, "Unlimited" as any);
   }
 
-  async function makeTxAhToPeople(api: ApiPromise) {
-    const injector = await web3FromAddress(selectedAddress);
-    api.setSigner(injector.signer);
+  function connectChain(chain: TransferRequest["from"], log?: (line: string) => void) {
+    return pool.get(chain, log);
+  }
 
-    // ParaID 1004 from your proven tx
-    const dest = { V4: { parents: "1", interior: { X1: [{ Parachain: "1004" }] } } };
+  // Optional connection (destination, intermediate hop): undefined when unreachable
+  function tryConnect(chain: TransferRequest["from"] | undefined) {
+    if (!chain) return Promise.resolve(undefined);
+    return connectChain(chain)
+      .then((c) => c.api)
+      .catch(() => undefined);
+  }
 
-    const id = decodeAddress(selectedAddress);
-    const beneficiary = {
-      V4: { parents: "0", interior: { X1: [{ AccountId32: { network: null, id } }] } },
-    };
+  // Unsigned tx for the current route (the signer is attached at submit time),
+  // with the XCM version negotiated between source and next hop (`nextApi`)
+  async function makeTxForRoute(api: ApiPromise, nextApi?: ApiPromise, request: TransferRequest = guardedReq) {
+    const key = keyOf(request);
+    if (!beneficiaryKey) throw new Error(beneficiaryCheck.error ?? "Invalid beneficiary.");
+    let version: VersionNegotiation | undefined;
+    const tx = await buildTransfer<SubmittableExtrinsic<"promise">>(api, request, beneficiaryKey, {
+      advancedEnabled: advancedDotEnabled,
+      method: transferMethod,
+      feeAsset: feeAssetChoice,
+      destApi: nextApi,
+      topic,
+      onProgram: (p) => setProgram({ key, program: p }),
+      onVersion: (n) => {
+        version = n;
+        if (routeMatch) setXcmVersion({ routeId: routeMatch.route.id, negotiation: n });
+      },
+    });
+    return { tx, version };
+  }
 
-    const amountInt = parseDecimalToInt(guardedReq.amount, DOT_DECIMALS);
-    const assets = { V4: [{ id: { parents: "1", interior: "Here" }, fun: { Fungible: amountInt.toString() } }] };
+  function onToggleAdvancedDot(enabled: boolean) {
+    setAdvancedDotEnabled(enabled);
+    if (enabled) return;
 
-    return api.tx.polkadotXcm.limitedTeleportAssets(dest as any, beneficiary as any, assets as any, "0" as any, "Unlimited" as any);
+    // leaving opt-in: move off the advanced route
+    const next = coerceRoute(req.from, req.asset, req.to, false);
+    setReq({ ...req, asset: next.asset, to: next.to });
+    setProgram(undefined);
   }
 
-  async function makeTxPeopleToAh(api: ApiPromise) {
-    const injector = await web3FromAddress(selectedAddress);
-    api.setSigner(injector.signer);
-
-    const pallet =
-      (api.tx as any).xcmPallet?.limitedTeleportAssets
-        ? "xcmPallet"
-        : (api.tx as any).polkadotXcm?.limitedTeleportAssets
-        ? "polkadotXcm"
-        : null;
+  async function onEstimateFees() {
+    const key = reqKey;
+    setFeeEstimating(true);
 
-    if (!pallet) throw new Error("People runtime does not expose limitedTeleportAssets.");
+    try {
+      if (!routeMatch) throw new Error("Unsupported route/asset.");
+      const srcApi = (await connectChain(guardedReq.from)).api;
+
+      // the destination and intermediate legs are optional: estimate the rest even if they are unreachable
+      const destApi = await tryConnect(guardedReq.to);
+      const viaApi = await tryConnect(via);
+
+      const { tx } = await makeTxForRoute(srcApi, via ? viaApi : destApi);
+      const legs = await estimateNetworkFees({
+        from: guardedReq.from,
+        to: guardedReq.to,
+        srcApi,
+        destApi,
+        via,
+        viaApi,
+        tx,
+        address: originAddress,
+        destFeeAsset: destFeeAssetFor(feePayingAsset(routeMatch.route, routeMatch.asset, feeAssetChoice)),
+      });
+      setFeeEstimate({ key, legs });
+    } catch (e) {
+      setFeeEstimate({ key, error: e instanceof Error ? e.message : String(e) });
+    } finally {
+      setFeeEstimating(false);
+    }
+  }
 
-    // From People, go up to relay (parents:1) then to parachain 1000
-    const dest = { V4: { parents: 1, interior: { X1: [{ Parachain: 1000 }] } } };
+  // Largest amount that keeps the source account alive and pays every fee charged there.
+  // Fees are estimated on a draft at the pre-fee max: they barely move with the amount.
+  async function onMax() {
+    setMaxing(true);
+    setMaxNote(undefined);
 
-    const id = decodeAddress(selectedAddress);
-    const beneficiary = { V4: { parents: 0, interior: { X1: [{ AccountId32: { network: null, id } }] } } };
+    try {
+      if (!routeMatch) throw new Error("Unsupported route/asset.");
+      const { route, asset } = routeMatch;
+      const srcApi = (await connectChain(route.from)).api;
+      const h = await fetchSourceHoldings(srcApi, originAddress, route, asset, feeAssetChoice);
+      setSourceHoldings({ key: holdingsKey, holdings: h });
+
+      const draftMax = maxSendable(h, sourceCostsFor(h, []));
+      if (draftMax <= 0n) throw new Error(`No spendable ${asset.symbol} on ${route.from}.`);
+      const draft = { ...guardedReq, amount: formatUnits(draftMax, asset.decimals) };
+
+      const destApi = await tryConnect(route.to);
+      const viaApi = await tryConnect(via);
+      const { tx } = await makeTxForRoute(srcApi, via ? viaApi : destApi, draft);
+      const legs = await estimateNetworkFees({
+        from: route.from,
+        to: route.to,
+        srcApi,
+        destApi,
+        via,
+        viaApi,
+        tx,
+        address: originAddress,
+        destFeeAsset: destFeeAssetFor(feePayingAsset(route, asset, feeAssetChoice)),
+      });
+
+      const max = maxSendable(h, sourceCostsFor(h, legs));
+      if (max <= 0n) throw new Error(`The ${asset.symbol} on ${route.from} does not cover the fees.`);
+      const next = { ...guardedReq, amount: formatUnits(max, asset.decimals) };
+      setReq(next);
+      setFeeEstimate({ key: keyOf(next), legs });
+      setDryRun(undefined);
+      setDryRunError(undefined);
+      setMaxNote(`Max on ${route.from}: after ~fees, keeping ED, locks and asset min balances.`);
+    } catch (e) {
+      setMaxNote(e instanceof Error ? e.message : String(e));
+    } finally {
+      setMaxing(false);
+    }
+  }
 
-    const amountInt = parseDecimalToInt(guardedReq.amount, DOT_DECIMALS);
-    const assets = { V4: [{ id: { parents: 0, interior: "Here" }, fun: { Fungible: amountInt.toString() } }] };
+  // Dry-run the exact extrinsic onSubmitReal would sign, then replay its XCM on the destination
+  async function onDryRun() {
+    setDryRun(undefined);
+    setDryRunError(undefined);
+    setDryRunning(true);
 
-    if (pallet === "xcmPallet") {
-      return (api.tx as any).xcmPallet.limitedTeleportAssets(dest as any, beneficiary as any, assets as any, 0, "Unlimited" as any);
+    try {
+      const srcApi = (await connectChain(guardedReq.from)).api;
+
+      const destApi = await tryConnect(guardedReq.to);
+      const viaApi = await tryConnect(via);
+
+      const { tx, version } = await makeTxForRoute(srcApi, via ? viaApi : destApi);
+      const res = await runDryRun({
+        req: guardedReq,
+        fees: feeQuote,
+        srcApi,
+        destApi,
+        via,
+        viaApi,
+        tx,
+        xcmVersion: version,
+        address: originAddress,
+        beneficiary: creditAddress,
+      });
+      setDryRun(res);
+    } catch (e) {
+      setDryRunError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setDryRunning(false);
     }
-    return (api.tx as any).polkadotXcm.limitedTeleportAssets(dest as any, beneficiary as any, assets as any, 0, "Unlimited" as any);
   }
 
   async function onSubmitReal() {
     setSubmitLog("");
+    setDelivery(undefined);
     setSubmitting(true);
 
     try {
       if (!canPreview) throw new Error("Form is not safe/valid yet.");
 
-      if (supportsAhToHydraStable) {
-        const { api } = await connectApiWithFallback(ASSET_HUB_RPCS, setSubmitLog, "rpc_assethub_last_ok");
-        const tx = await makeTxAhToHydra(api);
-        setSubmitLog((s) => s + "Signing & submitting...\n");
-
-        let dispatchLogged = false;
-        const unsub = await tx.signAndSend(selectedAddress, (result: any) => {
-          if (result.status.isFinalized) {
-            setSubmitLog((s) => s + `🎉 Finalized: ${result.status.asFinalized.toString()}\n`);
-            logFinalizedEvents(result, setSubmitLog);
-            try { unsub(); } catch {}
-            api.disconnect().catch(() => {});
-            setSubmitting(false);
-          } else {
-            setSubmitLog((s) => s + `Status: ${result.status.type}\n`);
-          }
-
-          if (result.dispatchError && !dispatchLogged) {
-            dispatchLogged = true;
-            let errMsg = result.dispatchError.toString();
-            if (result.dispatchError.isModule) {
-              const decoded = api.registry.findMetaError(result.dispatchError.asModule);
-              errMsg = `${decoded.section}.${decoded.name}: ${decoded.docs.join(" ")}`;
-            }
-            setSubmitLog((s) => s + `❌ DispatchError: ${errMsg}\n`);
-          }
-        });
-        return;
-      }
-
-      if (supportsHydraToAhStable) {
-        const { api } = await connectApiWithFallback(HYDRA_RPCS, setSubmitLog, "rpc_hydra_last_ok");
-        const tx = await makeTxHydraToAh(api);
-        setSubmitLog((s) => s + "Signing & submitting...\n");
-
-        let dispatchLogged = false;
-        const unsub = await tx.signAndSend(selectedAddress, (result: any) => {
-          if (result.status.isFinalized) {
-            setSubmitLog((s) => s + `🎉 Finalized: ${result.status.asFinalized.toString()}\n`);
-            logFinalizedEvents(result, setSubmitLog);
-            try { unsub(); } catch {}
-            api.disconnect().catch(() => {});
-            setSubmitting(false);
-          } else {
-            setSubmitLog((s) => s + `Status: ${result.status.type}\n`);
-          }
-
-          if (result.dispatchError && !dispatchLogged) {
-            dispatchLogged = true;
-            let errMsg = result.dispatchError.toString();
-            if (result.dispatchError.isModule) {
-              const decoded = api.registry.findMetaError(result.dispatchError.asModule);
-              errMsg = `${decoded.section}.${decoded.name}: ${decoded.docs.join(" ")}`;
-            }
-            setSubmitLog((s) => s + `❌ DispatchError: ${errMsg}\n`);
-          }
-        });
-        return;
-      }
+      if (!route) throw new Error("Unsupported route/asset.");
 
-      if (supportsAhToRelayDot) {
-        const { api } = await connectApiWithFallback(ASSET_HUB_RPCS, setSubmitLog, "rpc_assethub_last_ok");
-        const tx = await makeTxAhToRelay(api);
-        setSubmitLog((s) => s + "Signing & submitting...\n");
-
-        let dispatchLogged = false;
-        const unsub = await tx.signAndSend(selectedAddress, (result: any) => {
-          if (result.status.isFinalized) {
-            setSubmitLog((s) => s + `🎉 Finalized: ${result.status.asFinalized.toString()}\n`);
-            logFinalizedEvents(result, setSubmitLog);
-            try { unsub(); } catch {}
-            api.disconnect().catch(() => {});
-            setSubmitting(false);
-          } else {
-            setSubmitLog((s) => s + `Status: ${result.status.type}\n`);
-          }
-
-          if (result.dispatchError && !dispatchLogged) {
-            dispatchLogged = true;
-            let errMsg = result.dispatchError.toString();
-            if (result.dispatchError.isModule) {
-              const decoded = api.registry.findMetaError(result.dispatchError.asModule);
-              errMsg = `${decoded.section}.${decoded.name}: ${decoded.docs.join(" ")}`;
-            }
-            setSubmitLog((s) => s + `❌ DispatchError: ${errMsg}\n`);
-          }
-        });
-        return;
-      }
+      const log = (line: string) => setSubmitLog((s) => s + line + "\n");
+      const { api, rpc } = await connectChain(route.from, log);
 
-      if (supportsRelayToAhDot) {
-        const { api } = await connectApiWithFallback(RELAY_RPCS, setSubmitLog, "rpc_relay_last_ok");
-        const tx = await makeTxRelayToAh(api);
-        setSubmitLog((s) => s + "Signing & submitting...\n");
-
-        let dispatchLogged = false;
-        const unsub = await tx.signAndSend(selectedAddress, (result: any) => {
-          if (result.status.isFinalized) {
-            setSubmitLog((s) => s + `🎉 Finalized: ${result.status.asFinalized.toString()}\n`);
-            logFinalizedEvents(result, setSubmitLog);
-            try { unsub(); } catch {}
-            api.disconnect().catch(() => {});
-            setSubmitting(false);
-          } else {
-            setSubmitLog((s) => s + `Status: ${result.status.type}\n`);
-          }
-
-          if (result.dispatchError && !dispatchLogged) {
-            dispatchLogged = true;
-            let errMsg = result.dispatchError.toString();
-            if (result.dispatchError.isModule) {
-              const decoded = api.registry.findMetaError(result.dispatchError.asModule);
-              errMsg = `${decoded.section}.${decoded.name}: ${decoded.docs.join(" ")}`;
-            }
-            setSubmitLog((s) => s + `❌ DispatchError: ${errMsg}\n`);
-          }
-        });
-        return;
-      }
+      // destination is connected up front so no block is missed while the source finalizes
+      const destApi = await tryConnect(route.to);
+      const viaApi = await tryConnect(route.via?.chain);
 
-      if (supportsAhToPeopleDot) {
-        const { api } = await connectApiWithFallback(ASSET_HUB_RPCS, setSubmitLog, "rpc_assethub_last_ok");
-        const tx = await makeTxAhToPeople(api);
-        setSubmitLog((s) => s + "Signing & submitting...\n");
-
-        let dispatchLogged = false;
-        const unsub = await tx.signAndSend(selectedAddress, (result: any) => {
-          if (result.status.isFinalized) {
-            setSubmitLog((s) => s + `🎉 Finalized: ${result.status.asFinalized.toString()}\n`);
-            logFinalizedEvents(result, setSubmitLog);
-            try { unsub(); } catch {}
-            api.disconnect().catch(() => {});
-            setSubmitting(false);
-          } else {
-            setSubmitLog((s) => s + `Status: ${result.status.type}\n`);
-          }
-
-          if (result.dispatchError && !dispatchLogged) {
-            dispatchLogged = true;
-            let errMsg = result.dispatchError.toString();
-            if (result.dispatchError.isModule) {
-              const decoded = api.registry.findMetaError(result.dispatchError.asModule);
-              errMsg = `${decoded.section}.${decoded.name}: ${decoded.docs.join(" ")}`;
-            }
-            setSubmitLog((s) => s + `❌ DispatchError: ${errMsg}\n`);
-          }
+      let record: TransferRecord | undefined;
+      try {
+        const fromBlock = destApi ? (await finalizedBlockNumber(destApi)) + 1 : 0;
+
+        const injector = await web3FromAddress(selectedAddress);
+        const { tx: transfer, version } = await makeTxForRoute(api, route.via ? viaApi : destApi);
+        if (version) log(formatNegotiation(version));
+
+        const wrapped = await wrapForOrigin(api, transfer, selectedAddress, origin);
+
+        // guard again with the fees of the exact extrinsic being signed and fresh source balances:
+        // without the source fees the keep-alive check cannot run, so a failed estimate blocks
+        if (!routeMatch) throw new Error("Unsupported route/asset.");
+        const legs = await estimateNetworkFees({
+          from: route.from,
+          to: route.to,
+          srcApi: api,
+          destApi,
+          via,
+          viaApi,
+          tx: wrapped.tx,
+          address: selectedAddress,
+          destFeeAsset: destFeeAssetFor(feePayingAsset(route, routeMatch.asset, feeAssetChoice)),
+        }).catch((e) => {
+          throw new Error(`Network fees could not be estimated: ${e instanceof Error ? e.message : String(e)}`);
         });
-        return;
-      }
+        const unquoted = unquotedSourceFees(legs, route.from);
+        if (unquoted) throw new Error(unquoted);
+        const h = await fetchSourceHoldings(api, originAddress, route, routeMatch.asset, feeAssetChoice);
+        const feeGuard = checkRequest(legs, h);
+        if (!feeGuard.ok) throw new Error(feeGuard.reason ?? "Blocked by guard.");
+
+        const ms = wrapped.multisig;
+        if (!isDirect(origin)) log(`Dispatched from ${wrapped.origin} (${wrapped.tx.method.section}.${wrapped.tx.method.method})`);
+        if (ms && origin.multisig) {
+          log(formatMultisigStep(ms.step, origin.multisig.threshold));
+          setLastMultisig({ callHash: ms.callHash, callData: ms.callData });
+        }
 
-      if (supportsPeopleToAhDot) {
-        const { api } = await connectApiWithFallback(PEOPLE_RPCS, setSubmitLog, "rpc_people_last_ok");
-        const tx = await makeTxPeopleToAh(api);
-        setSubmitLog((s) => s + "Signing & submitting...\n");
-
-        let dispatchLogged = false;
-        const unsub = await tx.signAndSend(selectedAddress, (result: any) => {
-          if (result.status.isFinalized) {
-            setSubmitLog((s) => s + `🎉 Finalized: ${result.status.asFinalized.toString()}\n`);
-            logFinalizedEvents(result, setSubmitLog);
-            try { unsub(); } catch {}
-            api.disconnect().catch(() => {});
-            setSubmitting(false);
-          } else {
-            setSubmitLog((s) => s + `Status: ${result.status.type}\n`);
-          }
-
-          if (result.dispatchError && !dispatchLogged) {
-            dispatchLogged = true;
-            let errMsg = result.dispatchError.toString();
-            if (result.dispatchError.isModule) {
-              const decoded = api.registry.findMetaError(result.dispatchError.asModule);
-              errMsg = `${decoded.section}.${decoded.name}: ${decoded.docs.join(" ")}`;
-            }
-            setSubmitLog((s) => s + `❌ DispatchError: ${errMsg}\n`);
-          }
-        });
-        return;
+        record = {
+          id: newRecordId(),
+          account: selectedAddress,
+          origin: isDirect(origin) ? undefined : wrapped.origin,
+          multisig:
+            ms && origin.multisig
+              ? { callHash: ms.callHash, approvals: ms.step.approvals + 1, threshold: origin.multisig.threshold }
+              : undefined,
+          createdAt: Date.now(),
+          request: { ...guardedReq, beneficiary: beneficiaryAddress },
+          mode: route.mode,
+          routeId: route.id,
+          rpc,
+          reference: topic ? reference.trim() : undefined,
+          topic,
+          status: "pending",
+          fees: feeQuote,
+          events: [],
+          messageIds: [],
+        };
+        await persistRecord(record);
+        log("Signing & submitting...");
+
+        const outcome = await submitTransfer(api, wrapped.tx, { address: selectedAddress, signer: injector.signer }, (ev) =>
+          log(formatTransferEvent(ev))
+        );
+
+        record = {
+          ...record,
+          status: outcome.ok ? "finalized" : "failed",
+          blockHash: outcome.blockHash || undefined,
+          txHash: outcome.txHash,
+          error: outcome.error,
+          events: outcome.events,
+          messageIds: outcome.messageIds,
+        };
+        await persistRecord(record);
+        if (outcome.ok && beneficiaryCheck.entry) onAddressBook(markUsed(addressBook, beneficiaryCheck.entry.publicKey));
+
+        if (ms) refreshPending();
+
+        if (outcome.ok && ms && !ms.step.final) {
+          log(`Approval recorded. Call hash: ${ms.callHash}`);
+          log(`Call data (for the signatory executing it):\n${ms.callData}`);
+        } else if (outcome.ok && !destApi) {
+          log(`⚠️ ${route.to} RPC unreachable: delivery not tracked.`);
+        } else if (outcome.ok && destApi) {
+          const tracking: DeliveryResult = { status: "tracking", chain: route.to, messageIds: outcome.messageIds };
+          setDelivery(tracking);
+          log(formatDelivery(tracking));
+
+          const result = await trackDelivery({
+            api: destApi,
+            chain: route.to,
+            messageIds: outcome.messageIds,
+            beneficiary: creditAddress,
+            fromBlock,
+            log,
+          });
+          setDelivery(result);
+          log(formatDelivery(result));
+
+          record = {
+            ...record,
+            delivery: result.status,
+            deliveryReason: result.reason,
+            deliveryBlock: result.blockNumber,
+          };
+          await persistRecord(record);
+        }
+      } catch (e) {
+        // e.g. signature rejected in the extension
+        if (record?.status === "pending") {
+          await persistRecord({ ...record, status: "failed", error: e instanceof Error ? e.message : String(e) });
+        }
+        throw e;
       }
-
-      throw new Error("Unsupported route/asset.");
+      setSubmitting(false);
     } catch (e: any) {
       setSubmitLog((s) => s + `❌ Error: ${e?.message ?? String(e)}\n`);
       setSubmitting(false);
@@ -721,13 +1163,13 @@ export default function App() {
 
   // Relay/People notes (bootstrap awareness)
 const relayNote =
-  supportsAhToRelayDot && relaySnap
-    ? `Relay free ≈ ${relaySnap.nativeFree} DOT (ED ≈ ${relaySnap.ed}).`
+  route?.bootstrapEd === "relay" && relaySnap
+    ? `Relay free ≈ ${fmtSnap(relaySnap.nativeFree)} DOT (ED ≈ ${fmtSnap(relaySnap.ed)}).`
     : undefined;
 
 const peopleNote =
-  supportsAhToPeopleDot && peopleSnap
-    ? `People free ≈ ${peopleSnap.nativeFree} DOT (ED ≈ ${peopleSnap.ed}).`
+  route?.bootstrapEd === "people" && peopleSnap
+    ? `People free ≈ ${fmtSnap(peopleSnap.nativeFree)} DOT (ED ≈ ${fmtSnap(peopleSnap.ed)}).`
     : undefined;
 
   // ---- Render ----
@@ -743,38 +1185,88 @@ const peopleNote =
       <WalletPanel
         snapshots={snapshots}
         lastUpdatedMs={snapUpdatedMs}
-        onRefresh={
-          selectedAddress && !snapLoading
-            ? () => refreshSnapshot(selectedAddress)
-            : undefined
-        }
+        onRefresh={selectedAddress ? () => setLiveEpoch((n) => n + 1) : undefined}
+        endpointStats={endpointStats}
         onSelectedAddress={setSelectedAddress}
         onChainData={() => {}}
       />
 
+      <OriginPanel
+        origin={origin}
+        onChange={onOrigin}
+        originAddress={originValid ? originAddress : undefined}
+        multisigAccount={multisigAccount}
+        errors={selectedAddress ? originErrors : []}
+        pending={pending}
+        currentCallHash={lastMultisig?.callHash}
+        approving={approving}
+        onRefreshPending={refreshPending}
+        onApprove={onApprovePending}
+      />
+
+      {incoming && <PaymentRequestBanner incoming={incoming} onDismiss={onDismissRequest} />}
+
       <SendForm
         value={guardedReq}
+        beneficiaryCheck={beneficiaryCheck}
+        beneficiaryBalance={evmBalance}
+        addressBook={addressBook}
+        onSaveBeneficiary={(label) => {
+          if (!beneficiaryKey) return;
+          const address = beneficiaryCheck.encoded ?? guardedReq.beneficiary ?? "";
+          onAddressBook(upsertEntry(addressBook, { publicKey: u8aToHex(beneficiaryKey), label, address }));
+        }}
         onChange={(next) => {
           setReq(next);
           setDryRun(undefined);
+          setDryRunError(undefined);
           setSubmitLog("");
+          setDelivery(undefined);
+          setMaxNote(undefined);
         }}
         feeQuote={feeQuote}
+        canEstimateFees={canSubmitReal && !feeEstimating}
+        feeEstimating={feeEstimating}
+        onEstimateFees={onEstimateFees}
         safetyMsg={safetyMsg}
         serviceFeeEnabled={serviceFeeEnabled}
         onToggleServiceFee={setServiceFeeEnabled}
-        canPreview={canPreview}
+        canPreview={canPreview && supportedAny && !!selectedAddress && !dryRunning}
         onDryRun={onDryRun}
         dryRun={dryRun}
+        dryRunning={dryRunning}
+        dryRunError={dryRunError}
         canSubmitReal={canSubmitReal}
         onSubmitReal={onSubmitReal}
         submitHelp={submitHelp}
         warning={warning}
         modeLabel={modeLabel}
-        advancedDotEnabled={false}
+        advancedDotEnabled={advancedDotEnabled}
+        onToggleAdvancedDot={onToggleAdvancedDot}
+        transferType={route?.transferType}
+        transferMethod={transferMethod}
+        onTransferMethod={(m) => {
+          setTransferMethod(m);
+          // the legacy call only pays fees with the transferred asset
+          if (m === "legacy") setFeeAssetChoice("asset");
+        }}
+        feeAssetChoice={feeAssetChoice}
+        onFeeAssetChoice={setFeeAssetChoice}
+        dotFeeBudget={route?.feeAsset?.budget}
+        program={programPreview}
+        hops={route ? routeHops(route) : undefined}
         relayNote={relayNote}
         peopleNote={peopleNote}
         hideServiceFee={isTeleportDot}
+        lockedSources={lockedSources}
+        reference={reference}
+        onReference={setReference}
+        topic={topic}
+        referenceError={referenceError}
+        canMax={!!routeMatch && originValid && !!beneficiaryKey && !lockedSources && !maxing}
+        maxing={maxing}
+        maxNote={maxNote}
+        onMax={onMax}
       />
 
       {submitLog && (
@@ -790,10 +1282,51 @@ const peopleNote =
           }}
         >
           <strong>Submit log</strong>
+          {delivery && (
+            <div
+              style={{
+                marginTop: 10,
+                padding: "6px 10px",
+                borderRadius: 8,
+                background: DELIVERY_COLORS[delivery.status],
+                color: "#fff",
+                fontWeight: 600,
+              }}
+            >
+              {formatDelivery(delivery)}
+            </div>
+          )}
           <pre style={{ marginTop: 10, whiteSpace: "pre-wrap" }}>{submitLog}</pre>
         </div>
       )}
 
+      <BatchPanel
+        defaults={batchDefaults}
+        check={checkPayout}
+        onRoutes={onBatchRoutes}
+        snapshots={snapshots}
+        canSubmit={originValid && !submitting}
+        onEstimate={onBatchEstimate}
+        onSubmit={onBatchSubmit}
+      />
+
+      <PaymentRequestPanel account={selectedAddress} onSign={onSignRequest} />
+
+      <VerifyPaymentPanel account={selectedAddress} onVerify={onVerifyPayment} />
+
+      {selectedAddress && <HistoryPanel records={history} error={historyError} />}
+
+      <AddressBookPanel
+        book={addressBook}
+        onChange={onAddressBook}
+        onUse={(address) => {
+          // a payment request keeps its beneficiary
+          if (!lockedSources) setReq({ ...req, beneficiary: address });
+        }}
+      />
+
+      <SettingsPanel settings={chainSettings} onChange={onChainSettings} />
+
       <footer style={{ marginTop: 40, opacity: 0.6 }}>
         <p style={{ margin: 0 }}>
           Source:{" "}
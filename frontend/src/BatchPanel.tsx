@@ -0,0 +1,266 @@
+import { useEffect, useMemo, useState } from "react";
+
+import { compareAmounts, formatAmount } from "../../xcm-engine/amount";
+import type { Amount } from "../../xcm-engine/amount";
+import {
+  MAX_BATCH_ROWS,
+  capBatch,
+  failedPayoutsCsv,
+  groupBySource,
+  parsePayoutCsv,
+  payoutItems,
+  payoutTotals,
+} from "../../xcm-engine/batch";
+import type { PayoutItem, PayoutStatus, PayoutTotal } from "../../xcm-engine/batch";
+import { assetSymbol } from "../../xcm-engine/capabilities";
+import type { AssetKey, ChainKey, FeeQuote, TransferRequest } from "../../xcm-engine/types";
+
+import type { ChainBalanceSnapshot } from "./engine/balances";
+
+const smallBtn = {
+  padding: "6px 10px",
+  borderRadius: 8,
+  border: "1px solid #ddd",
+  background: "#fff",
+  cursor: "pointer",
+  fontSize: 13,
+} as const;
+
+const STATUS_COLORS: Partial<Record<PayoutStatus, string>> = {
+  invalid: "#b00020",
+  failed: "#b00020",
+  delivered: "#0a7d2c",
+  timed_out: "#a15c00",
+};
+
+const cell = { padding: "6px", borderBottom: "1px solid #f4f4f4", verticalAlign: "top" } as const;
+
+function download(name: string, type: string, body: string) {
+  const url = URL.createObjectURL(new Blob([body], { type }));
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = name;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+// Free balance of the asset on its source chain, when the snapshot has it
+function available(snapshots: ChainBalanceSnapshot[], t: PayoutTotal): Amount | undefined {
+  const snap = snapshots.find((s) => s.chain === t.from);
+  if (!snap?.ok) return undefined;
+  const symbol = assetSymbol(t.asset);
+  return symbol === snap.nativeSymbol ? snap.nativeFree : snap.tokens?.[symbol];
+}
+
+export function BatchPanel(props: {
+  defaults: { from: ChainKey; to: ChainKey };
+  check: (req: TransferRequest) => string[];
+  onRoutes: (routes: Array<Pick<TransferRequest, "from" | "to" | "asset">>) => void; // routes the rows use, for `check`
+  snapshots: ChainBalanceSnapshot[]; // balances of the dispatching account
+  canSubmit: boolean;
+  onEstimate: (items: PayoutItem[]) => Promise<FeeQuote>;
+  onSubmit: (
+    items: PayoutItem[],
+    quote: FeeQuote | undefined,
+    update: (index: number, patch: Partial<PayoutItem>) => void,
+    log: (line: string) => void
+  ) => Promise<void>;
+}) {
+  const { defaults, check, onRoutes, snapshots, canSubmit } = props;
+
+  const [text, setText] = useState("");
+  const [submitted, setSubmitted] = useState<PayoutItem[] | undefined>(undefined); // rows of the last submission
+  const [quote, setQuote] = useState<{ key: string; quote?: FeeQuote; error?: string } | undefined>(undefined);
+  const [busy, setBusy] = useState<"estimating" | "submitting" | undefined>(undefined);
+  const [log, setLog] = useState("");
+
+  const parsed = useMemo(() => parsePayoutCsv(text), [text]);
+  const items = useMemo(
+    () => capBatch(payoutItems(parsed.rows, defaults, check)),
+    [parsed, defaults, check]
+  );
+  // the source balances `check` needs depend on the rows' routes, not on their amounts
+  const routes = JSON.stringify([
+    ...new Set(items.flatMap((it) => (it.request ? [JSON.stringify([it.request.from, it.request.to, it.request.asset])] : []))),
+  ]);
+  useEffect(() => {
+    const list = (JSON.parse(routes) as string[]).map((r) => JSON.parse(r) as [ChainKey, ChainKey, AssetKey]);
+    onRoutes(list.map(([from, to, asset]) => ({ from, to, asset })));
+  }, [routes, onRoutes]);
+
+  const groups = groupBySource(items);
+  const totals = payoutTotals(items);
+  const shortfalls = totals.flatMap((t) => {
+    const have = available(snapshots, t);
+    return have !== undefined && compareAmounts(t.amount, have) > 0
+      ? [`${formatAmount(t.amount)} ${assetSymbol(t.asset)} to send from ${t.from}, ${formatAmount(have)} available.`]
+      : [];
+  });
+
+  // one batch per submission: the first source group
+  const batch = groups[0]?.items ?? [];
+  const key = JSON.stringify(batch.map((it) => it.request));
+  const batchQuote = quote?.key === key ? quote : undefined;
+
+  const shown = submitted ?? items;
+  const ready = batch.length > 0 && shortfalls.length === 0 && !busy;
+
+  async function onFile(file: File | undefined) {
+    if (!file) return;
+    setText(await file.text());
+    setSubmitted(undefined);
+    setLog("");
+  }
+
+  async function estimate() {
+    setBusy("estimating");
+    try {
+      setQuote({ key, quote: await props.onEstimate(batch) });
+    } catch (e) {
+      setQuote({ key, error: e instanceof Error ? e.message : String(e) });
+    } finally {
+      setBusy(undefined);
+    }
+  }
+
+  async function submit() {
+    const rows = batch.map((it) => ({ ...it }));
+    const update = (i: number, patch: Partial<PayoutItem>) => {
+      rows[i] = { ...rows[i], ...patch };
+      // the whole file stays visible: rows left out keep their status
+      setSubmitted(items.map((it) => rows.find((r) => r.row.line === it.row.line) ?? it));
+    };
+    setLog("");
+    setSubmitted(items);
+    setBusy("submitting");
+    try {
+      await props.onSubmit(batch, batchQuote?.quote, update, (line) => setLog((s) => s + line + "\n"));
+    } catch (e) {
+      setLog((s) => s + `❌ Error: ${e instanceof Error ? e.message : String(e)}\n`);
+    } finally {
+      setBusy(undefined);
+    }
+  }
+
+  return (
+    <details
+      style={{
+        border: "1px solid #e5e5e5",
+        borderRadius: 12,
+        padding: 16,
+        background: "#fff",
+        marginTop: 20,
+      }}
+    >
+      <summary style={{ cursor: "pointer", fontWeight: 600 }}>Batch payouts (CSV)</summary>
+
+      <div style={{ marginTop: 10, fontSize: 13, opacity: 0.75 }}>
+        One row per payout: <code>recipient,amount,asset</code>, optionally <code>to</code> and <code>from</code>{" "}
+        (default {defaults.from} → {defaults.to}). Each row is checked like a single transfer; the valid rows of one
+        source chain go out in a single <code>utility.batchAll</code> (all or nothing, at most {MAX_BATCH_ROWS} rows).
+      </div>
+
+      <div style={{ display: "flex", gap: 8, marginTop: 12, alignItems: "center" }}>
+        <input type="file" accept=".csv,text/csv" onChange={(e) => onFile(e.target.files?.[0])} />
+        {shown.some((it) => it.status === "invalid" || it.status === "failed") && (
+          <button
+            style={smallBtn}
+            onClick={() => download(`crosspay-payouts-retry-${new Date().toISOString().slice(0, 10)}.csv`, "text/csv", failedPayoutsCsv(shown))}
+          >
+            Export failed rows
+          </button>
+        )}
+      </div>
+      <textarea
+        value={text}
+        onChange={(e) => {
+          setText(e.target.value);
+          setSubmitted(undefined);
+        }}
+        placeholder={"recipient,amount,asset\n14E5nqKAp3oAJcmzgZhUD2RcptBeUBScxKHgJKU4HPNcKVf3,120,USDC"}
+        rows={5}
+        spellCheck={false}
+        style={{ width: "100%", marginTop: 8, padding: 8, borderRadius: 8, border: "1px solid #ddd", fontFamily: "monospace", fontSize: 12 }}
+      />
+
+      {parsed.errors.map((e) => (
+        <div key={e} style={{ fontSize: 12, color: "#b00020" }}>
+          {e}
+        </div>
+      ))}
+
+      {shown.length > 0 && (
+        <table style={{ width: "100%", borderCollapse: "collapse", fontSize: 12, marginTop: 10 }}>
+          <thead>
+            <tr style={{ textAlign: "left", opacity: 0.7 }}>
+              <th style={cell}>Line</th>
+              <th style={cell}>Recipient</th>
+              <th style={cell}>Amount</th>
+              <th style={cell}>Route</th>
+              <th style={cell}>Status</th>
+            </tr>
+          </thead>
+          <tbody>
+            {shown.map((it) => (
+              <tr key={it.row.line}>
+                <td style={cell}>{it.row.line}</td>
+                <td style={{ ...cell, fontFamily: "monospace", wordBreak: "break-all" }}>{it.row.recipient}</td>
+                <td style={cell}>
+                  {it.row.amount} {it.request ? assetSymbol(it.request.asset) : it.row.asset}
+                </td>
+                <td style={cell}>{it.request ? `${it.request.from} → ${it.request.to}` : "-"}</td>
+                <td style={{ ...cell, color: STATUS_COLORS[it.status] ?? "#666" }}>
+                  {it.status}
+                  {(it.errors.length > 0 || it.reason) && <div>{it.errors.join(" ") || it.reason}</div>}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {totals.length > 0 && (
+        <div style={{ marginTop: 10, fontSize: 13 }}>
+          Totals:{" "}
+          {totals.map((t) => `${formatAmount(t.amount)} ${assetSymbol(t.asset)} from ${t.from} (${t.rows} rows)`).join(" · ")}
+          {groups.length > 1 && (
+            <div style={{ opacity: 0.75 }}>
+              {groups.length} source chains: this batch sends the {groups[0].from} rows; submit again for the others.
+            </div>
+          )}
+        </div>
+      )}
+      {shortfalls.map((s) => (
+        <div key={s} style={{ fontSize: 12, color: "#b00020" }}>
+          Not enough funds: {s}
+        </div>
+      ))}
+
+      {batch.length > 0 && (
+        <div style={{ marginTop: 10, fontSize: 13 }}>
+          {batchQuote?.quote ? (
+            <div>
+              Combined network fee ≈ {batchQuote.quote.networkFeeDotEst} DOT for {batch.length} transfers
+              {batchQuote.quote.legs
+                ?.filter((l) => l.asset !== "DOT" && l.amount !== undefined && l.inTotal)
+                .map((l) => ` · ${l.amount} ${l.asset} (${l.kind.replace(/_/g, " ")} on ${l.chain})`)
+                .join("")}
+            </div>
+          ) : batchQuote?.error ? (
+            <div style={{ color: "#b00020" }}>Fee estimation failed: {batchQuote.error}</div>
+          ) : null}
+          <div style={{ display: "flex", gap: 8, marginTop: 8 }}>
+            <button style={smallBtn} disabled={!ready || !canSubmit} onClick={estimate}>
+              {busy === "estimating" ? "Estimating…" : "Estimate batch fees"}
+            </button>
+            <button style={smallBtn} disabled={!ready || !canSubmit} onClick={submit}>
+              {busy === "submitting" ? "Submitting…" : `Sign & submit ${batch.length} payouts from ${groups[0].from}`}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {log && <pre style={{ marginTop: 10, fontSize: 12, whiteSpace: "pre-wrap" }}>{log}</pre>}
+    </details>
+  );
+}
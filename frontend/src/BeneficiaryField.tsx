@@ -0,0 +1,141 @@
+import { useState } from "react";
+
+import { chainInfo } from "../../chains";
+import { validateLabel } from "../../xcm-engine/addressBook";
+import type { AddressBookEntry } from "../../xcm-engine/addressBook";
+import { formatAmount } from "../../xcm-engine/amount";
+import type { ChainKey } from "../../xcm-engine/types";
+
+import type { BeneficiaryCheck } from "./engine/addressBook";
+import type { ChainBalanceSnapshot } from "./engine/balances";
+
+const smallBtn = {
+  padding: "6px 10px",
+  borderRadius: 8,
+  border: "1px solid #ddd",
+  background: "#fff",
+  cursor: "pointer",
+  fontSize: 13,
+} as const;
+
+export function BeneficiaryField(props: {
+  value: string; // "" = the sender
+  onChange: (address: string) => void;
+  to: ChainKey;
+  check: BeneficiaryCheck;
+  balance?: ChainBalanceSnapshot; // EVM beneficiary: its HydraDX balances
+  book: AddressBookEntry[];
+  onSaveEntry: (label: string) => void;
+  locked?: boolean; // set by a payment request
+}) {
+  const { value, onChange, to, check, balance, book, onSaveEntry, locked } = props;
+
+  const [label, setLabel] = useState("");
+  const [labelError, setLabelError] = useState<string | undefined>(undefined);
+
+  const chain = chainInfo(to);
+  const canSave = !check.error && !check.self && !check.entry && !!check.publicKey;
+
+  function save() {
+    const err = validateLabel(book, label, check.entry?.publicKey ?? "");
+    setLabelError(err);
+    if (err) return;
+    onSaveEntry(label.trim());
+    setLabel("");
+  }
+
+  return (
+    <label>
+      <div style={{ fontSize: 13, opacity: 0.7, marginBottom: 6 }}>Beneficiary</div>
+
+      <div style={{ display: "flex", gap: 8 }}>
+        <input
+          value={value}
+          onChange={(e) => onChange(e.target.value.trim())}
+          readOnly={locked}
+          placeholder="Your own account (or paste any SS58 / 0x EVM address)"
+          spellCheck={false}
+          style={{ flex: 1, padding: 10, borderRadius: 8, border: "1px solid #ddd", fontFamily: "monospace", fontSize: 13 }}
+        />
+        <select
+          value=""
+          onChange={(e) => onChange(e.target.value)}
+          disabled={locked || book.length === 0}
+          style={{ padding: 10, borderRadius: 8, maxWidth: 200 }}
+        >
+          <option value="">{book.length ? "Address book…" : "Address book empty"}</option>
+          {book.map((e) => (
+            <option key={e.publicKey} value={e.address}>
+              {e.label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {check.error ? (
+        <div style={{ marginTop: 6, fontSize: 12, color: "#b00020" }}>{check.error}</div>
+      ) : check.evm ? (
+        <div style={{ marginTop: 6, fontSize: 12, opacity: 0.75 }}>
+          {check.entry ? `"${check.entry.label}": ` : ""}EVM account{" "}
+          <span style={{ fontFamily: "monospace" }}>{check.encoded}</span> on {chain.name}.{" "}
+          {check.evm === "MappedAccountId32"
+            ? "Sent as its EVM-mapped AccountId32 "
+            : "Sent as an AccountKey20 junction; the runtime credits its EVM-mapped account "}
+          <span style={{ fontFamily: "monospace" }}>{check.creditAccount}</span>: the balance shows up at the 0x
+          address in EVM wallets.
+          {balance && (
+            <div style={{ marginTop: 4 }}>
+              {balance.ok
+                ? `Holds ${Object.entries(balance.tokens ?? {})
+                    .map(([k, v]) => `${k} ${formatAmount(v, 6)}`)
+                    .join(" · ")} · ${balance.nativeSymbol} ${balance.nativeFree ? formatAmount(balance.nativeFree, 6) : "-"}`
+                : `Balance unavailable: ${balance.error ?? "unknown error"}`}
+            </div>
+          )}
+        </div>
+      ) : (
+        <div style={{ marginTop: 6, fontSize: 12, opacity: 0.75 }}>
+          {check.self ? "Your own account" : check.entry ? `"${check.entry.label}"` : "Receives as"} on {chain.name}:{" "}
+          <span style={{ fontFamily: "monospace" }}>{check.encoded}</span> (SS58 prefix {chain.ss58Prefix})
+        </div>
+      )}
+
+      {check.warnings.length > 0 && (
+        <div
+          style={{
+            marginTop: 6,
+            border: "1px solid #ffe2a8",
+            background: "#fff8e6",
+            padding: 10,
+            borderRadius: 10,
+            fontSize: 13,
+          }}
+        >
+          {check.warnings.map((w, i) => (
+            <div key={i}>
+              <b>Check recipient:</b> {w}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {canSave && (
+        <div style={{ display: "flex", gap: 8, marginTop: 6 }}>
+          <input
+            value={label}
+            onChange={(e) => setLabel(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") save();
+            }}
+            placeholder="Label (e.g. Alice — payroll)"
+            style={{ flex: 1, padding: 8, borderRadius: 8, border: "1px solid #ddd", fontSize: 13 }}
+          />
+          <button type="button" style={smallBtn} onClick={save}>
+            Save to address book
+          </button>
+        </div>
+      )}
+      {labelError && <div style={{ marginTop: 4, fontSize: 12, color: "#b00020" }}>{labelError}</div>}
+    </label>
+  );
+}
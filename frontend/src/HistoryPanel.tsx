@@ -0,0 +1,218 @@
+import { Fragment, useMemo, useState } from "react";
+
+import { filterHistory, historyToCsv, historyToJson } from "../../xcm-engine/history";
+import type { HistoryFilter, TransferRecord } from "../../xcm-engine/history";
+
+const STATUS_OPTIONS: Array<{ key: NonNullable<HistoryFilter["status"]>; label: string }> = [
+  { key: "pending", label: "Pending" },
+  { key: "finalized", label: "Finalized" },
+  { key: "failed", label: "Failed" },
+  { key: "delivered", label: "Delivered" },
+  { key: "timed_out", label: "Delivery timed out" },
+];
+
+const CHAIN_OPTIONS = ["assethub", "hydradx", "relay", "people"] as const;
+
+function download(name: string, type: string, body: string) {
+  const url = URL.createObjectURL(new Blob([body], { type }));
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = name;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+function statusText(r: TransferRecord): string {
+  const b = r.batch;
+  const text = baseStatusText(r);
+  return b ? `${text} · batch row ${b.index + 1}/${b.size}` : text;
+}
+
+function baseStatusText(r: TransferRecord): string {
+  if (r.status !== "finalized") return r.status;
+  const ms = r.multisig;
+  if (ms && ms.approvals < ms.threshold) return `multisig ${ms.approvals}/${ms.threshold} · awaiting co-signers`;
+  return r.delivery ? `finalized · ${r.delivery}` : "finalized";
+}
+
+function statusColor(r: TransferRecord): string {
+  if (r.status === "failed" || r.delivery === "failed") return "#b00020";
+  if (r.delivery === "delivered") return "#0a7d2c";
+  return "#666";
+}
+
+const cell = { padding: "8px 6px", borderBottom: "1px solid #f4f4f4", verticalAlign: "top" } as const;
+const head = { padding: "8px 6px", borderBottom: "1px solid #eee" } as const;
+
+export function HistoryPanel(props: {
+  records: TransferRecord[];
+  error?: string;
+}) {
+  const { records, error } = props;
+
+  const [filter, setFilter] = useState<HistoryFilter>({});
+  const [openId, setOpenId] = useState<string | undefined>(undefined);
+
+  const shown = useMemo(() => filterHistory(records, filter), [records, filter]);
+  const assets = useMemo(() => [...new Set(records.map((r) => r.request.asset))], [records]);
+
+  const stamp = new Date().toISOString().slice(0, 10);
+
+  return (
+    <div
+      style={{
+        border: "1px solid #e5e5e5",
+        borderRadius: 12,
+        padding: 16,
+        background: "#fff",
+        marginTop: 20,
+      }}
+    >
+      <div style={{ display: "flex", alignItems: "center", gap: 10 }}>
+        <h2 style={{ margin: 0 }}>History</h2>
+        <span style={{ fontSize: 12, opacity: 0.7 }}>Stored in this browser only</span>
+
+        <div style={{ marginLeft: "auto", display: "flex", gap: 8 }}>
+          {(["csv", "json"] as const).map((fmt) => (
+            <button
+              key={fmt}
+              disabled={shown.length === 0}
+              onClick={() =>
+                fmt === "csv"
+                  ? download(`crosspay-history-${stamp}.csv`, "text/csv", historyToCsv(shown))
+                  : download(`crosspay-history-${stamp}.json`, "application/json", historyToJson(shown))
+              }
+              style={{
+                padding: "8px 10px",
+                borderRadius: 8,
+                border: "1px solid #ddd",
+                background: "#fff",
+                cursor: shown.length ? "pointer" : "not-allowed",
+                fontSize: 13,
+              }}
+            >
+              Export {fmt.toUpperCase()}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {error && <div style={{ marginTop: 10, fontSize: 13, color: "#b00020" }}>History unavailable: {error}</div>}
+
+      {/* Filters */}
+      <div style={{ display: "grid", gridTemplateColumns: "repeat(5, 1fr)", gap: 8, marginTop: 12, fontSize: 13 }}>
+        <select
+          value={filter.from ?? ""}
+          onChange={(e) => setFilter({ ...filter, from: e.target.value || undefined })}
+          style={{ padding: 8, borderRadius: 8 }}
+        >
+          <option value="">Any source</option>
+          {CHAIN_OPTIONS.map((c) => (
+            <option key={c} value={c}>
+              {c}
+            </option>
+          ))}
+        </select>
+        <select
+          value={filter.to ?? ""}
+          onChange={(e) => setFilter({ ...filter, to: e.target.value || undefined })}
+          style={{ padding: 8, borderRadius: 8 }}
+        >
+          <option value="">Any destination</option>
+          {CHAIN_OPTIONS.map((c) => (
+            <option key={c} value={c}>
+              {c}
+            </option>
+          ))}
+        </select>
+        <select
+          value={filter.asset ?? ""}
+          onChange={(e) => setFilter({ ...filter, asset: e.target.value || undefined })}
+          style={{ padding: 8, borderRadius: 8 }}
+        >
+          <option value="">Any asset</option>
+          {assets.map((a) => (
+            <option key={a} value={a}>
+              {a}
+            </option>
+          ))}
+        </select>
+        <select
+          value={filter.status ?? ""}
+          onChange={(e) =>
+            setFilter({ ...filter, status: (e.target.value || undefined) as HistoryFilter["status"] })
+          }
+          style={{ padding: 8, borderRadius: 8 }}
+        >
+          <option value="">Any status</option>
+          {STATUS_OPTIONS.map((s) => (
+            <option key={s.key} value={s.key}>
+              {s.label}
+            </option>
+          ))}
+        </select>
+        <input
+          value={filter.text ?? ""}
+          onChange={(e) => setFilter({ ...filter, text: e.target.value })}
+          placeholder="Hash / beneficiary / reference / error"
+          style={{ padding: 8, borderRadius: 8, border: "1px solid #ddd" }}
+        />
+      </div>
+
+      <div style={{ marginTop: 10, overflowX: "auto" }}>
+        <table style={{ width: "100%", borderCollapse: "collapse", fontSize: 13 }}>
+          <thead>
+            <tr style={{ textAlign: "left" }}>
+              <th style={head}>Date</th>
+              <th style={head}>Route</th>
+              <th style={head}>Amount</th>
+              <th style={head}>Fees (DOT)</th>
+              <th style={head}>Status</th>
+              <th style={head}>Block</th>
+            </tr>
+          </thead>
+          <tbody>
+            {shown.length === 0 && (
+              <tr>
+                <td colSpan={6} style={{ ...cell, opacity: 0.6 }}>
+                  {records.length ? "No transfer matches the filters." : "No transfers yet."}
+                </td>
+              </tr>
+            )}
+            {shown.map((r) => (
+              <Fragment key={r.id}>
+                <tr
+                  onClick={() => setOpenId(openId === r.id ? undefined : r.id)}
+                  style={{ cursor: "pointer" }}
+                >
+                  <td style={cell}>{new Date(r.createdAt).toLocaleString()}</td>
+                  <td style={cell}>
+                    {r.request.from} → {r.request.to}
+                  </td>
+                  <td style={cell}>
+                    {r.request.amount} {r.request.asset}
+                    {r.reference && <div style={{ fontSize: 12, opacity: 0.7 }}>Ref: {r.reference}</div>}
+                  </td>
+                  <td style={cell}>{r.fees.totalFeeDot}</td>
+                  <td style={{ ...cell, color: statusColor(r) }}>{statusText(r)}</td>
+                  <td style={{ ...cell, fontFamily: "monospace" }}>
+                    {r.blockHash ? `${r.blockHash.slice(0, 10)}…` : "—"}
+                  </td>
+                </tr>
+                {openId === r.id && (
+                  <tr>
+                    <td colSpan={6} style={cell}>
+                      <pre style={{ margin: 0, whiteSpace: "pre-wrap", fontSize: 12 }}>
+                        {historyToJson([r])}
+                      </pre>
+                    </td>
+                  </tr>
+                )}
+              </Fragment>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,221 @@
+import { useState } from "react";
+
+import type { OriginSetting, PendingMultisig } from "../../xcm-engine/origin";
+
+const smallBtn = {
+  padding: "4px 8px",
+  borderRadius: 6,
+  border: "1px solid #ddd",
+  background: "#fff",
+  cursor: "pointer",
+  fontSize: 12,
+} as const;
+
+const input = { padding: 8, borderRadius: 8, border: "1px solid #ddd", fontSize: 13 } as const;
+
+type Mode = "direct" | "proxy" | "multisig" | "multisig_proxy";
+
+const MODE_LABELS: Record<Mode, string> = {
+  direct: "My account",
+  proxy: "Proxy of a real account",
+  multisig: "Multisig",
+  multisig_proxy: "Multisig, as proxy of a real account",
+};
+
+function modeOf(o: OriginSetting): Mode {
+  if (o.multisig) return o.proxy ? "multisig_proxy" : "multisig";
+  return o.proxy ? "proxy" : "direct";
+}
+
+function short(address: string): string {
+  return address.length > 16 ? `${address.slice(0, 8)}…${address.slice(-6)}` : address;
+}
+
+export type PendingState = {
+  ops?: PendingMultisig[];
+  error?: string;
+  loading: boolean;
+};
+
+export function OriginPanel(props: {
+  origin: OriginSetting;
+  onChange: (next: OriginSetting) => void;
+  originAddress?: string;  // account the transfer is dispatched from
+  multisigAccount?: string;
+  errors: string[];
+  pending: PendingState;
+  currentCallHash?: string; // multisig call hash of the last built transfer
+  approving?: string;       // call hash being approved
+  onRefreshPending: () => void;
+  onApprove: (op: PendingMultisig, callData?: string) => void;
+}) {
+  const { origin, onChange, originAddress, multisigAccount, errors, pending, currentCallHash, approving } = props;
+  const mode = modeOf(origin);
+
+  // signatories as typed (one per line), parsed on every change
+  const [signatoriesText, setSignatoriesText] = useState(() => origin.multisig?.otherSignatories.join("\n") ?? "");
+  const [callData, setCallData] = useState<Record<string, string>>({});
+
+  function setMode(next: Mode) {
+    const proxy = next === "proxy" || next === "multisig_proxy" ? (origin.proxy ?? { real: "" }) : undefined;
+    const multisig =
+      next === "multisig" || next === "multisig_proxy"
+        ? (origin.multisig ?? { threshold: 2, otherSignatories: [] })
+        : undefined;
+    onChange({ proxy, multisig });
+  }
+
+  function setSignatories(text: string) {
+    setSignatoriesText(text);
+    if (!origin.multisig) return;
+    const otherSignatories = text
+      .split(/[\s,]+/)
+      .map((s) => s.trim())
+      .filter(Boolean);
+    onChange({ ...origin, multisig: { ...origin.multisig, otherSignatories } });
+  }
+
+  return (
+    <details
+      open={mode !== "direct"}
+      style={{
+        border: "1px solid #e5e5e5",
+        borderRadius: 12,
+        padding: 16,
+        background: "#fff",
+        marginTop: 20,
+      }}
+    >
+      <summary style={{ cursor: "pointer", fontWeight: 600 }}>Submit as: {MODE_LABELS[mode]}</summary>
+
+      <div style={{ marginTop: 10, fontSize: 13, opacity: 0.75 }}>
+        Team treasuries: the transfer is wrapped in <code>proxy.proxy</code> and/or a multisig approval. Your account
+        signs and pays the wrapper fees; the funds, the ED guards and the dry run are those of the account the
+        transfer is dispatched from. Saved in this browser.
+      </div>
+
+      <div style={{ display: "grid", gap: 10, marginTop: 12 }}>
+        <select value={mode} onChange={(e) => setMode(e.target.value as Mode)} style={{ ...input, maxWidth: 320 }}>
+          {(Object.keys(MODE_LABELS) as Mode[]).map((m) => (
+            <option key={m} value={m}>
+              {MODE_LABELS[m]}
+            </option>
+          ))}
+        </select>
+
+        {origin.multisig && (
+          <>
+            <label style={{ fontSize: 13 }}>
+              Threshold{" "}
+              <input
+                type="number"
+                min={2}
+                value={origin.multisig.threshold}
+                onChange={(e) =>
+                  origin.multisig && onChange({ ...origin, multisig: { ...origin.multisig, threshold: Number(e.target.value) } })
+                }
+                style={{ ...input, width: 70 }}
+              />{" "}
+              of {origin.multisig.otherSignatories.length + 1} signatories
+            </label>
+            <textarea
+              value={signatoriesText}
+              onChange={(e) => setSignatories(e.target.value)}
+              placeholder="Other signatories, one address per line (not your own)"
+              rows={3}
+              spellCheck={false}
+              style={{ ...input, fontFamily: "monospace" }}
+            />
+            {multisigAccount && (
+              <div style={{ fontSize: 12, opacity: 0.75 }}>
+                Multisig account: <span style={{ fontFamily: "monospace" }}>{multisigAccount}</span>
+              </div>
+            )}
+          </>
+        )}
+
+        {origin.proxy && (
+          <div style={{ display: "flex", gap: 8 }}>
+            <input
+              value={origin.proxy.real}
+              onChange={(e) => origin.proxy && onChange({ ...origin, proxy: { ...origin.proxy, real: e.target.value.trim() } })}
+              placeholder="Real account (holds the funds)"
+              spellCheck={false}
+              style={{ ...input, flex: 1, fontFamily: "monospace" }}
+            />
+            <select
+              value={origin.proxy.proxyType ?? ""}
+              onChange={(e) =>
+                origin.proxy && onChange({ ...origin, proxy: { ...origin.proxy, proxyType: e.target.value || undefined } })
+              }
+              style={input}
+            >
+              <option value="">Any proxy type it has</option>
+              <option value="Any">Any</option>
+            </select>
+          </div>
+        )}
+
+        {mode !== "direct" && originAddress && errors.length === 0 && (
+          <div style={{ fontSize: 12, opacity: 0.75 }}>
+            Dispatched from <span style={{ fontFamily: "monospace" }}>{originAddress}</span>
+            {origin.proxy ? " (the proxy type is checked on chain when building)" : ""}
+          </div>
+        )}
+        {errors.map((e) => (
+          <div key={e} style={{ fontSize: 12, color: "#b00020" }}>
+            {e}
+          </div>
+        ))}
+      </div>
+
+      {origin.multisig && multisigAccount && (
+        <div style={{ marginTop: 16 }}>
+          <div style={{ display: "flex", alignItems: "center", gap: 8 }}>
+            <b style={{ fontSize: 14 }}>Pending multisig operations</b>
+            <button style={smallBtn} onClick={props.onRefreshPending} disabled={pending.loading}>
+              {pending.loading ? "Loading…" : "Refresh"}
+            </button>
+          </div>
+          {pending.error && <div style={{ fontSize: 12, color: "#b00020", marginTop: 6 }}>{pending.error}</div>}
+          {pending.ops?.length === 0 && <div style={{ fontSize: 13, opacity: 0.6, marginTop: 6 }}>None on the source chain.</div>}
+
+          {pending.ops?.map((op) => {
+            const last = op.approvals.length + 1 >= (origin.multisig?.threshold ?? 0);
+            const mine = op.callHash === currentCallHash;
+            return (
+              <div key={op.callHash} style={{ padding: "6px 0", borderTop: "1px solid #f0f0f0", marginTop: 6, fontSize: 13 }}>
+                <div style={{ fontFamily: "monospace", fontSize: 12 }}>
+                  {op.callHash}
+                  {mine && <span style={{ marginLeft: 6, fontFamily: "inherit", color: "#0a7d2c" }}>(this transfer)</span>}
+                </div>
+                <div style={{ fontSize: 12, opacity: 0.75 }}>
+                  {op.approvals.length}/{origin.multisig?.threshold} approvals ({op.approvals.map(short).join(", ")}) ·
+                  opened at #{op.when.height}-{op.when.index} by {short(op.depositor)}
+                </div>
+                <div style={{ display: "flex", gap: 8, marginTop: 4 }}>
+                  {last && !mine && (
+                    <input
+                      value={callData[op.callHash] ?? ""}
+                      onChange={(e) => setCallData({ ...callData, [op.callHash]: e.target.value.trim() })}
+                      placeholder="Call data (0x…) shared by the initiator"
+                      spellCheck={false}
+                      style={{ ...input, flex: 1, fontFamily: "monospace", padding: 6 }}
+                    />
+                  )}
+                  <button
+                    style={smallBtn}
+                    disabled={!!approving || (last && !mine && !callData[op.callHash])}
+                    onClick={() => props.onApprove(op, callData[op.callHash])}
+                  >
+                    {approving === op.callHash ? "Submitting…" : last ? "Approve & execute" : "Approve"}
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </details>
+  );
+}
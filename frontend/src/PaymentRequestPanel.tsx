@@ -0,0 +1,236 @@
+import { useState } from "react";
+
+import { CHAINS } from "../../chains";
+import { assetSymbol, assetsTo } from "../../xcm-engine/capabilities";
+import { paymentRequestQuery, paymentRequestUrl } from "../../xcm-engine/paymentRequest";
+import type { PaymentRequest } from "../../xcm-engine/paymentRequest";
+import { MAX_REFERENCE_LENGTH } from "../../xcm-engine/topic";
+import type { AssetKey, ChainKey } from "../../xcm-engine/types";
+
+import { paymentRequestQr, readPaymentRequest } from "./engine/paymentRequest";
+import type { IncomingPaymentRequest } from "./engine/paymentRequest";
+
+const smallBtn = {
+  padding: "6px 10px",
+  borderRadius: 8,
+  border: "1px solid #ddd",
+  background: "#fff",
+  cursor: "pointer",
+  fontSize: 13,
+} as const;
+
+const input = { padding: 8, borderRadius: 8, border: "1px solid #ddd", fontSize: 13 } as const;
+
+// -------- Incoming request (opened link) --------
+
+export function PaymentRequestBanner(props: { incoming: IncomingPaymentRequest; onDismiss: () => void }) {
+  const { request, errors, signature } = props.incoming;
+  const rejected = !request;
+
+  return (
+    <div
+      style={{
+        marginTop: 20,
+        border: `1px solid ${rejected ? "#f0c9c9" : "#cfe6ff"}`,
+        background: rejected ? "#fff6f6" : "#eef6ff",
+        padding: 12,
+        borderRadius: 10,
+        fontSize: 13,
+      }}
+    >
+      {request ? (
+        <>
+          <b>Payment request:</b> {request.amount} {assetSymbol(request.asset)} to{" "}
+          <span style={{ fontFamily: "monospace" }}>{request.beneficiary}</span> on {request.to}
+          {request.reference && (
+            <div style={{ marginTop: 4 }}>
+              Reference: <b>{request.reference}</b>
+            </div>
+          )}
+          <div style={{ marginTop: 4 }}>
+            {signature === "valid"
+              ? "✅ Signed by the beneficiary: the details are the ones the payee set."
+              : "⚠️ Unsigned link: anyone could have edited it, check the details with the payee."}
+          </div>
+          <div style={{ marginTop: 4, opacity: 0.75 }}>The form fields are locked to the request; pick the source chain.</div>
+        </>
+      ) : (
+        <>
+          <b>Payment request rejected</b>
+          <ul style={{ margin: "6px 0" }}>
+            {errors.map((e) => (
+              <li key={e}>{e}</li>
+            ))}
+          </ul>
+        </>
+      )}
+      <button style={{ ...smallBtn, marginTop: 8 }} onClick={props.onDismiss}>
+        {rejected ? "Dismiss" : "Dismiss and edit freely"}
+      </button>
+    </div>
+  );
+}
+
+// -------- Creating a request --------
+
+export function PaymentRequestPanel(props: {
+  account: string; // selected account: default beneficiary, and the signer
+  onSign: (pr: PaymentRequest) => Promise<PaymentRequest>;
+}) {
+  const { account } = props;
+
+  const [to, setTo] = useState<ChainKey>("hydradx");
+  const [asset, setAsset] = useState<AssetKey>("USDC_AH");
+  const [amount, setAmount] = useState("");
+  const [beneficiary, setBeneficiary] = useState("");
+  const [reference, setReference] = useState("");
+  const [sign, setSign] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [result, setResult] = useState<{ url?: string; qr?: string; errors: string[]; signed?: boolean } | undefined>(
+    undefined
+  );
+
+  const assets = assetsTo(to);
+
+  function onTo(next: ChainKey) {
+    setTo(next);
+    const offered = assetsTo(next);
+    if (!offered.some((a) => a.key === asset)) setAsset(offered[0]?.key ?? asset);
+    setResult(undefined);
+  }
+
+  async function create() {
+    setBusy(true);
+    try {
+      let pr: PaymentRequest = {
+        to,
+        asset,
+        amount: amount.trim(),
+        beneficiary: beneficiary.trim() || account,
+        reference: reference.trim() || undefined,
+      };
+      if (sign) pr = await props.onSign(pr);
+
+      // the payer's checks, run on the link itself
+      const checked = await readPaymentRequest(`?${paymentRequestQuery(pr)}`);
+      if (!checked.request) {
+        setResult({ errors: checked.errors });
+        return;
+      }
+      const url = paymentRequestUrl(window.location.href, pr);
+      setResult({ url, qr: await paymentRequestQr(url), errors: [], signed: checked.signature === "valid" });
+    } catch (e) {
+      setResult({ errors: [e instanceof Error ? e.message : String(e)] });
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <details
+      style={{
+        border: "1px solid #e5e5e5",
+        borderRadius: 12,
+        padding: 16,
+        background: "#fff",
+        marginTop: 20,
+      }}
+    >
+      <summary style={{ cursor: "pointer", fontWeight: 600 }}>Request a payment</summary>
+
+      <div style={{ marginTop: 10, fontSize: 13, opacity: 0.75 }}>
+        A link (and its QR code) that opens CrossPay with the transfer prefilled and locked. Signing it with the
+        beneficiary account lets the payer check nobody edited it.
+      </div>
+
+      <div style={{ display: "grid", gap: 10, marginTop: 12 }}>
+        <div style={{ display: "flex", gap: 8 }}>
+          <select value={to} onChange={(e) => onTo(e.target.value as ChainKey)} style={input}>
+            {CHAINS.filter((c) => assetsTo(c.key).length > 0).map((c) => (
+              <option key={c.key} value={c.key}>
+                To {c.name}
+              </option>
+            ))}
+          </select>
+          <select
+            value={asset}
+            onChange={(e) => {
+              setAsset(e.target.value as AssetKey);
+              setResult(undefined);
+            }}
+            style={input}
+          >
+            {assets.map((a) => (
+              <option key={a.key} value={a.key}>
+                {a.label}
+              </option>
+            ))}
+          </select>
+          <input
+            value={amount}
+            onChange={(e) => {
+              setAmount(e.target.value);
+              setResult(undefined);
+            }}
+            placeholder="Amount"
+            inputMode="decimal"
+            style={{ ...input, width: 110 }}
+          />
+        </div>
+        <input
+          value={beneficiary}
+          onChange={(e) => {
+            setBeneficiary(e.target.value.trim());
+            setResult(undefined);
+          }}
+          placeholder={account ? `Beneficiary (default: your account ${account.slice(0, 8)}…)` : "Beneficiary address"}
+          spellCheck={false}
+          style={{ ...input, fontFamily: "monospace" }}
+        />
+        <input
+          value={reference}
+          onChange={(e) => {
+            setReference(e.target.value);
+            setResult(undefined);
+          }}
+          maxLength={MAX_REFERENCE_LENGTH}
+          placeholder="Reference (optional, e.g. invoice 2026-014)"
+          style={input}
+        />
+        <label style={{ fontSize: 13, display: "flex", gap: 8, alignItems: "center" }}>
+          <input type="checkbox" checked={sign} disabled={!account} onChange={(e) => setSign(e.target.checked)} />
+          Sign with my account (it must be the beneficiary)
+        </label>
+        <div>
+          <button style={smallBtn} disabled={busy || !amount.trim() || (!beneficiary && !account)} onClick={create}>
+            {busy ? "Creating…" : "Create link"}
+          </button>
+        </div>
+      </div>
+
+      {result?.errors.map((e) => (
+        <div key={e} style={{ marginTop: 6, fontSize: 12, color: "#b00020" }}>
+          {e}
+        </div>
+      ))}
+
+      {result?.url && (
+        <div style={{ display: "flex", gap: 16, marginTop: 12, alignItems: "flex-start" }}>
+          {result.qr && <img src={result.qr} alt="Payment request QR code" width={180} height={180} />}
+          <div style={{ flex: 1, fontSize: 13 }}>
+            <div style={{ fontFamily: "monospace", fontSize: 12, wordBreak: "break-all" }}>{result.url}</div>
+            <div style={{ marginTop: 6, opacity: 0.75 }}>
+              {result.signed ? "Signed by the beneficiary." : "Unsigned: the payer is told to double-check it."}
+            </div>
+            <button
+              style={{ ...smallBtn, marginTop: 8 }}
+              onClick={() => result.url && navigator.clipboard.writeText(result.url)}
+            >
+              Copy link
+            </button>
+          </div>
+        </div>
+      )}
+    </details>
+  );
+}
@@ -1,19 +1,69 @@
-import type { TransferRequest, FeeQuote } from "../../xcm-engine/types";
+import type { TransferRequest, FeeQuote, FeeLeg } from "../../xcm-engine/types";
 import type { XcmDryRun } from "../../xcm-engine/dryRun";
+import { formatProgram } from "../../xcm-engine/program";
+import { formatNegotiation } from "../../xcm-engine/version";
+import type { ExecuteProgram } from "../../xcm-engine/program";
 import { validateRequest } from "../../xcm-engine/validate";
-
-const CHAINS = [
-  { key: "assethub", name: "Polkadot Asset Hub" },
-  { key: "relay", name: "Polkadot Relay" },
-  { key: "people", name: "People" },
-  { key: "hydradx", name: "HydraDX" },
-] as const;
+import { assetsFrom, coerceRoute, destinationsFor } from "../../xcm-engine/capabilities";
+import type { Chain, FeeAssetChoice, HopTransfer, RouteHop, TransferType } from "../../xcm-engine/capabilities";
+import { MAX_REFERENCE_LENGTH } from "../../xcm-engine/topic";
+import type { TransferMethod } from "../../xcm-engine/transfer";
+import type { AddressBookEntry } from "../../xcm-engine/addressBook";
+import { CHAINS } from "../../chains";
+
+import { BeneficiaryField } from "./BeneficiaryField";
+import type { BeneficiaryCheck } from "./engine/addressBook";
+import type { ChainBalanceSnapshot } from "./engine/balances";
+
+const VERDICT_LABELS: Record<XcmDryRun["verdict"], string> = {
+  ok: "✅ Source call and destination XCM both execute: Submit (REAL) should succeed.",
+  fail: "❌ Dry run failed: Submit (REAL) would not deliver.",
+  unknown: "⚠️ Source call executes, but the destination could not be simulated.",
+};
+
+const TRANSFER_METHOD_LABELS: Record<TransferMethod, string> = {
+  typeAndThen: "transferAssetsUsingTypeAndThen (explicit transfer type)",
+  transferAssets: "transferAssets (runtime picks the transfer type)",
+  legacy: "limitedReserveTransferAssets (legacy fallback)",
+};
+
+const TRANSFER_TYPE_LABELS: Record<TransferType, string> = {
+  LocalReserve: "LocalReserve: the source chain holds the reserve",
+  DestinationReserve: "DestinationReserve: the destination holds the reserve",
+  RemoteReserve: "RemoteReserve: a third chain holds the reserve",
+};
+
+const FEE_LEG_LABELS: Record<FeeLeg["kind"], string> = {
+  source_extrinsic: "Source extrinsic",
+  local_execution: "Local XCM execution",
+  delivery: "Delivery",
+  intermediate_execution: "Intermediate execution",
+  destination_execution: "Destination execution",
+};
+
+const HOP_TRANSFER_LABELS: Record<HopTransfer, string> = {
+  teleport: "teleport",
+  reserve_deposit: "reserve deposit",
+  reserve_withdraw: "reserve withdraw",
+};
+
+function chainName(key: string): string {
+  return CHAINS.find((c) => c.key === key)?.name ?? key;
+}
 
 export function SendForm(props: {
   value: TransferRequest;
   onChange: (next: TransferRequest) => void;
 
+  beneficiaryCheck: BeneficiaryCheck;
+  beneficiaryBalance?: ChainBalanceSnapshot; // EVM beneficiary on HydraDX
+  addressBook: AddressBookEntry[];
+  onSaveBeneficiary: (label: string) => void;
+
   feeQuote: FeeQuote;
+  canEstimateFees: boolean;
+  feeEstimating: boolean;
+  onEstimateFees: () => void;
   safetyMsg: string;
 
   serviceFeeEnabled: boolean;
@@ -22,6 +72,8 @@ export function SendForm(props: {
   canPreview: boolean;
   onDryRun: () => void;
   dryRun?: XcmDryRun;
+  dryRunning?: boolean;
+  dryRunError?: string;
 
   canSubmitReal: boolean;
   onSubmitReal: () => void;
@@ -31,70 +83,99 @@ export function SendForm(props: {
   modeLabel: string;
 
   advancedDotEnabled: boolean;
+  onToggleAdvancedDot: (enabled: boolean) => void;
+
+  // reserve routes (undefined transferType: the route has a single call)
+  transferType?: TransferType;
+  transferMethod: TransferMethod;
+  onTransferMethod: (m: TransferMethod) => void;
+  feeAssetChoice: FeeAssetChoice;
+  onFeeAssetChoice: (c: FeeAssetChoice) => void;
+  dotFeeBudget?: string; // DOT sent along when it pays the fees; undefined: not offered
+  program?: ExecuteProgram; // XCM program of `execute` routes, for review
+  hops?: RouteHop[]; // multi-hop routes, in order
 
   relayNote?: string;
   peopleNote?: string;
 
   hideServiceFee?: boolean;
+
+  // payment request: every field but From (among these sources) is locked
+  lockedSources?: Chain[];
+
+  // payment reference, sent as the XCM topic (`topic`)
+  reference: string;
+  onReference: (reference: string) => void;
+  topic?: string;
+  referenceError?: string;
+
+  // "Max": largest amount keeping the source account alive once its fees are paid
+  canMax: boolean;
+  maxing: boolean;
+  maxNote?: string;
+  onMax: () => void;
 }) {
   const {
     value,
     onChange,
+    beneficiaryCheck,
+    beneficiaryBalance,
+    addressBook,
+    onSaveBeneficiary,
     feeQuote,
+    canEstimateFees,
+    feeEstimating,
+    onEstimateFees,
     safetyMsg,
     serviceFeeEnabled,
     onToggleServiceFee,
     canPreview,
     onDryRun,
     dryRun,
+    dryRunning,
+    dryRunError,
     canSubmitReal,
     onSubmitReal,
     submitHelp,
     warning,
     modeLabel,
-    advancedDotEnabled: _advancedDotEnabled,
+    advancedDotEnabled,
+    onToggleAdvancedDot,
+    transferType,
+    transferMethod,
+    onTransferMethod,
+    feeAssetChoice,
+    onFeeAssetChoice,
+    dotFeeBudget,
+    program,
+    hops,
     relayNote,
     peopleNote,
     hideServiceFee,
+    lockedSources,
+    reference,
+    onReference,
+    topic,
+    referenceError,
+    canMax,
+    maxing,
+    maxNote,
+    onMax,
   } = props;
+  const locked = !!lockedSources;
 
   const errors = validateRequest(value);
 
-  const isDot = value.asset === "DOT";
-
-  const assetOptions =
-    value.from === "assethub"
-      ? [
-          { key: "DOT", label: "DOT" },
-          { key: "USDC_AH", label: "USDC (Asset Hub)" },
-          { key: "USDT_AH", label: "USDT (Asset Hub)" },
-        ]
-      : value.from === "relay" || value.from === "people"
-      ? [{ key: "DOT", label: "DOT" }]
-      : [
-          { key: "USDC_HYDRA", label: "USDC (Hydra)" },
-          { key: "USDT_HYDRA", label: "USDT (Hydra)" },
-        ];
-
-  // To options
-  // - DOT: AssetHub -> (Relay or People), Relay -> AssetHub, People -> AssetHub
-  // - Stablecoins: AssetHub <-> Hydra only
-  const toOptions = isDot
-    ? value.from === "assethub"
-      ? [
-          { key: "relay", name: "Polkadot Relay" },
-          { key: "people", name: "People" },
-        ]
-      : value.from === "relay"
-      ? [{ key: "assethub", name: "Polkadot Asset Hub" }]
-      : value.from === "people"
-      ? [{ key: "assethub", name: "Polkadot Asset Hub" }]
-      : []
-    : value.from === "assethub"
-    ? [{ key: "hydradx", name: "HydraDX" }]
-    : value.from === "hydradx"
-    ? [{ key: "assethub", name: "Polkadot Asset Hub" }]
-    : [];
+  // Options derive from the route registry
+  const assetOptions = assetsFrom(value.from, advancedDotEnabled).map((a) => ({
+    key: a.key,
+    label: a.label,
+  }));
+
+  const toOptions = destinationsFor(value.from, value.asset, advancedDotEnabled).map((key) => ({
+    key,
+    name: chainName(key),
+  }));
 
   return (
     <div
@@ -121,6 +202,33 @@ export function SendForm(props: {
         <b>Mode:</b> {modeLabel}
       </div>
 
+      <div style={{ marginTop: 10, fontSize: 13 }}>
+        <label style={{ display: "flex", gap: 10, alignItems: "center" }}>
+          <input
+            type="checkbox"
+            checked={advancedDotEnabled}
+            onChange={(e) => onToggleAdvancedDot(e.target.checked)}
+          />
+          <span>Enable advanced DOT route (Asset Hub → HydraDX, experimental)</span>
+        </label>
+
+        {advancedDotEnabled && (
+          <div
+            style={{
+              marginTop: 8,
+              border: "1px solid #f0c9c9",
+              background: "#fff6f6",
+              padding: 12,
+              borderRadius: 10,
+            }}
+          >
+            <b>Experimental:</b> this route signs a hand-built XCM program with <code>polkadotXcm.execute</code>{" "}
+            instead of a pallet transfer call. Amounts are limited to 0.05–0.50 DOT. Review the program below and run
+            the dry-run before submitting.
+          </div>
+        )}
+      </div>
+
       {warning && (
         <div
           style={{
@@ -172,28 +280,20 @@ export function SendForm(props: {
           <select
             value={value.from}
             onChange={(e) => {
-              const nextFrom = e.target.value as any;
-
-              // Keep asset valid when switching chain
-              let nextAsset = value.asset;
-              if (nextFrom === "relay" || nextFrom === "people") nextAsset = "DOT";
-              if (nextFrom === "hydradx" && nextAsset === "DOT") nextAsset = "USDC_HYDRA";
-              if (nextFrom === "assethub" && nextAsset === "USDC_HYDRA") nextAsset = "USDC_AH";
-
-              // Auto-adjust destination
-              let nextTo = value.to;
-              if (nextAsset === "DOT") {
-                if (nextFrom === "relay" || nextFrom === "people") nextTo = "assethub";
-                else nextTo = "relay"; // default to relay
-              } else {
-                nextTo = nextFrom === "hydradx" ? "assethub" : "hydradx";
+              const nextFrom = e.target.value as Chain;
+              if (locked) {
+                // the request's sources all carry its asset to its destination
+                onChange({ ...value, from: nextFrom });
+                return;
               }
 
-              onChange({ ...value, from: nextFrom, to: nextTo, asset: nextAsset });
+              // Keep asset and destination valid when switching chain
+              const next = coerceRoute(nextFrom, value.asset, value.to, advancedDotEnabled);
+              onChange({ ...value, from: nextFrom, to: next.to, asset: next.asset });
             }}
             style={{ width: "100%", padding: 10, borderRadius: 8 }}
           >
-            {CHAINS.map((c) => (
+            {CHAINS.filter((c) => !lockedSources || lockedSources.includes(c.key)).map((c) => (
               <option key={c.key} value={c.key}>
                 {c.name}
               </option>
@@ -205,7 +305,8 @@ export function SendForm(props: {
           <div style={{ fontSize: 13, opacity: 0.7, marginBottom: 6 }}>To</div>
           <select
             value={value.to}
-            onChange={(e) => onChange({ ...value, to: e.target.value as any })}
+            disabled={locked}
+            onChange={(e) => onChange({ ...value, to: e.target.value as Chain })}
             style={{ width: "100%", padding: 10, borderRadius: 8 }}
           >
             {toOptions.map((c) => (
@@ -220,18 +321,11 @@ export function SendForm(props: {
           <div style={{ fontSize: 13, opacity: 0.7, marginBottom: 6 }}>Asset</div>
           <select
             value={value.asset}
+            disabled={locked}
             onChange={(e) => {
-              const nextAsset = e.target.value as any;
-              let nextTo = value.to;
-
-              if (nextAsset === "DOT") {
-                if (value.from === "relay" || value.from === "people") nextTo = "assethub";
-                else nextTo = "relay";
-              } else {
-                nextTo = value.from === "hydradx" ? "assethub" : "hydradx";
-              }
-
-              onChange({ ...value, asset: nextAsset, to: nextTo });
+              const nextAsset = e.target.value as TransferRequest["asset"];
+              const next = coerceRoute(value.from, nextAsset, value.to, advancedDotEnabled);
+              onChange({ ...value, asset: next.asset, to: next.to });
             }}
             style={{ width: "100%", padding: 10, borderRadius: 8 }}
           >
@@ -243,15 +337,100 @@ export function SendForm(props: {
           </select>
         </label>
 
+        {transferType && (
+          <label>
+            <div style={{ fontSize: 13, opacity: 0.7, marginBottom: 6 }}>Transfer method</div>
+            <select
+              value={transferMethod}
+              onChange={(e) => onTransferMethod(e.target.value as TransferMethod)}
+              style={{ width: "100%", padding: 10, borderRadius: 8 }}
+            >
+              {(Object.keys(TRANSFER_METHOD_LABELS) as TransferMethod[]).map((m) => (
+                <option key={m} value={m}>
+                  {TRANSFER_METHOD_LABELS[m]}
+                </option>
+              ))}
+            </select>
+            <div style={{ marginTop: 4, fontSize: 12, opacity: 0.7 }}>{TRANSFER_TYPE_LABELS[transferType]}</div>
+          </label>
+        )}
+
+        {transferType && dotFeeBudget && (
+          <label>
+            <div style={{ fontSize: 13, opacity: 0.7, marginBottom: 6 }}>Pay destination fees in</div>
+            <select
+              value={feeAssetChoice}
+              disabled={transferMethod === "legacy"}
+              onChange={(e) => onFeeAssetChoice(e.target.value as FeeAssetChoice)}
+              style={{ width: "100%", padding: 10, borderRadius: 8 }}
+            >
+              <option value="asset">The transferred stablecoin</option>
+              <option value="DOT">DOT (sends {dotFeeBudget} DOT along; the rest is deposited with the transfer)</option>
+            </select>
+          </label>
+        )}
+
+        <BeneficiaryField
+          value={value.beneficiary ?? ""}
+          onChange={(beneficiary) => onChange({ ...value, beneficiary })}
+          to={value.to}
+          check={beneficiaryCheck}
+          balance={beneficiaryBalance}
+          locked={locked}
+          book={addressBook}
+          onSaveEntry={onSaveBeneficiary}
+        />
+
         <label>
           <div style={{ fontSize: 13, opacity: 0.7, marginBottom: 6 }}>Amount</div>
+          <div style={{ display: "flex", gap: 8 }}>
+            <input
+              value={value.amount}
+              onChange={(e) => onChange({ ...value, amount: e.target.value })}
+              readOnly={locked}
+              placeholder="e.g. 0.10"
+              inputMode="decimal"
+              style={{ flex: 1, padding: 10, borderRadius: 8, border: "1px solid #ddd" }}
+            />
+            <button
+              type="button"
+              onClick={onMax}
+              disabled={!canMax}
+              title="Largest amount that pays the source fees and keeps the account alive"
+              style={{
+                padding: "0 12px",
+                borderRadius: 8,
+                border: "1px solid #ddd",
+                background: "#fff",
+                cursor: canMax ? "pointer" : "not-allowed",
+                fontSize: 13,
+              }}
+            >
+              {maxing ? "…" : "Max"}
+            </button>
+          </div>
+          {maxNote && <div style={{ marginTop: 4, fontSize: 12, opacity: 0.7 }}>{maxNote}</div>}
+        </label>
+
+        <label>
+          <div style={{ fontSize: 13, opacity: 0.7, marginBottom: 6 }}>Payment reference (optional)</div>
           <input
-            value={value.amount}
-            onChange={(e) => onChange({ ...value, amount: e.target.value })}
-            placeholder="e.g. 0.10"
-            inputMode="decimal"
+            value={reference}
+            onChange={(e) => onReference(e.target.value)}
+            readOnly={locked}
+            maxLength={MAX_REFERENCE_LENGTH}
+            placeholder="e.g. invoice 2026-014: the payee finds the deposit by it"
             style={{ width: "100%", padding: 10, borderRadius: 8, border: "1px solid #ddd" }}
           />
+          {referenceError ? (
+            <div style={{ marginTop: 4, fontSize: 12, color: "#b00020" }}>{referenceError}</div>
+          ) : (
+            topic && (
+              <div style={{ marginTop: 4, fontSize: 12, opacity: 0.7 }}>
+                XCM topic (message id on every hop): <span style={{ fontFamily: "monospace" }}>{topic}</span>
+              </div>
+            )
+          )}
         </label>
       </div>
 
@@ -286,13 +465,47 @@ export function SendForm(props: {
         <strong>Fees</strong>
 
         <div style={{ marginTop: 8, display: "grid", gap: 4 }}>
-          <div>Network fee (est): {feeQuote.networkFeeDotEst}</div>
+          <div>Network fee (est, DOT): {feeQuote.networkFeeDotEst}</div>
           <div>Service fee: {feeQuote.serviceFeeDot}</div>
           <div>
             <b>Total fee: {feeQuote.totalFeeDot}</b>
           </div>
         </div>
 
+        {feeQuote.legs && feeQuote.legs.length > 0 && (
+          <table style={{ marginTop: 10, width: "100%", borderCollapse: "collapse", fontSize: 13 }}>
+            <tbody>
+              {feeQuote.legs.map((l, i) => (
+                <tr key={i} style={{ opacity: l.inTotal ? 1 : 0.6 }}>
+                  <td style={{ padding: "4px 6px" }}>{FEE_LEG_LABELS[l.kind]}</td>
+                  <td style={{ padding: "4px 6px" }}>{l.chain}</td>
+                  <td style={{ padding: "4px 6px" }}>
+                    {l.amount ?? "—"} {l.asset}
+                  </td>
+                  <td style={{ padding: "4px 6px", opacity: 0.7 }}>{l.note ?? ""}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+
+        <button
+          disabled={!canEstimateFees}
+          onClick={onEstimateFees}
+          style={{
+            marginTop: 10,
+            padding: "8px 10px",
+            borderRadius: 8,
+            border: "1px solid #ddd",
+            background: "#fff",
+            cursor: canEstimateFees ? "pointer" : "not-allowed",
+            opacity: canEstimateFees ? 1 : 0.5,
+            fontSize: 13,
+          }}
+        >
+          {feeEstimating ? "Estimating…" : "Estimate network fees"}
+        </button>
+
         {feeQuote.notes.length > 0 && (
           <ul style={{ marginTop: 8, opacity: 0.75 }}>
             {feeQuote.notes.map((n, i) => (
@@ -321,6 +534,43 @@ export function SendForm(props: {
         <div style={{ marginTop: 12, fontSize: 13, opacity: 0.7 }}>{safetyMsg}</div>
       </div>
 
+      {program && (
+        <div
+          style={{
+            marginTop: 14,
+            border: "1px solid #eaeaea",
+            background: "#fafafa",
+            padding: 12,
+            borderRadius: 10,
+            fontSize: 13,
+          }}
+        >
+          <strong>XCM program (review before signing)</strong>
+          {hops && (
+            <div style={{ marginTop: 6 }}>
+              Hops: {chainName(hops[0].from)}
+              {hops.map((h) => ` → ${chainName(h.to)} (${HOP_TRANSFER_LABELS[h.transfer]})`).join("")}
+            </div>
+          )}
+          <div style={{ marginTop: 6 }}>
+            {program.instructions.map((ins) => Object.keys(ins)[0]).join(" → ")}
+          </div>
+          <div style={{ marginTop: 4, opacity: 0.75 }}>
+            max_weight:{" "}
+            {program.maxWeight
+              ? `refTime ${program.maxWeight.refTime} · proofSize ${program.maxWeight.proofSize} (${
+                  program.weightSource === "runtime" ? "runtime weight + margin" : "static bound"
+                })`
+              : "computed from the runtime when the transaction is built (Estimate / Preview / Submit)"}
+          </div>
+          <div style={{ marginTop: 4, opacity: 0.75 }}>
+            XCM {program.version}
+            {!program.maxWeight && " · the version is negotiated with the destination when the transaction is built"}
+          </div>
+          <pre style={{ marginTop: 8, fontSize: 12, whiteSpace: "pre-wrap" }}>{formatProgram(program)}</pre>
+        </div>
+      )}
+
       <button
         disabled={!canPreview}
         style={{
@@ -334,7 +584,11 @@ export function SendForm(props: {
         }}
         onClick={onDryRun}
       >
-        {canPreview ? "Preview XCM (dry-run)" : "Fix fields / wallet safety to continue"}
+        {dryRunning
+          ? "Running runtime dry-run…"
+          : canPreview
+          ? "Preview XCM (dry-run)"
+          : "Fix fields / wallet safety to continue"}
       </button>
 
       <button
@@ -357,6 +611,21 @@ export function SendForm(props: {
 
       <div style={{ marginTop: 8, fontSize: 13, opacity: 0.7 }}>{submitHelp}</div>
 
+      {dryRunError && (
+        <div
+          style={{
+            marginTop: 14,
+            border: "1px solid #f0c9c9",
+            background: "#fff6f6",
+            padding: 12,
+            borderRadius: 10,
+            fontSize: 13,
+          }}
+        >
+          <b>Dry run error:</b> {dryRunError}
+        </div>
+      )}
+
       {dryRun && (
         <div
           style={{
@@ -370,6 +639,40 @@ export function SendForm(props: {
           }}
         >
           <strong>XCM dry-run preview</strong>
+
+          <div style={{ marginTop: 10, display: "grid", gap: 4 }}>
+            <div>{VERDICT_LABELS[dryRun.verdict]}</div>
+            <div>
+              Call: {dryRun.call.section}.{dryRun.call.method}
+            </div>
+            {dryRun.xcmVersion && <div>Encoding: {formatNegotiation(dryRun.xcmVersion)}</div>}
+            <div>
+              Source: {dryRun.source.ok ? "OK" : `FAILED (${dryRun.source.error})`} ·{" "}
+              {dryRun.source.events.length} events · {dryRun.source.forwarded.length} forwarded message(s)
+            </div>
+            {dryRun.hops?.map((h) => (
+              <div key={h.chain}>
+                Hop {chainName(h.chain)}: {h.ok ? "OK" : `FAILED (${h.error})`} · {h.events.length} events ·{" "}
+                {h.forwarded.length} forwarded message(s)
+              </div>
+            ))}
+            {dryRun.hops && dryRun.hops.length === 0 && <div>Intermediate hop: not simulated (source failed or chain unreachable)</div>}
+            {dryRun.destination && (
+              <div>
+                Destination: {dryRun.destination.ok ? "OK" : `FAILED (${dryRun.destination.error})`} ·{" "}
+                {dryRun.destination.events.length} events
+              </div>
+            )}
+            {dryRun.destination && (
+              <div>
+                Simulated credit:{" "}
+                {dryRun.destination.credit
+                  ? `${dryRun.destination.credit.amount} units (${dryRun.destination.credit.event})`
+                  : "none found for the beneficiary"}
+              </div>
+            )}
+          </div>
+
           <pre style={{ marginTop: 10 }}>{JSON.stringify(dryRun, null, 2)}</pre>
         </div>
       )}
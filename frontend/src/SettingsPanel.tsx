@@ -0,0 +1,173 @@
+import { useState } from "react";
+
+import { CHAINS } from "../../chains";
+import { defaultChainSettings, validateRpcUrl } from "../../chains/settings";
+import type { ChainSettings, EndpointSetting } from "../../chains/settings";
+import type { ChainKey } from "../../xcm-engine/types";
+
+import { testEndpoint } from "./engine/endpoints";
+import type { EndpointTest } from "./engine/endpoints";
+
+function testLabel(t: EndpointTest | "running" | undefined): { text: string; color: string } {
+  if (!t) return { text: "", color: "#666" };
+  if (t === "running") return { text: "Testing…", color: "#666" };
+  if (t.wrongChain) return { text: `Wrong chain (${t.chainName ?? "unknown"})`, color: "#b00020" };
+  if (!t.ok) return { text: `ERR ${t.error ?? ""}`, color: "#b00020" };
+  return { text: `OK · ${t.latencyMs} ms · ${t.chainName}`, color: "#0a7d2c" };
+}
+
+const smallBtn = {
+  padding: "4px 8px",
+  borderRadius: 6,
+  border: "1px solid #ddd",
+  background: "#fff",
+  cursor: "pointer",
+  fontSize: 12,
+} as const;
+
+export function SettingsPanel(props: {
+  settings: ChainSettings;
+  onChange: (next: ChainSettings) => void;
+}) {
+  const { settings, onChange } = props;
+
+  const [drafts, setDrafts] = useState<Partial<Record<ChainKey, string>>>({});
+  const [draftErrors, setDraftErrors] = useState<Partial<Record<ChainKey, string>>>({});
+  const [tests, setTests] = useState<Record<string, EndpointTest | "running">>({});
+
+  function update(chain: ChainKey, list: EndpointSetting[]) {
+    onChange({ ...settings, [chain]: list });
+  }
+
+  function move(chain: ChainKey, i: number, delta: number) {
+    const list = [...settings[chain]];
+    const j = i + delta;
+    if (j < 0 || j >= list.length) return;
+    [list[i], list[j]] = [list[j], list[i]];
+    update(chain, list);
+  }
+
+  function toggle(chain: ChainKey, i: number) {
+    const list = settings[chain].map((e, k) => (k === i ? { ...e, enabled: !e.enabled } : e));
+    update(chain, list);
+  }
+
+  function remove(chain: ChainKey, i: number) {
+    update(chain, settings[chain].filter((_, k) => k !== i));
+  }
+
+  function add(chain: ChainKey) {
+    const url = (drafts[chain] ?? "").trim();
+    const err = validateRpcUrl(url, settings[chain]);
+    setDraftErrors({ ...draftErrors, [chain]: err });
+    if (err) return;
+
+    update(chain, [...settings[chain], { url, enabled: true, custom: true }]);
+    setDrafts({ ...drafts, [chain]: "" });
+    runTest(chain, url);
+  }
+
+  async function runTest(chain: ChainKey, url: string) {
+    const key = `${chain}|${url}`;
+    setTests((t) => ({ ...t, [key]: "running" }));
+    const res = await testEndpoint(chain, url);
+    setTests((t) => ({ ...t, [key]: res }));
+  }
+
+  return (
+    <details
+      style={{
+        border: "1px solid #e5e5e5",
+        borderRadius: 12,
+        padding: 16,
+        background: "#fff",
+        marginTop: 20,
+      }}
+    >
+      <summary style={{ cursor: "pointer", fontWeight: 600 }}>Network settings (RPC endpoints)</summary>
+
+      <div style={{ marginTop: 10, fontSize: 13, opacity: 0.75 }}>
+        Endpoints are tried top to bottom; disabled ones are skipped. Settings are saved in this browser.
+      </div>
+
+      {CHAINS.map((c) => {
+        const list = settings[c.key];
+        const enabledCount = list.filter((e) => e.enabled).length;
+
+        return (
+          <div key={c.key} style={{ marginTop: 16 }}>
+            <h3 style={{ margin: "0 0 6px" }}>{c.name}</h3>
+
+            {list.map((e, i) => {
+              const t = testLabel(tests[`${c.key}|${e.url}`]);
+              // at least one endpoint per chain stays enabled
+              const lockEnabled = e.enabled && enabledCount === 1;
+
+              return (
+                <div
+                  key={e.url}
+                  style={{ display: "flex", alignItems: "center", gap: 8, fontSize: 13, padding: "4px 0" }}
+                >
+                  <input
+                    type="checkbox"
+                    checked={e.enabled}
+                    disabled={lockEnabled}
+                    onChange={() => toggle(c.key, i)}
+                  />
+                  <span style={{ fontFamily: "monospace", opacity: e.enabled ? 1 : 0.5 }}>{e.url}</span>
+                  {e.custom && <span style={{ fontSize: 11, opacity: 0.6 }}>(custom)</span>}
+                  <span style={{ fontSize: 12, color: t.color }}>{t.text}</span>
+
+                  <span style={{ marginLeft: "auto", display: "flex", gap: 4 }}>
+                    <button style={smallBtn} disabled={i === 0} onClick={() => move(c.key, i, -1)}>
+                      ↑
+                    </button>
+                    <button style={smallBtn} disabled={i === list.length - 1} onClick={() => move(c.key, i, 1)}>
+                      ↓
+                    </button>
+                    <button style={smallBtn} onClick={() => runTest(c.key, e.url)}>
+                      Test
+                    </button>
+                    {e.custom && (
+                      <button style={smallBtn} disabled={lockEnabled} onClick={() => remove(c.key, i)}>
+                        Remove
+                      </button>
+                    )}
+                  </span>
+                </div>
+              );
+            })}
+
+            <div style={{ display: "flex", gap: 8, marginTop: 6 }}>
+              <input
+                value={drafts[c.key] ?? ""}
+                onChange={(ev) => setDrafts({ ...drafts, [c.key]: ev.target.value })}
+                onKeyDown={(ev) => {
+                  if (ev.key === "Enter") add(c.key);
+                }}
+                placeholder="wss://your-node:9944"
+                style={{ flex: 1, padding: 8, borderRadius: 8, border: "1px solid #ddd", fontSize: 13 }}
+              />
+              <button style={smallBtn} onClick={() => add(c.key)}>
+                Add endpoint
+              </button>
+            </div>
+            {draftErrors[c.key] && (
+              <div style={{ marginTop: 4, fontSize: 12, color: "#b00020" }}>{draftErrors[c.key]}</div>
+            )}
+          </div>
+        );
+      })}
+
+      <button
+        style={{ ...smallBtn, marginTop: 16 }}
+        onClick={() => {
+          setTests({});
+          onChange(defaultChainSettings());
+        }}
+      >
+        Reset to defaults
+      </button>
+    </details>
+  );
+}
@@ -0,0 +1,210 @@
+import { useState } from "react";
+
+import { CHAINS } from "../../chains";
+import { formatUnits } from "../../xcm-engine/amount";
+import { assetsTo } from "../../xcm-engine/capabilities";
+import { parsePaymentRequest } from "../../xcm-engine/paymentRequest";
+import type { PaymentRequest } from "../../xcm-engine/paymentRequest";
+import { MAX_REFERENCE_LENGTH, formatPaymentVerification } from "../../xcm-engine/topic";
+import type { PaymentVerification } from "../../xcm-engine/topic";
+import type { AssetKey, ChainKey } from "../../xcm-engine/types";
+
+const smallBtn = {
+  padding: "6px 10px",
+  borderRadius: 8,
+  border: "1px solid #ddd",
+  background: "#fff",
+  cursor: "pointer",
+  fontSize: 13,
+} as const;
+
+const input = { padding: 8, borderRadius: 8, border: "1px solid #ddd", fontSize: 13 } as const;
+
+const STATUS_COLORS: Record<PaymentVerification["status"], string> = {
+  paid: "#0a7d2c",
+  underpaid: "#a15c00",
+  not_found: "#666",
+};
+
+export type VerifyOptions = {
+  blocks: number;
+  tolerance: number; // share of the amount, 0.01 = 1%
+  onProgress: (scanned: number, total: number) => void;
+};
+
+export function VerifyPaymentPanel(props: {
+  account: string; // default beneficiary
+  onVerify: (pr: PaymentRequest, opts: VerifyOptions) => Promise<PaymentVerification>;
+}) {
+  const { account } = props;
+
+  const [link, setLink] = useState("");
+  const [to, setTo] = useState<ChainKey>("hydradx");
+  const [asset, setAsset] = useState<AssetKey>("USDC_AH");
+  const [amount, setAmount] = useState("");
+  const [beneficiary, setBeneficiary] = useState("");
+  const [reference, setReference] = useState("");
+  const [blocks, setBlocks] = useState("600");
+  const [tolerancePct, setTolerancePct] = useState("0");
+  const [progress, setProgress] = useState<string | undefined>(undefined);
+  const [result, setResult] = useState<{ verification?: PaymentVerification; error?: string } | undefined>(undefined);
+
+  const assets = assetsTo(to);
+  const routeAsset = assets.find((a) => a.key === asset);
+
+  // fills the fields from a payment-request link (the signature does not matter here)
+  function onLink(text: string) {
+    setLink(text);
+    if (!text.includes("?")) return;
+    const { request, errors } = parsePaymentRequest(text.slice(text.indexOf("?") + 1));
+    if (!request) {
+      setResult({ error: errors.join(" ") });
+      return;
+    }
+    setTo(request.to);
+    setAsset(request.asset);
+    setAmount(request.amount);
+    setBeneficiary(request.beneficiary);
+    setReference(request.reference ?? "");
+    setResult(undefined);
+  }
+
+  function onTo(next: ChainKey) {
+    setTo(next);
+    const offered = assetsTo(next);
+    if (!offered.some((a) => a.key === asset)) setAsset(offered[0]?.key ?? asset);
+  }
+
+  async function verify() {
+    setResult(undefined);
+    setProgress("Scanning…");
+    try {
+      const verification = await props.onVerify(
+        { to, asset, amount: amount.trim(), beneficiary: beneficiary.trim() || account, reference: reference.trim() },
+        {
+          blocks: Math.max(1, Math.floor(Number(blocks) || 0)),
+          tolerance: Math.min(Math.max(Number(tolerancePct) || 0, 0), 100) / 100,
+          onProgress: (scanned, total) => setProgress(`Scanning ${to}: ${scanned}/${total} blocks…`),
+        }
+      );
+      setResult({ verification });
+    } catch (e) {
+      setResult({ error: e instanceof Error ? e.message : String(e) });
+    } finally {
+      setProgress(undefined);
+    }
+  }
+
+  const v = result?.verification;
+  const decimals = routeAsset?.decimals ?? 0;
+  const canVerify = !progress && !!reference.trim() && !!amount.trim() && (!!beneficiary || !!account);
+
+  return (
+    <details
+      style={{
+        border: "1px solid #e5e5e5",
+        borderRadius: 12,
+        padding: 16,
+        background: "#fff",
+        marginTop: 20,
+      }}
+    >
+      <summary style={{ cursor: "pointer", fontWeight: 600 }}>Verify a payment</summary>
+
+      <div style={{ marginTop: 10, fontSize: 13, opacity: 0.75 }}>
+        Finds the deposit for a payment reference: scans recent destination blocks for{" "}
+        <code>messageQueue.Processed</code> with the reference's topic and the credit to the beneficiary. Only
+        transfers sent with a reference carry the topic.
+      </div>
+
+      <div style={{ display: "grid", gap: 10, marginTop: 12 }}>
+        <input
+          value={link}
+          onChange={(e) => onLink(e.target.value.trim())}
+          placeholder="Paste a payment-request link to fill the fields (optional)"
+          spellCheck={false}
+          style={{ ...input, fontFamily: "monospace" }}
+        />
+        <input
+          value={reference}
+          onChange={(e) => setReference(e.target.value)}
+          maxLength={MAX_REFERENCE_LENGTH}
+          placeholder="Payment reference (e.g. invoice 2026-014)"
+          style={input}
+        />
+        <div style={{ display: "flex", gap: 8 }}>
+          <select value={to} onChange={(e) => onTo(e.target.value as ChainKey)} style={input}>
+            {CHAINS.filter((c) => assetsTo(c.key).length > 0).map((c) => (
+              <option key={c.key} value={c.key}>
+                On {c.name}
+              </option>
+            ))}
+          </select>
+          <select value={asset} onChange={(e) => setAsset(e.target.value as AssetKey)} style={input}>
+            {assets.map((a) => (
+              <option key={a.key} value={a.key}>
+                {a.label}
+              </option>
+            ))}
+          </select>
+          <input
+            value={amount}
+            onChange={(e) => setAmount(e.target.value)}
+            placeholder="Expected amount"
+            inputMode="decimal"
+            style={{ ...input, width: 130 }}
+          />
+        </div>
+        <input
+          value={beneficiary}
+          onChange={(e) => setBeneficiary(e.target.value.trim())}
+          placeholder={account ? `Beneficiary (default: your account ${account.slice(0, 8)}…)` : "Beneficiary address"}
+          spellCheck={false}
+          style={{ ...input, fontFamily: "monospace" }}
+        />
+        <div style={{ display: "flex", gap: 12, alignItems: "center", fontSize: 13 }}>
+          <label>
+            Last{" "}
+            <input value={blocks} onChange={(e) => setBlocks(e.target.value)} inputMode="numeric" style={{ ...input, width: 70 }} />{" "}
+            blocks
+          </label>
+          <label>
+            Accept up to{" "}
+            <input
+              value={tolerancePct}
+              onChange={(e) => setTolerancePct(e.target.value)}
+              inputMode="decimal"
+              style={{ ...input, width: 50 }}
+            />
+            % short (fees deducted on arrival)
+          </label>
+        </div>
+        <div>
+          <button style={smallBtn} disabled={!canVerify} onClick={verify}>
+            {progress ? "Verifying…" : "Verify payment"}
+          </button>
+        </div>
+      </div>
+
+      {progress && <div style={{ marginTop: 8, fontSize: 12, opacity: 0.75 }}>{progress}</div>}
+      {result?.error && <div style={{ marginTop: 8, fontSize: 12, color: "#b00020" }}>{result.error}</div>}
+
+      {v && (
+        <div style={{ marginTop: 10, fontSize: 13 }}>
+          <div style={{ fontWeight: 600, color: STATUS_COLORS[v.status] }}>
+            {formatPaymentVerification(v, decimals, routeAsset?.symbol ?? asset)}
+          </div>
+          <div style={{ marginTop: 4, fontSize: 12, opacity: 0.7 }}>
+            Topic <span style={{ fontFamily: "monospace" }}>{v.topic}</span> · blocks #{v.scanned.from}–#{v.scanned.to}
+          </div>
+          {v.matches.map((m) => (
+            <div key={`${m.blockNumber}-${m.blockHash}`} style={{ marginTop: 4, fontSize: 12 }}>
+              #{m.blockNumber}: {m.success ? "processed" : "failed"}
+              {m.credit ? ` · ${m.credit.event} ${formatUnits(BigInt(m.credit.amount), decimals)}` : " · no credit to the beneficiary"}
+            </div>
+          ))}
+        </div>
+      )}
+    </details>
+  );
+}
@@ -1,17 +1,22 @@
 import { useEffect, useMemo, useState } from "react";
 import { web3Accounts, web3Enable } from "@polkadot/extension-dapp";
 
+import { formatAmount } from "../../xcm-engine/amount";
+import type { Amount } from "../../xcm-engine/amount";
+
+import { isStale } from "./engine/balances";
 import type { ChainBalanceSnapshot } from "./engine/balances";
+import type { EndpointStats } from "./engine/pool";
 export type WalletChainData = {
   status: string;
 };
 
 type UiAccount = { address: string; name?: string };
 
-function fmt6(s?: string): string {
-  if (!s) return "-";
-  // s is already formatted to 6 decimals by the probe engine, keep it stable
-  return s;
+function fmt6(a?: Amount): string {
+  if (!a) return "-";
+  // probes keep exact planck values; shown rounded down to 6 decimals
+  return formatAmount(a, 6);
 }
 
 function statusBadge(ok: boolean, error?: string) {
@@ -20,6 +25,17 @@ function statusBadge(ok: boolean, error?: string) {
   return { text: "…", style: { color: "#666" } };
 }
 
+// Live / stale marker for the Status column
+function liveBadge(s: ChainBalanceSnapshot, now: number) {
+  if (!s.ok && !s.nativeFree) return undefined;
+  if (!isStale(s, now)) return { text: `● live #${s.block ?? "…"}`, style: { color: "#0a7d2c" } };
+  const age = Math.max(0, Math.round((now - s.ts) / 1000));
+  return { text: `stale ${age}s`, style: { color: "#b26a00" } };
+}
+
+// Balance changes stay highlighted this long
+const CHANGE_HIGHLIGHT_MS = 60_000;
+
 function chainLabel(chain: string): string {
   if (chain === "assethub") return "Asset Hub";
   if (chain === "hydradx") return "HydraDX";
@@ -32,11 +48,12 @@ export function WalletPanel(props: {
   snapshots: ChainBalanceSnapshot[];
   lastUpdatedMs?: number;
   onRefresh?: () => void;
+  endpointStats?: EndpointStats[];
 
   onSelectedAddress: (addr: string) => void;
   onChainData: (d: WalletChainData) => void;
 }) {
-  const { snapshots, lastUpdatedMs, onRefresh, onSelectedAddress, onChainData } =
+  const { snapshots, lastUpdatedMs, onRefresh, endpointStats, onSelectedAddress, onChainData } =
     props;
 
   const [extEnabled, setExtEnabled] = useState(false);
@@ -108,6 +125,24 @@ onChainData({ status: mapped.length ? "Wallet ready" : "No accounts" });
     if (selected) onSelectedAddress(selected);
   }, [selected, onSelectedAddress]);
 
+  // clock for staleness and change highlights
+  const [now, setNow] = useState(() => Date.now());
+  useEffect(() => {
+    const t = setInterval(() => setNow(Date.now()), 5000);
+    return () => clearInterval(t);
+  }, []);
+
+  // recent balance changes (e.g. a transfer landing on the destination)
+  function deltaTag(s: ChainBalanceSnapshot, field: string) {
+    const c = s.changes?.[field];
+    if (!c || now - c.at > CHANGE_HIGHLIGHT_MS) return null;
+    return (
+      <span style={{ marginLeft: 6, fontSize: 12, color: c.delta.startsWith("-") ? "#b00020" : "#0a7d2c" }}>
+        {c.delta}
+      </span>
+    );
+  }
+
   const updatedLabel = useMemo(() => {
     if (!lastUpdatedMs) return "—";
     const d = new Date(lastUpdatedMs);
@@ -218,6 +253,9 @@ onChange={(e) => {
                 <th style={{ padding: "8px 6px", borderBottom: "1px solid #eee" }}>
                   USDT
                 </th>
+                <th style={{ padding: "8px 6px", borderBottom: "1px solid #eee" }}>
+                  DOT (token)
+                </th>
                 <th style={{ padding: "8px 6px", borderBottom: "1px solid #eee" }}>
                   Status
                 </th>
@@ -227,7 +265,9 @@ onChange={(e) => {
               {snapshots.map((s) => {
                 const usdc = s.tokens?.USDC;
                 const usdt = s.tokens?.USDT;
+                const dotToken = s.tokens?.DOT;
                 const badge = statusBadge(s.ok, s.error);
+                const live = liveBadge(s, now);
 
                 return (
                   <tr key={s.chain}>
@@ -239,19 +279,27 @@ onChange={(e) => {
                     </td>
                     <td style={{ padding: "8px 6px", borderBottom: "1px solid #f4f4f4" }}>
                       {fmt6(s.nativeFree)}
+                      {deltaTag(s, "native")}
                     </td>
                     <td style={{ padding: "8px 6px", borderBottom: "1px solid #f4f4f4" }}>
                       {fmt6(s.ed)}
                     </td>
                     <td style={{ padding: "8px 6px", borderBottom: "1px solid #f4f4f4" }}>
                       {usdc ? fmt6(usdc) : "—"}
+                      {deltaTag(s, "USDC")}
                     </td>
                     <td style={{ padding: "8px 6px", borderBottom: "1px solid #f4f4f4" }}>
                       {usdt ? fmt6(usdt) : "—"}
+                      {deltaTag(s, "USDT")}
+                    </td>
+                    <td style={{ padding: "8px 6px", borderBottom: "1px solid #f4f4f4" }}>
+                      {dotToken ? fmt6(dotToken) : "—"}
+                      {deltaTag(s, "DOT")}
                     </td>
                     <td style={{ padding: "8px 6px", borderBottom: "1px solid #f4f4f4" }}>
                       <span style={badge.style}>{badge.text}</span>
-                      {!s.ok && s.error && (
+                      {live && <span style={{ ...live.style, marginLeft: 8, fontSize: 12 }}>{live.text}</span>}
+                      {(!s.ok || !s.live) && s.error && (
                         <span style={{ marginLeft: 8, opacity: 0.7 }}>
                           {s.error}
                         </span>
@@ -265,8 +313,43 @@ onChange={(e) => {
         </div>
 
         <div style={{ marginTop: 10, fontSize: 12, opacity: 0.7 }}>
-          Snapshot is best-effort: balances may change between refresh and signing.
+          Balances update live. A chain is marked stale after 30s without a new block; Refresh resubscribes.
         </div>
+
+        {endpointStats && endpointStats.length > 0 && (
+          <details style={{ marginTop: 12, fontSize: 12 }}>
+            <summary style={{ cursor: "pointer", opacity: 0.8 }}>RPC endpoints</summary>
+            <table style={{ width: "100%", borderCollapse: "collapse", marginTop: 6 }}>
+              <thead>
+                <tr style={{ textAlign: "left" }}>
+                  <th style={{ padding: "4px 6px", borderBottom: "1px solid #eee" }}>Chain</th>
+                  <th style={{ padding: "4px 6px", borderBottom: "1px solid #eee" }}>Endpoint</th>
+                  <th style={{ padding: "4px 6px", borderBottom: "1px solid #eee" }}>Latency</th>
+                  <th style={{ padding: "4px 6px", borderBottom: "1px solid #eee" }}>OK / failed</th>
+                  <th style={{ padding: "4px 6px", borderBottom: "1px solid #eee" }}>Last error</th>
+                </tr>
+              </thead>
+              <tbody>
+                {endpointStats.map((e) => (
+                  <tr key={`${e.chain}|${e.rpc}`} style={{ fontWeight: e.active ? 600 : 400 }}>
+                    <td style={{ padding: "4px 6px" }}>{chainLabel(e.chain)}</td>
+                    <td style={{ padding: "4px 6px", fontFamily: "monospace" }}>
+                      {e.rpc.replace("wss://", "")}
+                      {e.active ? " ●" : ""}
+                    </td>
+                    <td style={{ padding: "4px 6px" }}>
+                      {e.avgLatencyMs !== undefined ? `${e.avgLatencyMs} ms` : "—"}
+                    </td>
+                    <td style={{ padding: "4px 6px" }}>
+                      {e.connects} / {e.failures}
+                    </td>
+                    <td style={{ padding: "4px 6px", opacity: 0.7 }}>{e.lastError ?? ""}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </details>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,148 @@
+// Beneficiaries: SS58 / EVM address validation and re-encoding for the destination chain,
+// recipient warnings, and the persisted address book (localStorage, like the chain settings).
+import { hexToU8a, u8aToHex } from "@polkadot/util";
+import { decodeAddress, encodeAddress, ethereumEncode, isEthereumAddress } from "@polkadot/util-crypto";
+
+import { chainInfo } from "../../../chains";
+import { findEntry, looksAlike } from "../../../xcm-engine/addressBook";
+import type { AddressBookEntry } from "../../../xcm-engine/addressBook";
+import { evmMappedAccountId, isH160 } from "../../../xcm-engine/beneficiary";
+import type { EvmBeneficiaryEncoding } from "../../../xcm-engine/beneficiary";
+import type { TransferRecord } from "../../../xcm-engine/history";
+import type { ChainKey } from "../../../xcm-engine/types";
+
+export type BeneficiaryCheck = {
+  error?: string;            // the transfer cannot be built
+  publicKey?: Uint8Array;    // AccountId32, or the 20-byte H160 of an EVM account
+  encoded?: string;          // in the destination's SS58 format (checksummed 0x for an H160)
+  creditAccount?: string;    // account the destination's deposit events name (SS58)
+  evm?: EvmBeneficiaryEncoding; // H160 beneficiary: how the route sends it
+  self: boolean;             // the sender's own account
+  entry?: AddressBookEntry;  // known recipient
+  warnings: string[];        // lookalike address, first-time recipient
+};
+
+export type BeneficiaryInput = {
+  address: string;           // any SS58 format, 0x public key or 0x EVM address; empty: the sender
+  to: ChainKey;
+  evm?: EvmBeneficiaryEncoding; // the route's EVM encoding; absent: H160 rejected
+  sender: string;
+  book: AddressBookEntry[];
+  history: TransferRecord[]; // earlier transfers of the sender (previous recipients)
+};
+
+// -------- SS58 / H160 --------
+
+const H160_RE = /^0x[0-9a-fA-F]{40}$/;
+
+export function isEvmAddress(address: string): boolean {
+  return H160_RE.test(address.trim());
+}
+
+// 32-byte public key of an SS58 address (any prefix) or 0x-hex key, or the 20 bytes of an
+// EVM address; a message when invalid
+export function parseAccountId(address: string): Uint8Array | string {
+  const s = address.trim();
+  if (isEvmAddress(s)) {
+    // mixed case carries the EIP-55 checksum; all lower/upper case has none
+    if (!isEthereumAddress(s)) return "EVM address checksum does not match (check for typos in the mixed-case letters).";
+    return hexToU8a(s);
+  }
+  let key: Uint8Array;
+  try {
+    key = decodeAddress(s);
+  } catch {
+    return "Beneficiary is not a valid SS58 address (check for typos: the checksum does not match).";
+  }
+  if (key.length !== 32) return `Beneficiary must be a 32-byte account (got ${key.length} bytes).`;
+  return key;
+}
+
+export function encodeForChain(publicKey: Uint8Array, chain: ChainKey): string {
+  if (isH160(publicKey)) return ethereumEncode(publicKey);
+  return encodeAddress(publicKey, chainInfo(chain).ss58Prefix);
+}
+
+// SS58 account the chain credits: an H160 lands on HydraDX's EVM-mapped AccountId32
+export function creditAccountFor(publicKey: Uint8Array, chain: ChainKey): string {
+  return encodeAddress(isH160(publicKey) ? evmMappedAccountId(publicKey) : publicKey, chainInfo(chain).ss58Prefix);
+}
+
+// Accounts credited by earlier transfers (the sender when no beneficiary was set)
+function previousRecipients(history: TransferRecord[]): string[] {
+  const out = new Set<string>();
+  for (const r of history) {
+    if (r.status === "failed") continue;
+    const parsed = parseAccountId(r.request.beneficiary || r.account);
+    if (typeof parsed !== "string") out.add(u8aToHex(parsed));
+  }
+  return [...out];
+}
+
+// -------- Checks --------
+
+export function checkBeneficiary(input: BeneficiaryInput): BeneficiaryCheck {
+  const { to, sender, book, history } = input;
+  const address = input.address.trim() || sender;
+  if (!address) return { error: "Select an account first.", self: false, warnings: [] };
+
+  const parsed = parseAccountId(address);
+  if (typeof parsed === "string") return { error: parsed, self: false, warnings: [] };
+  if (isH160(parsed) && !input.evm) {
+    return {
+      error: `EVM (H160) addresses are not accepted on this route; enter the recipient's SS58 address.`,
+      self: false,
+      warnings: [],
+    };
+  }
+
+  const hex = u8aToHex(parsed);
+  const senderKey = parseAccountId(sender);
+  const self = typeof senderKey !== "string" && u8aToHex(senderKey) === hex;
+  const entry = findEntry(book, hex);
+  const encoded = encodeForChain(parsed, to);
+  const creditAccount = creditAccountFor(parsed, to);
+  const warnings: string[] = [];
+
+  // compared in the destination's format, the one the user reads
+  const known: Array<{ key: string; name: string }> = [
+    ...book.map((e) => ({ key: e.publicKey, name: `"${e.label}"` })),
+    ...previousRecipients(history).map((key) => ({ key, name: "a previous recipient" })),
+    ...(typeof senderKey !== "string" ? [{ key: u8aToHex(senderKey), name: "your own account" }] : []),
+  ];
+  const lookalike = known.find((k) => k.key !== hex && looksAlike(encoded, encodeForChain(decodeAddress(k.key), to)));
+  if (lookalike) {
+    warnings.push(`Looks like ${lookalike.name} but is a different account: compare every character.`);
+  }
+
+  const seen = self || !!entry || known.some((k) => k.key === hex);
+  if (!seen) warnings.push("First transfer to this address: double-check it, or send a small test amount first.");
+
+  const evm = isH160(parsed) ? input.evm : undefined;
+  return { publicKey: parsed, encoded, creditAccount, evm, self, entry, warnings };
+}
+
+// -------- Persistence --------
+
+const BOOK_KEY = "xcm_crosspay_address_book_v1";
+
+type KeyValueStore = { getItem(key: string): string | null; setItem(key: string, value: string): void };
+
+export function loadAddressBook(storage: KeyValueStore): AddressBookEntry[] {
+  try {
+    const raw = storage.getItem(BOOK_KEY);
+    const list: unknown = raw ? JSON.parse(raw) : [];
+    if (!Array.isArray(list)) return [];
+    return list.filter(
+      (e): e is AddressBookEntry =>
+        typeof e?.publicKey === "string" && typeof e?.label === "string" && typeof e?.address === "string"
+    );
+  } catch {
+    // an unreadable book starts empty
+    return [];
+  }
+}
+
+export function saveAddressBook(storage: KeyValueStore, book: AddressBookEntry[]) {
+  storage.setItem(BOOK_KEY, JSON.stringify(book));
+}
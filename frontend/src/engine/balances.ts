@@ -1,5 +1,15 @@
 // xcm-engine/balances.ts
-import { ApiPromise, WsProvider } from "@polkadot/api";
+import type { ApiPromise } from "@polkadot/api";
+import type { Option } from "@polkadot/types";
+import type { Codec } from "@polkadot/types/types";
+import { hexToU8a, u8aToHex } from "@polkadot/util";
+
+import { amountOf, compareAmounts, formatAmount, subAmounts } from "../../../xcm-engine/amount";
+import type { Amount } from "../../../xcm-engine/amount";
+import { evmMappedAccountId } from "../../../xcm-engine/beneficiary";
+
+import { isEvmAddress } from "./addressBook";
+import type { ConnectionPool } from "./pool";
 
 // -------- Types --------
 
@@ -10,20 +20,37 @@ export type ChainBalanceSnapshot = {
 
   nativeSymbol: string;      // DOT / HDX
   nativeDecimals: number;    // 10 / 12
-  nativeFree?: string;       // formatted to 6 decimals
-  ed?: string;               // formatted to 6 decimals
+  nativeFree?: Amount;       // exact; formatAmount(a, 6) for display
+  ed?: Amount;
+
+  tokens?: Record<string, Amount>; // USDC, USDT, DOT (Hydra)
+  assetRules?: Record<string, AssetRule>; // stablecoins, keyed like `tokens`
 
-  tokens?: Record<string, string>; // e.g. { USDC: "26.080030", USDT: "1.490022" }
 
   ok: boolean;
   error?: string;
   rpc?: string;
   ts: number;                // Date.now()
+
+  // live mode (subscribeAllChains)
+  live?: boolean;            // subscription active; ts then moves with every new block
+  block?: number;            // best block the values were last confirmed at
+  changes?: Record<string, BalanceChange>; // last change per balance ("native", "USDC", "USDT", "DOT")
+};
+
+// What an account needs to hold a token: below `minBalance` it is wiped (or the deposit fails);
+// an asset that is not sufficient cannot keep an account alive without the native token
+export type AssetRule = {
+  minBalance: Amount;
+  sufficient?: boolean;      // undefined when the runtime does not say
+};
+
+export type BalanceChange = {
+  delta: string;             // signed, exact
+  at: number;                // Date.now() of the update
 };
 
 export type ProbeConfig = {
-  timeoutMs?: number; // default 8000
-  rpcs: Record<ChainId, string[]>;
   // Asset Hub asset IDs
   assetHub: {
     usdcAssetId: number; // 1337
@@ -33,6 +60,7 @@ export type ProbeConfig = {
   hydra: {
     usdcAssetId: number; // 22
     usdtAssetId: number; // 10
+    dotAssetId: number;  // 5
     hdxSymbol?: string;  // default "HDX"
   };
   // People para uses native DOT; no extra config needed
@@ -44,53 +72,44 @@ function nowTs() {
   return Date.now();
 }
 
-function withTimeout<T>(p: Promise<T>, ms: number): Promise<T> {
-  return new Promise((resolve, reject) => {
-    const t = setTimeout(() => reject(new Error("RPC timeout")), ms);
-    p.then((v) => {
-      clearTimeout(t);
-      resolve(v);
-    }).catch((e) => {
-      clearTimeout(t);
-      reject(e);
-    });
-  });
-}
+// -------- Asset rules --------
 
-function fmtBigintFixed6(value: bigint, decimals: number): string {
-  // value is in smallest units; return string with 6 decimals (rounded DOWN)
-  const base = 10n ** BigInt(decimals);
-  const whole = value / base;
-  const frac = value % base;
+type AssetDetails = Option<Codec & { minBalance: Codec; isSufficient?: Codec }>;
+type RegistryAsset = Option<Codec & { existentialDeposit?: Codec; isSufficient?: Codec }>;
 
-  const fracStr = frac.toString().padStart(decimals, "0");
-  const frac6 = fracStr.slice(0, 6).padEnd(6, "0");
+const isTrue = (c: Codec | undefined): boolean | undefined => (c === undefined ? undefined : c.toString() === "true");
 
-  return `${whole.toString()}.${frac6}`;
+// assets.asset(id): minBalance and isSufficient (Asset Hub)
+async function assetHubRules(api: ApiPromise, ids: Record<string, { id: number; decimals: number }>) {
+  const rules: Record<string, AssetRule> = {};
+  for (const [symbol, { id, decimals }] of Object.entries(ids)) {
+    const details = (await api.query.assets.asset(id)) as AssetDetails;
+    if (details.isNone) continue;
+    const d = details.unwrap();
+    rules[symbol] = { minBalance: amountOf(BigInt(d.minBalance.toString()), decimals), sufficient: isTrue(d.isSufficient) };
+  }
+  return rules;
 }
 
-async function connectWithFallback(
-  urls: string[],
-  timeoutMs: number
-): Promise<{ api: ApiPromise; rpc: string }> {
-  let lastErr: any = null;
-  for (const url of urls) {
-    try {
-      const api = await withTimeout(ApiPromise.create({ provider: new WsProvider(url) }), timeoutMs);
-      return { api, rpc: url };
-    } catch (e: any) {
-      lastErr = e;
-    }
+// assetRegistry.assets(id): existentialDeposit and isSufficient (HydraDX)
+async function hydraRules(api: ApiPromise, ids: Record<string, { id: number; decimals: number }>) {
+  const rules: Record<string, AssetRule> = {};
+  if (!api.query.assetRegistry?.assets) return rules;
+  for (const [symbol, { id, decimals }] of Object.entries(ids)) {
+    const asset = (await api.query.assetRegistry.assets(id)) as RegistryAsset;
+    if (asset.isNone) continue;
+    const a = asset.unwrap();
+    rules[symbol] = {
+      minBalance: amountOf(BigInt(a.existentialDeposit?.toString() ?? "0"), decimals),
+      sufficient: isTrue(a.isSufficient),
+    };
   }
-  throw new Error(lastErr?.message ?? String(lastErr ?? "All RPC endpoints failed"));
+  return rules;
 }
 
 // -------- AssetHub probe --------
 
-async function probeAssetHub(address: string, cfg: ProbeConfig): Promise<ChainBalanceSnapshot> {
-  const timeoutMs = cfg.timeoutMs ?? 8000;
-  const rpcs = cfg.rpcs.assethub;
-
+async function probeAssetHub(address: string, cfg: ProbeConfig, pool: ConnectionPool): Promise<ChainBalanceSnapshot> {
   const snapBase = (): ChainBalanceSnapshot => ({
     chain: "assethub",
     nativeSymbol: "DOT",
@@ -99,10 +118,9 @@ async function probeAssetHub(address: string, cfg: ProbeConfig): Promise<ChainBa
     ts: nowTs(),
   });
 
-  let api: ApiPromise | null = null;
   try {
-    const conn = await connectWithFallback(rpcs, timeoutMs);
-    api = conn.api;
+    const conn = await pool.get("assethub");
+    const api = conn.api;
 
     // Native DOT free
     const sys: any = await api.query.system.account(address);
@@ -128,16 +146,22 @@ const usdtOpt: any = await api.query.assets.account(usdtId, address);
 const usdcBal = usdcOpt?.isSome ? BigInt(usdcOpt.unwrap().balance.toString()) : 0n;
 const usdtBal = usdtOpt?.isSome ? BigInt(usdtOpt.unwrap().balance.toString()) : 0n;
 
+    const assetRules = await assetHubRules(api, {
+      USDC: { id: usdcId, decimals: usdcDec },
+      USDT: { id: usdtId, decimals: usdtDec },
+    });
+
     const snap: ChainBalanceSnapshot = {
       chain: "assethub",
       nativeSymbol: "DOT",
       nativeDecimals: 10,
-      nativeFree: fmtBigintFixed6(free, 10),
-      ed: fmtBigintFixed6(ed, 10),
+      nativeFree: amountOf(free, 10),
+      ed: amountOf(ed, 10),
       tokens: {
-        USDC: fmtBigintFixed6(usdcBal, usdcDec),
-        USDT: fmtBigintFixed6(usdtBal, usdtDec),
+        USDC: amountOf(usdcBal, usdcDec),
+        USDT: amountOf(usdtBal, usdtDec),
       },
+      assetRules,
       ok: true,
       rpc: conn.rpc,
       ts: nowTs(),
@@ -146,19 +170,12 @@ const usdtBal = usdtOpt?.isSome ? BigInt(usdtOpt.unwrap().balance.toString()) :
     return snap;
   } catch (e: any) {
     return { ...snapBase(), error: e?.message ?? String(e) };
-  } finally {
-    try {
-      await api?.disconnect();
-    } catch {}
   }
 }
 
 // -------- Relay probe --------
 
-async function probeRelay(address: string, cfg: ProbeConfig): Promise<ChainBalanceSnapshot> {
-  const timeoutMs = cfg.timeoutMs ?? 8000;
-  const rpcs = cfg.rpcs.relay;
-
+async function probeRelay(address: string, pool: ConnectionPool): Promise<ChainBalanceSnapshot> {
   const snapBase = (): ChainBalanceSnapshot => ({
     chain: "relay",
     nativeSymbol: "DOT",
@@ -167,10 +184,9 @@ async function probeRelay(address: string, cfg: ProbeConfig): Promise<ChainBalan
     ts: nowTs(),
   });
 
-  let api: ApiPromise | null = null;
   try {
-    const conn = await connectWithFallback(rpcs, timeoutMs);
-    api = conn.api;
+    const conn = await pool.get("relay");
+    const api = conn.api;
 
     const sys: any = await api.query.system.account(address);
     const free = BigInt(sys.data.free.toString());
@@ -182,8 +198,8 @@ async function probeRelay(address: string, cfg: ProbeConfig): Promise<ChainBalan
       chain: "relay",
       nativeSymbol: "DOT",
       nativeDecimals: 10,
-      nativeFree: fmtBigintFixed6(free, 10),
-      ed: fmtBigintFixed6(ed, 10),
+      nativeFree: amountOf(free, 10),
+      ed: amountOf(ed, 10),
       tokens: {},
       ok: true,
       rpc: conn.rpc,
@@ -191,17 +207,12 @@ async function probeRelay(address: string, cfg: ProbeConfig): Promise<ChainBalan
     };
   } catch (e: any) {
     return { ...snapBase(), error: e?.message ?? String(e) };
-  } finally {
-    try { await api?.disconnect(); } catch {}
   }
 }
 
 // -------- People probe --------
 
-async function probePeople(address: string, cfg: ProbeConfig): Promise<ChainBalanceSnapshot> {
-  const timeoutMs = cfg.timeoutMs ?? 8000;
-  const rpcs = cfg.rpcs.people;
-
+async function probePeople(address: string, pool: ConnectionPool): Promise<ChainBalanceSnapshot> {
   const snapBase = (): ChainBalanceSnapshot => ({
     chain: "people",
     nativeSymbol: "DOT",
@@ -210,10 +221,9 @@ async function probePeople(address: string, cfg: ProbeConfig): Promise<ChainBala
     ts: nowTs(),
   });
 
-  let api: ApiPromise | null = null;
   try {
-    const conn = await connectWithFallback(rpcs, timeoutMs);
-    api = conn.api;
+    const conn = await pool.get("people");
+    const api = conn.api;
 
     const sys: any = await api.query.system.account(address);
     const free = BigInt(sys.data.free.toString());
@@ -225,8 +235,8 @@ async function probePeople(address: string, cfg: ProbeConfig): Promise<ChainBala
       chain: "people",
       nativeSymbol: "DOT",
       nativeDecimals: 10,
-      nativeFree: fmtBigintFixed6(free, 10),
-      ed: fmtBigintFixed6(ed, 10),
+      nativeFree: amountOf(free, 10),
+      ed: amountOf(ed, 10),
       tokens: {},
       ok: true,
       rpc: conn.rpc,
@@ -234,17 +244,21 @@ async function probePeople(address: string, cfg: ProbeConfig): Promise<ChainBala
     };
   } catch (e: any) {
     return { ...snapBase(), error: e?.message ?? String(e) };
-  } finally {
-    try { await api?.disconnect(); } catch {}
   }
 }
 
 // -------- Hydra probe --------
 
-async function probeHydra(address: string, cfg: ProbeConfig): Promise<ChainBalanceSnapshot> {
-  const timeoutMs = cfg.timeoutMs ?? 8000;
-  const rpcs = cfg.rpcs.hydradx;
+// DOT on Hydra (token 5) keeps the relay's 10 decimals
+const HYDRA_DOT_DECIMALS = 10;
 
+// Account holding `address`'s balances on Hydra: an EVM (H160) address is its mapped AccountId32
+function hydraAccount(address: string): string {
+  return isEvmAddress(address) ? u8aToHex(evmMappedAccountId(hexToU8a(address.trim()))) : address;
+}
+
+async function probeHydra(address: string, cfg: ProbeConfig, pool: ConnectionPool): Promise<ChainBalanceSnapshot> {
+  const who = hydraAccount(address);
   const snapBase = (): ChainBalanceSnapshot => ({
     chain: "hydradx",
     nativeSymbol: cfg.hydra.hdxSymbol ?? "HDX",
@@ -253,15 +267,14 @@ async function probeHydra(address: string, cfg: ProbeConfig): Promise<ChainBalan
     ts: nowTs(),
   });
 
-  let api: ApiPromise | null = null;
   try {
-    const conn = await connectWithFallback(rpcs, timeoutMs);
-    api = conn.api;
+    const conn = await pool.get("hydradx");
+    const api = conn.api;
 
     const hdxSymbol = cfg.hydra.hdxSymbol ?? "HDX";
 
     // Native (balances) = HDX on Hydra
-    const sys: any = await api.query.system.account(address);
+    const sys: any = await api.query.system.account(who);
     const free = BigInt(sys.data.free.toString());
 
     const edStr = api.consts.balances?.existentialDeposit?.toString?.() ?? "0";
@@ -280,8 +293,8 @@ async function probeHydra(address: string, cfg: ProbeConfig): Promise<ChainBalan
         chain: "hydradx",
         nativeSymbol: hdxSymbol,
         nativeDecimals: 12,
-        nativeFree: fmtBigintFixed6(free, 12),
-        ed: fmtBigintFixed6(ed, 12),
+        nativeFree: amountOf(free, 12),
+        ed: amountOf(ed, 12),
         tokens: {},
         ok: true,
         rpc: conn.rpc,
@@ -289,46 +302,328 @@ async function probeHydra(address: string, cfg: ProbeConfig): Promise<ChainBalan
       };
     }
 
-    const usdcAcc: any = await (api.query as any).tokens.accounts(address, usdcId);
-    const usdtAcc: any = await (api.query as any).tokens.accounts(address, usdtId);
+    const usdcAcc: any = await (api.query as any).tokens.accounts(who, usdcId);
+    const usdtAcc: any = await (api.query as any).tokens.accounts(who, usdtId);
+    const dotAcc = (await api.query.tokens.accounts(who, cfg.hydra.dotAssetId)) as TokensAccount;
 
     const usdcFree = BigInt(usdcAcc.free?.toString?.() ?? "0");
     const usdtFree = BigInt(usdtAcc.free?.toString?.() ?? "0");
+    const dotFree = BigInt(dotAcc.free?.toString?.() ?? "0");
 
     // Hydra stablecoins are 6 decimals (per your registry scan)
     const stableDec = 6;
+    const assetRules = await hydraRules(api, {
+      USDC: { id: usdcId, decimals: stableDec },
+      USDT: { id: usdtId, decimals: stableDec },
+    });
 
     return {
       chain: "hydradx",
       nativeSymbol: hdxSymbol,
       nativeDecimals: 12,
-      nativeFree: fmtBigintFixed6(free, 12),
-      ed: fmtBigintFixed6(ed, 12),
+      nativeFree: amountOf(free, 12),
+      ed: amountOf(ed, 12),
       tokens: {
-        USDC: fmtBigintFixed6(usdcFree, stableDec),
-        USDT: fmtBigintFixed6(usdtFree, stableDec),
+        USDC: amountOf(usdcFree, stableDec),
+        USDT: amountOf(usdtFree, stableDec),
+        DOT: amountOf(dotFree, HYDRA_DOT_DECIMALS),
       },
+      assetRules,
       ok: true,
       rpc: conn.rpc,
       ts: nowTs(),
     };
   } catch (e: any) {
     return { ...snapBase(), error: e?.message ?? String(e) };
-  } finally {
-    try { await api?.disconnect(); } catch {}
   }
 }
 
+// -------- Live subscriptions --------
+
+// Seconds without a new block before a live snapshot is shown as stale
+export const STALE_AFTER_MS = 30_000;
+
+export function isStale(snap: ChainBalanceSnapshot, now = Date.now()): boolean {
+  return !snap.live || now - snap.ts > STALE_AFTER_MS;
+}
+
+type Unsub = () => void;
+
+// Subscribes the balances of one chain; `emit` receives the partial values on every change.
+type ChainWatcher = (
+  api: ApiPromise,
+  emit: (v: Partial<ChainBalanceSnapshot>) => void
+) => Promise<Unsub[]>;
+
+// Minimal shapes of the subscribed storage values
+type AccountInfo = Codec & { data: { free: Codec } };
+type AssetAccount = Option<Codec & { balance: Codec }>;
+type AssetMetadata = Codec & { decimals?: Codec };
+type TokensAccount = Codec & { free?: Codec };
+
+const freeOf = (sys: Codec): bigint => BigInt((sys as AccountInfo).data.free.toString());
+const edOf = (api: ApiPromise): bigint => BigInt(api.consts.balances?.existentialDeposit?.toString?.() ?? "0");
+
+function watchNative(address: string, decimals: number): ChainWatcher {
+  return async (api, emit) => {
+    const ed = amountOf(edOf(api), decimals);
+    const unsub = await api.queryMulti([[api.query.system.account, address]], ([sys]: Codec[]) =>
+      emit({ nativeFree: amountOf(freeOf(sys), decimals), ed, tokens: {} })
+    );
+    return [unsub];
+  };
+}
+
+function watchAssetHub(address: string, cfg: ProbeConfig): ChainWatcher {
+  return async (api, emit) => {
+    const { usdcAssetId, usdtAssetId } = cfg.assetHub;
+    const [usdcMeta, usdtMeta] = (await Promise.all([
+      api.query.assets.metadata(usdcAssetId),
+      api.query.assets.metadata(usdtAssetId),
+    ])) as AssetMetadata[];
+    const usdcDec = Number(usdcMeta.decimals?.toString?.() ?? "6");
+    const usdtDec = Number(usdtMeta.decimals?.toString?.() ?? "6");
+    const ed = amountOf(edOf(api), 10);
+    const assetRules = await assetHubRules(api, {
+      USDC: { id: usdcAssetId, decimals: usdcDec },
+      USDT: { id: usdtAssetId, decimals: usdtDec },
+    });
+
+    const unsub = await api.queryMulti(
+      [
+        [api.query.system.account, address],
+        [api.query.assets.account, [usdcAssetId, address]],
+        [api.query.assets.account, [usdtAssetId, address]],
+      ],
+      ([sys, usdcOpt, usdtOpt]: Codec[]) => {
+        const assetBalance = (o: Codec) => {
+          const opt = o as AssetAccount;
+          return opt.isSome ? BigInt(opt.unwrap().balance.toString()) : 0n;
+        };
+        const usdc = assetBalance(usdcOpt);
+        const usdt = assetBalance(usdtOpt);
+        emit({
+          nativeFree: amountOf(freeOf(sys), 10),
+          ed,
+          tokens: { USDC: amountOf(usdc, usdcDec), USDT: amountOf(usdt, usdtDec) },
+          assetRules,
+        });
+      }
+    );
+    return [unsub];
+  };
+}
+
+function watchHydra(address: string, cfg: ProbeConfig): ChainWatcher {
+  return async (api, emit) => {
+    const tokens = api.query.tokens;
+    if (!tokens?.accounts) return watchNative(address, 12)(api, emit);
+
+    const { usdcAssetId, usdtAssetId, dotAssetId } = cfg.hydra;
+    const ed = amountOf(edOf(api), 12);
+    const stableDec = 6;
+    const assetRules = await hydraRules(api, {
+      USDC: { id: usdcAssetId, decimals: stableDec },
+      USDT: { id: usdtAssetId, decimals: stableDec },
+    });
+
+    const unsub = await api.queryMulti(
+      [
+        [api.query.system.account, address],
+        [tokens.accounts, [address, usdcAssetId]],
+        [tokens.accounts, [address, usdtAssetId]],
+        [tokens.accounts, [address, dotAssetId]],
+      ],
+      ([sys, usdcAcc, usdtAcc, dotAcc]: Codec[]) => {
+        const tokenFree = (a: Codec) => BigInt((a as TokensAccount).free?.toString?.() ?? "0");
+        emit({
+          nativeFree: amountOf(freeOf(sys), 12),
+          ed,
+          tokens: {
+            USDC: amountOf(tokenFree(usdcAcc), stableDec),
+            USDT: amountOf(tokenFree(usdtAcc), stableDec),
+            DOT: amountOf(tokenFree(dotAcc), HYDRA_DOT_DECIMALS),
+          },
+          assetRules,
+        });
+      }
+    );
+    return [unsub];
+  };
+}
+
+function balanceValues(s: ChainBalanceSnapshot): Record<string, Amount | undefined> {
+  return { native: s.nativeFree, USDC: s.tokens?.USDC, USDT: s.tokens?.USDT, DOT: s.tokens?.DOT };
+}
+
+// Balances that moved between two updates (first values are not a change)
+function diffBalances(prev: ChainBalanceSnapshot, next: ChainBalanceSnapshot): Record<string, BalanceChange> {
+  const before = balanceValues(prev);
+  const out: Record<string, BalanceChange> = {};
+  for (const [key, value] of Object.entries(balanceValues(next))) {
+    const old = before[key];
+    if (value === undefined || old === undefined || compareAmounts(old, value) === 0) continue;
+    const delta = subAmounts(value, old);
+    out[key] = { delta: `${delta.planck >= 0n ? "+" : ""}${formatAmount(delta)}`, at: nowTs() };
+  }
+  return out;
+}
+
+// Keeps one chain subscribed: resubscribes on the pool's reconnected API after a drop.
+function watchChain(
+  base: ChainBalanceSnapshot,
+  pool: ConnectionPool,
+  watcher: ChainWatcher,
+  onSnapshot: (s: ChainBalanceSnapshot) => void
+): Unsub {
+  let stopped = false;
+  let unsubs: Unsub[] = [];
+  let last = base;
+  let retry: ReturnType<typeof setTimeout> | undefined;
+
+  const publish = (patch: Partial<ChainBalanceSnapshot>) => {
+    const next = { ...last, ...patch, ts: nowTs() };
+    next.changes = { ...last.changes, ...diffBalances(last, next) };
+    last = next;
+    if (!stopped) onSnapshot(last);
+  };
+
+  const cleanup = () => {
+    unsubs.forEach((u) => {
+      try { u(); } catch { /* connection already gone */ }
+    });
+    unsubs = [];
+  };
+
+  const start = async () => {
+    try {
+      const { api, rpc } = await pool.get(base.chain);
+      if (stopped) return;
+
+      unsubs = await watcher(api, (v) => publish({ ...v, ok: true, error: undefined, live: true, rpc }));
+      const unsubHeads = await api.rpc.chain.subscribeNewHeads((h) =>
+        publish({ live: true, block: h.number.toNumber() })
+      );
+      unsubs.push(unsubHeads);
+      if (stopped) return cleanup();
+
+      const onDisconnected = () => {
+        cleanup();
+        if (stopped) return;
+        publish({ live: false, error: "Disconnected, reconnecting…" });
+        retry = setTimeout(start, 1000);
+      };
+      api.once("disconnected", onDisconnected);
+      // pooled APIs outlive the watcher: stopping it must not leave the handler behind
+      unsubs.push(() => api.off("disconnected", onDisconnected));
+    } catch (e) {
+      cleanup();
+      if (stopped) return;
+      publish({ ok: last.ok && !!last.nativeFree, live: false, error: e instanceof Error ? e.message : String(e) });
+      retry = setTimeout(start, 10_000);
+    }
+  };
+
+  start();
+
+  return () => {
+    stopped = true;
+    clearTimeout(retry);
+    cleanup();
+  };
+}
+
 // -------- Public API --------
 
-export async function probeAllChains(address: string, cfg: ProbeConfig): Promise<ChainBalanceSnapshot[]> {
+// Connections come from the shared pool and stay open for the next refresh.
+// An EVM (H160) address only has balances on HydraDX; the other chains report it as not applicable.
+export async function probeAllChains(
+  address: string,
+  cfg: ProbeConfig,
+  pool: ConnectionPool
+): Promise<ChainBalanceSnapshot[]> {
+  if (isEvmAddress(address)) {
+    const na = (chain: ChainId): ChainBalanceSnapshot => ({
+      chain,
+      nativeSymbol: "DOT",
+      nativeDecimals: 10,
+      ok: false,
+      error: "EVM (H160) address: balances on HydraDX only.",
+      ts: nowTs(),
+    });
+    return [na("assethub"), await probeHydra(address, cfg, pool), na("relay"), na("people")];
+  }
+
   // Run probes in parallel; each handles its own errors/timeouts.
   const [ah, hy, re, pe] = await Promise.all([
-    probeAssetHub(address, cfg),
-    probeHydra(address, cfg),
-    probeRelay(address, cfg),
-    probePeople(address, cfg),
+    probeAssetHub(address, cfg, pool),
+    probeHydra(address, cfg, pool),
+    probeRelay(address, pool),
+    probePeople(address, pool),
   ]);
 
   return [ah, hy, re, pe];
 }
+
+// Dynamic guard inputs (destination bootstrap ED, intermediate hop ED) from a snapshot set
+export function bootstrapGuardInput(snapshots: ChainBalanceSnapshot[]) {
+  const relaySnap = snapshots.find((s) => s.chain === "relay");
+  const peopleSnap = snapshots.find((s) => s.chain === "people");
+  const ahSnap = snapshots.find((s) => s.chain === "assethub");
+
+  return {
+    relayFreeDot: relaySnap?.nativeFree,
+    relayEDDot: relaySnap?.ed,
+
+    peopleFreeDot: peopleSnap?.nativeFree,
+    peopleEDDot: peopleSnap?.ed,
+
+    // intermediate hop of the multi-hop routes
+    assetHubEDDot: ahSnap?.ed,
+  };
+}
+
+// Stablecoin destination guard: the asset's min balance and sufficiency on `chain` (any snapshot of
+// it carries them), and what the beneficiary already holds there when its snapshot is known
+export function destAssetGuardInput(
+  snapshots: ChainBalanceSnapshot[],
+  chain: ChainId,
+  symbol: string,
+  beneficiary?: ChainBalanceSnapshot
+) {
+  const rule = [beneficiary, ...snapshots].find((s) => s?.chain === chain && s.assetRules?.[symbol])?.assetRules?.[symbol];
+  const held = beneficiary?.ok && beneficiary.chain === chain ? beneficiary : undefined;
+
+  return {
+    destAssetMinBalance: rule?.minBalance,
+    destAssetSufficient: rule?.sufficient,
+    destAssetBalance: held?.tokens?.[symbol],
+    destNativeFree: held?.nativeFree,
+  };
+}
+
+// Live mode: every chain pushes a fresh snapshot on balance changes and new blocks.
+// Returns the unsubscribe function.
+export function subscribeAllChains(
+  address: string,
+  cfg: ProbeConfig,
+  pool: ConnectionPool,
+  onSnapshot: (s: ChainBalanceSnapshot) => void
+): () => void {
+  const base = (chain: ChainId, nativeSymbol: string, nativeDecimals: number): ChainBalanceSnapshot => ({
+    chain,
+    nativeSymbol,
+    nativeDecimals,
+    ok: false,
+    live: false,
+    ts: nowTs(),
+  });
+
+  const stops = [
+    watchChain(base("assethub", "DOT", 10), pool, watchAssetHub(address, cfg), onSnapshot),
+    watchChain(base("hydradx", cfg.hydra.hdxSymbol ?? "HDX", 12), pool, watchHydra(address, cfg), onSnapshot),
+    watchChain(base("relay", "DOT", 10), pool, watchNative(address, 10), onSnapshot),
+    watchChain(base("people", "DOT", 10), pool, watchNative(address, 10), onSnapshot),
+  ];
+  return () => stops.forEach((stop) => stop());
+}
@@ -0,0 +1,153 @@
+// Batch payouts on chain: the transfers of one source chain in a single utility.batchAll,
+// its combined fee quote, and delivery tracking per row (see xcm-engine/batch.ts).
+import type { ApiPromise } from "@polkadot/api";
+import type { SubmittableExtrinsic } from "@polkadot/api/types";
+
+import { formatUnits, parseAmount } from "../../../xcm-engine/amount";
+import { feePayingAsset, findRouteByKey } from "../../../xcm-engine/capabilities";
+import type { FeeAssetChoice } from "../../../xcm-engine/capabilities";
+import type { PayoutItem } from "../../../xcm-engine/batch";
+import { formatDelivery } from "../../../xcm-engine/delivery";
+import { buildTransfer } from "../../../xcm-engine/transfer";
+import type { BuildOptions } from "../../../xcm-engine/transfer";
+import type { ChainKey, FeeLeg } from "../../../xcm-engine/types";
+
+import { creditAccountFor, parseAccountId } from "./addressBook";
+import { finalizedBlockNumber, trackDelivery } from "./delivery";
+import { destFeeAssetFor, estimateNetworkFees } from "./fees";
+import type { ConnectionPool } from "./pool";
+
+type Tx = SubmittableExtrinsic<"promise">;
+
+// -------- Helpers --------
+
+function recipientKey(it: PayoutItem): Uint8Array {
+  const parsed = parseAccountId(it.request?.beneficiary ?? "");
+  if (typeof parsed === "string") throw new Error(`Line ${it.row.line}: ${parsed}`);
+  return parsed;
+}
+
+function destinations(items: PayoutItem[]): ChainKey[] {
+  return [...new Set(items.flatMap((it) => (it.request ? [it.request.to] : [])))];
+}
+
+// Destination connections, undefined when unreachable (delivery then goes untracked)
+async function connectDestinations(pool: ConnectionPool, items: PayoutItem[]) {
+  const apis = new Map<ChainKey, ApiPromise | undefined>();
+  for (const to of destinations(items)) {
+    apis.set(to, await pool.get(to).then((c) => c.api, () => undefined));
+  }
+  return apis;
+}
+
+// -------- Build --------
+
+// utility.batchAll of the rows' transfers (all or nothing: one failing call reverts the batch)
+export async function buildBatch(
+  pool: ConnectionPool,
+  api: ApiPromise,
+  items: PayoutItem[],
+  opts: Omit<BuildOptions, "destApi">
+): Promise<Tx> {
+  if (!api.tx.utility?.batchAll) throw new Error("utility.batchAll is not available on the source chain.");
+  const dests = await connectDestinations(pool, items);
+  const calls: Tx[] = [];
+  for (const it of items) {
+    if (!it.request) continue;
+    const tx = await buildTransfer<Tx>(api, it.request, recipientKey(it), { ...opts, destApi: dests.get(it.request.to) });
+    calls.push(tx);
+  }
+  return api.tx.utility.batchAll(calls.map((c) => c.method));
+}
+
+// -------- Fees --------
+
+// Fee legs of the whole batch: the source fee and every delivery are exact for the batch; the
+// destination execution is priced once and counted for each row sharing the first row's destination.
+export async function estimateBatchFees(input: {
+  pool: ConnectionPool;
+  srcApi: ApiPromise;
+  tx: Tx;
+  items: PayoutItem[];
+  address: string;
+  feeAsset?: FeeAssetChoice;
+}): Promise<FeeLeg[]> {
+  const { pool, srcApi, tx, items, address } = input;
+  const first = items[0]?.request;
+  if (!first) return [];
+  const match = findRouteByKey(first.from, first.to, first.asset);
+  if (!match) throw new Error("Unsupported route/asset.");
+
+  const destApi = await pool.get(first.to).then((c) => c.api, () => undefined);
+  const destFeeAsset = destFeeAssetFor(feePayingAsset(match.route, match.asset, input.feeAsset));
+  const legs = await estimateNetworkFees({
+    from: first.from,
+    to: first.to,
+    srcApi,
+    destApi,
+    tx,
+    address,
+    destFeeAsset,
+  });
+
+  const same = items.filter((it) => it.request?.to === first.to && it.request.asset === first.asset).length;
+  return legs.map((l) => {
+    if (l.kind !== "destination_execution" || l.amount === undefined) return l;
+    const rest = same < items.length ? " Rows to other destinations or in other assets are not quoted." : "";
+    return {
+      ...l,
+      amount: formatUnits(parseAmount(l.amount, destFeeAsset.decimals).planck * BigInt(same), destFeeAsset.decimals),
+      note: `${same} × ${l.amount} ${l.asset}, deducted from each transfer on arrival.${rest}`,
+    };
+  });
+}
+
+// -------- Tracking --------
+
+// First destination block to scan, per destination (read before submitting)
+export async function batchStartBlocks(pool: ConnectionPool, items: PayoutItem[]): Promise<Map<ChainKey, number>> {
+  const out = new Map<ChainKey, number>();
+  for (const [to, api] of await connectDestinations(pool, items)) {
+    if (api) out.set(to, (await finalizedBlockNumber(api)) + 1);
+  }
+  return out;
+}
+
+// Delivery of each row. `messageIds` are the batch's Sent ids in call order: row i is the
+// i-th message when the counts match, otherwise rows are matched by the credit to their recipient.
+export async function trackPayouts(input: {
+  pool: ConnectionPool;
+  items: PayoutItem[];
+  messageIds: string[];
+  fromBlocks: Map<ChainKey, number>;
+  onItem: (index: number, patch: Partial<PayoutItem>) => void;
+  log?: (line: string) => void;
+}): Promise<void> {
+  const { pool, items, messageIds, fromBlocks, onItem, log } = input;
+  const byOrder = messageIds.length === items.length;
+  const dests = await connectDestinations(pool, items);
+
+  await Promise.all(
+    items.map(async (it, i) => {
+      const req = it.request;
+      const api = req ? dests.get(req.to) : undefined;
+      const fromBlock = req ? fromBlocks.get(req.to) : undefined;
+      const messageId = byOrder ? messageIds[i] : undefined;
+      if (!req || !api || fromBlock === undefined) {
+        onItem(i, { status: "submitted", reason: "Destination RPC unreachable: delivery not tracked.", messageId });
+        return;
+      }
+
+      onItem(i, { status: "tracking", messageId });
+      const result = await trackDelivery({
+        api,
+        chain: req.to,
+        messageIds: messageId ? [messageId] : [],
+        beneficiary: creditAccountFor(recipientKey(it), req.to),
+        fromBlock,
+      });
+      log?.(`Line ${it.row.line}: ${formatDelivery(result)}`);
+      onItem(i, { status: result.status, reason: result.reason });
+    })
+  );
+}
@@ -0,0 +1,197 @@
+// Destination-side delivery tracking: follows finalized destination blocks until
+// messageQueue reports the message sent on the source, then checks the beneficiary credit.
+// Payment verification scans recent blocks the same way for a payment reference's topic.
+import type { ApiPromise } from "@polkadot/api";
+import type { bool, Vec } from "@polkadot/types";
+import type { Event, EventRecord } from "@polkadot/types/interfaces";
+import type { Codec } from "@polkadot/types/types";
+
+import type { DeliveryResult } from "../../../xcm-engine/delivery";
+import { paymentVerdict } from "../../../xcm-engine/topic";
+import type { PaymentVerification, TopicMatch } from "../../../xcm-engine/topic";
+import type { ChainId } from "./balances";
+import { findCredit } from "./dryRun";
+
+export type TrackDeliveryInput = {
+  api: ApiPromise;        // destination chain
+  chain: ChainId;
+  messageIds: string[];   // TransferOutcome.messageIds
+  beneficiary: string;
+  fromBlock: number;      // first destination block to scan (read before submitting)
+  timeoutMs?: number;     // default 180s
+  log?: (line: string) => void;
+};
+
+type BlockMatch = Omit<DeliveryResult, "chain" | "messageIds">;
+
+// -------- Helpers --------
+
+function field(event: Event, name: string): Codec | undefined {
+  const i = (event.data.names ?? []).indexOf(name);
+  return i < 0 ? undefined : event.data[i];
+}
+
+function errorMessage(e: unknown): string {
+  return e instanceof Error ? e.message : String(e);
+}
+
+function isQueueResult(event: Event): boolean {
+  return event.section === "messageQueue" && (event.method === "Processed" || event.method === "ProcessingFailed");
+}
+
+// Each messageQueue result closes the events its message emitted, so credits are
+// only attributed to the message that produced them.
+async function queueResults(
+  api: ApiPromise,
+  blockNumber: number
+): Promise<{ hash: string; results: Array<{ event: Event; emitted: Event[] }> }> {
+  const hash = await api.rpc.chain.getBlockHash(blockNumber);
+  const apiAt = await api.at(hash);
+  const records = await apiAt.query.system.events<Vec<EventRecord>>();
+
+  const results: Array<{ event: Event; emitted: Event[] }> = [];
+  let segment: Event[] = [];
+  for (const { event } of records) {
+    if (!isQueueResult(event)) {
+      segment.push(event);
+      continue;
+    }
+    results.push({ event, emitted: segment });
+    segment = [];
+  }
+  return { hash: hash.toHex(), results };
+}
+
+async function scanBlock(
+  api: ApiPromise,
+  blockNumber: number,
+  messageIds: string[],
+  beneficiary: string
+): Promise<BlockMatch | undefined> {
+  const { hash, results } = await queueResults(api, blockNumber);
+
+  for (const { event, emitted } of results) {
+    const id = field(event, "id")?.toHex() ?? "";
+    // without ids from the source, fall back to "a message that credited the beneficiary"
+    const matches = messageIds.length > 0 ? messageIds.includes(id) : !!findCredit(emitted, beneficiary);
+    if (!matches) continue;
+
+    const at = { blockNumber, blockHash: hash };
+
+    if (event.method === "ProcessingFailed") {
+      return { ...at, status: "failed", reason: `messageQueue.ProcessingFailed: ${field(event, "error")?.toString()}` };
+    }
+    if (!(field(event, "success") as bool | undefined)?.isTrue) {
+      return { ...at, status: "failed", reason: "XCM execution failed on the destination (messageQueue.Processed success=false)." };
+    }
+
+    const credit = findCredit(emitted, beneficiary);
+    if (!credit) {
+      return { ...at, status: "failed", reason: "Message processed, but no credit to the beneficiary was found." };
+    }
+    return { ...at, status: "delivered", credit };
+  }
+  return undefined;
+}
+
+// -------- Public API --------
+
+// Latest finalized block number: pass `+ 1` as fromBlock before submitting.
+export async function finalizedBlockNumber(api: ApiPromise): Promise<number> {
+  const hash = await api.rpc.chain.getFinalizedHead();
+  const header = await api.rpc.chain.getHeader(hash);
+  return header.number.toNumber();
+}
+
+// Blocks read at once when scanning back
+const VERIFY_BATCH = 8;
+
+export type VerifyPaymentInput = {
+  api: ApiPromise;        // destination chain
+  chain: ChainId;
+  topic: string;          // paymentTopic(reference)
+  beneficiary: string;
+  expected: bigint;       // smallest units
+  blocks?: number;        // latest finalized blocks to scan, default 600 (about an hour)
+  tolerance?: number;     // share of `expected` that may be missing, see paymentVerdict
+  onProgress?: (scanned: number, total: number) => void;
+};
+
+// The messages carrying `topic` in recent finalized blocks, and what they credited the beneficiary
+export async function verifyPayment(input: VerifyPaymentInput): Promise<PaymentVerification> {
+  const { api, chain, topic, beneficiary, expected, blocks = 600 } = input;
+  const to = await finalizedBlockNumber(api);
+  const from = Math.max(1, to - blocks + 1);
+
+  const matches: TopicMatch[] = [];
+  for (let start = from; start <= to; start += VERIFY_BATCH) {
+    const numbers = Array.from({ length: Math.min(VERIFY_BATCH, to - start + 1) }, (_, i) => start + i);
+    const blocksRead = await Promise.all(numbers.map((n) => queueResults(api, n)));
+    blocksRead.forEach(({ hash, results }, i) => {
+      for (const { event, emitted } of results) {
+        if (field(event, "id")?.toHex() !== topic) continue;
+        const success = event.method === "Processed" && !!(field(event, "success") as bool | undefined)?.isTrue;
+        matches.push({ blockNumber: numbers[i], blockHash: hash, success, credit: findCredit(emitted, beneficiary) });
+      }
+    });
+    input.onProgress?.(start + numbers.length - from, to - from + 1);
+  }
+  return paymentVerdict({ chain, topic, expected, matches, scanned: { from, to } }, input.tolerance);
+}
+
+export function trackDelivery(input: TrackDeliveryInput): Promise<DeliveryResult> {
+  const { api, chain, messageIds, beneficiary, timeoutMs = 180_000 } = input;
+  const log = input.log ?? (() => {});
+
+  return new Promise((resolve) => {
+    let next = input.fromBlock;
+    let latest = next - 1;
+    let scanning = false;
+    let done = false;
+    let unsub: (() => void) | undefined;
+
+    const finish = (r: BlockMatch) => {
+      if (done) return;
+      done = true;
+      clearTimeout(timer);
+      try { unsub?.(); } catch { /* already unsubscribed */ }
+      resolve({ chain, messageIds, ...r });
+    };
+
+    const timer = setTimeout(
+      () => finish({ status: "timed_out", reason: `no matching message processed within ${Math.round(timeoutMs / 1000)}s.` }),
+      timeoutMs
+    );
+
+    // Scans every block up to the latest finalized head, including the ones
+    // finalized before the subscription started.
+    const catchUp = async () => {
+      if (scanning) return;
+      scanning = true;
+      try {
+        while (!done && next <= latest) {
+          const match = await scanBlock(api, next, messageIds, beneficiary);
+          if (match) finish(match);
+          next++;
+        }
+      } catch (e) {
+        log(`✗ Delivery scan #${next}: ${errorMessage(e)} (retrying on next block)`);
+      } finally {
+        scanning = false;
+      }
+    };
+
+    log(`Tracking delivery on ${chain} from block #${next} (${messageIds.length ? messageIds.join(", ") : "no message id, matching by credit"})`);
+
+    api.rpc.chain
+      .subscribeFinalizedHeads((header) => {
+        latest = Math.max(latest, header.number.toNumber());
+        catchUp();
+      })
+      .then((u) => {
+        unsub = u;
+        if (done) u();
+      })
+      .catch((e) => finish({ status: "failed", reason: `Destination subscription failed: ${errorMessage(e)}` }));
+  });
+}
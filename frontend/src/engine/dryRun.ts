@@ -0,0 +1,197 @@
+// Runtime dry run: DryRunApi.dry_run_call on the source, dry_run_xcm on each following hop.
+import type { ApiPromise } from "@polkadot/api";
+import type { Codec } from "@polkadot/types/types";
+import type { SubmittableExtrinsic } from "@polkadot/api/types";
+import { decodeAddress } from "@polkadot/util-crypto";
+import { u8aEq } from "@polkadot/util";
+
+import type { TransferRequest, FeeQuote } from "../../../xcm-engine/types";
+import { CREDIT_EVENTS, dryRunVerdict, routeLabel } from "../../../xcm-engine/dryRun";
+import type { DryRunCredit, DryRunEvent, DryRunForwarded, DryRunHop, XcmDryRun } from "../../../xcm-engine/dryRun";
+import type { LocationV4 } from "../../../xcm-engine/location";
+import type { VersionNegotiation } from "../../../xcm-engine/version";
+import type { ChainId } from "./balances";
+import { dryRunCall, dryRunXcm, isLocationOf, locationOf } from "./runtimeApis";
+import type { DispatchError, ExecutionResult, ForwardedXcms, RuntimeEvent } from "./runtimeApis";
+
+export type DryRunInput = {
+  req: TransferRequest;
+  fees: FeeQuote;
+  srcApi: ApiPromise;
+  destApi?: ApiPromise;
+  tx: SubmittableExtrinsic<"promise">;
+  address: string;     // signer on the source chain
+  beneficiary: string; // account expected to be credited on the destination
+  xcmVersion?: VersionNegotiation; // reported with the preview
+
+  // Multi-hop routes: the chain the XCM passes through and its connection
+  // (without it only the source is simulated)
+  via?: ChainId;
+  viaApi?: ApiPromise;
+};
+
+// -------- Helpers --------
+
+function toEvents(list: RuntimeEvent[]): DryRunEvent[] {
+  return list.map((ev) => ({ section: ev.section, method: ev.method, data: ev.data.toHuman() }));
+}
+
+// Call args come as a tuple of codecs
+function human(codec: Codec | Codec[]): unknown {
+  if (Array.isArray(codec)) return codec.map(human);
+  try {
+    return codec.toHuman();
+  } catch {
+    return codec.toString();
+  }
+}
+
+function sameAccount(a: string, b: string): boolean {
+  try {
+    return u8aEq(decodeAddress(a), decodeAddress(b));
+  } catch {
+    return false;
+  }
+}
+
+// DispatchResult of the source call -> readable error
+function dispatchError(api: ApiPromise, res: ExecutionResult): string | undefined {
+  if (!res?.isErr || !res.asErr) return undefined;
+  const err = (res.asErr.error ?? res.asErr) as DispatchError;
+  if (err.isModule) {
+    const decoded = api.registry.findMetaError(err.asModule);
+    return `${decoded.section}.${decoded.name}: ${decoded.docs.join(" ")}`;
+  }
+  return err.toString();
+}
+
+// XCM Outcome on the destination -> readable error
+function outcomeError(outcome: ExecutionResult | undefined): string | undefined {
+  if (outcome?.isComplete) return undefined;
+  if (outcome?.isIncomplete && outcome.asIncomplete) return `Incomplete: ${outcome.asIncomplete.error.toString()}`;
+  if (outcome?.isError && outcome.asError) return `Error: ${(outcome.asError.error ?? outcome.asError).toString()}`;
+  return outcome?.toString() ?? "Unknown outcome";
+}
+
+function toForwarded(list: ForwardedXcms): DryRunForwarded[] {
+  return list.map((f) => ({ destination: human(f.destination), messages: f.messages.map(human) }));
+}
+
+// Runs every message of `list` on `api` as coming from `origin`
+async function replay(api: ApiPromise, origin: LocationV4, list: ForwardedXcms) {
+  const events: RuntimeEvent[] = [];
+  const results: unknown[] = [];
+  const forwardedXcms: ForwardedXcms = [];
+  let error: string | undefined;
+
+  try {
+    for (const f of list) {
+      for (const msg of f.messages) {
+        const eff = await dryRunXcm(api, origin, msg);
+        results.push(human(eff.executionResult));
+        events.push(...eff.emittedEvents);
+        forwardedXcms.push(...eff.forwardedXcms);
+        error = error ?? outcomeError(eff.executionResult);
+      }
+    }
+  } catch (e) {
+    error = e instanceof Error ? e.message : String(e);
+  }
+
+  return { events, executionResult: results.length === 1 ? results[0] : results, forwardedXcms, error };
+}
+
+// First CREDIT_EVENTS entry crediting `beneficiary` (also used by delivery tracking)
+export function findCredit(events: RuntimeEvent[], beneficiary: string): DryRunCredit | undefined {
+  for (const ev of events) {
+    const spec = CREDIT_EVENTS.find((c) => c.section === ev.section && c.method === ev.method);
+    if (!spec) continue;
+
+    const names = ev.data.names ?? [];
+    const who = ev.data[names.indexOf(spec.who)];
+    const amount = ev.data[names.indexOf(spec.amount)];
+    if (!who || !amount || !sameAccount(who.toString(), beneficiary)) continue;
+
+    return { event: `${ev.section}.${ev.method}`, amount: amount.toString() };
+  }
+  return undefined;
+}
+
+// -------- Public API --------
+
+export async function runDryRun(input: DryRunInput): Promise<XcmDryRun> {
+  const { req, fees, srcApi, destApi, tx, address, beneficiary, xcmVersion, via, viaApi } = input;
+
+  const call = {
+    section: tx.method.section,
+    method: tx.method.method,
+    args: human(tx.method.args),
+    callData: tx.method.toHex(),
+  };
+
+  const src = await dryRunCall(srcApi, address, tx);
+  const srcError = dispatchError(srcApi, src.executionResult);
+
+  const source: XcmDryRun["source"] = {
+    ok: !srcError,
+    error: srcError,
+    executionResult: human(src.executionResult),
+    events: toEvents(src.emittedEvents),
+    forwarded: toForwarded(src.forwardedXcms),
+  };
+
+  // Each hop replays only the messages routed to it; a failed or unreachable hop stops the chain.
+  let prev: ChainId = req.from;
+  let forwardedXcms = source.ok ? src.forwardedXcms : [];
+  let hops: DryRunHop[] | undefined;
+
+  if (via) {
+    hops = [];
+    const toVia = forwardedXcms.filter((f) => isLocationOf(f.destination, via, prev));
+    forwardedXcms = [];
+
+    if (viaApi && toVia.length > 0) {
+      const r = await replay(viaApi, locationOf(prev, via), toVia);
+      hops.push({
+        chain: via,
+        ok: !r.error,
+        error: r.error,
+        executionResult: r.executionResult,
+        events: toEvents(r.events),
+        forwarded: toForwarded(r.forwardedXcms),
+      });
+      if (!r.error) forwardedXcms = r.forwardedXcms;
+    }
+    prev = via;
+  }
+
+  let destination: XcmDryRun["destination"];
+  const toDest = forwardedXcms.filter((f) => isLocationOf(f.destination, req.to, prev));
+
+  if (destApi && toDest.length > 0) {
+    const r = await replay(destApi, locationOf(prev, req.to), toDest);
+    destination = {
+      ok: !r.error,
+      error: r.error,
+      executionResult: r.executionResult,
+      events: toEvents(r.events),
+      credit: findCredit(r.events, beneficiary),
+    };
+  }
+
+  return {
+    mode: "dry-run",
+    from: req.from,
+    to: req.to,
+    asset: req.asset,
+    amount: req.amount,
+    route: routeLabel(req),
+    fees,
+    xcmVersion,
+    verdict: dryRunVerdict(source, destination, hops),
+    call,
+    source,
+    hops,
+    destination,
+  };
+}
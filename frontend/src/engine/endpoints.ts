@@ -0,0 +1,84 @@
+// Endpoints: registry defaults (chains/) merged with the user's saved settings.
+// Shared by the dApp and the CLI (which always runs on the defaults).
+import { WsProvider } from "@polkadot/api";
+
+import { CHAINS, chainInfo } from "../../../chains";
+import { defaultChainSettings, enabledRpcs, mergeChainSettings } from "../../../chains/settings";
+import type { ChainSettings } from "../../../chains/settings";
+import { withTimeout } from "../../../xcm-engine/transfer";
+import type { ChainId, ProbeConfig } from "./balances";
+
+// ---- probe config ----
+export const PROBE_CFG: ProbeConfig = {
+  assetHub: { usdcAssetId: 1337, usdtAssetId: 1984 },
+  hydra: { usdcAssetId: 22, usdtAssetId: 10, dotAssetId: 5, hdxSymbol: "HDX" },
+};
+
+// ---- RPC lists ----
+
+export type EndpointMap = Record<ChainId, { rpcs: string[] }>;
+
+export function endpointsFromSettings(settings: ChainSettings): EndpointMap {
+  const rpcs = enabledRpcs(settings);
+  const out = {} as EndpointMap;
+  for (const c of CHAINS) out[c.key] = { rpcs: rpcs[c.key] };
+  return out;
+}
+
+export const RPCS_BY_CHAIN: EndpointMap = endpointsFromSettings(defaultChainSettings());
+
+// ---- persisted settings ----
+
+const SETTINGS_KEY = "xcm_crosspay_chain_settings_v1";
+
+type KeyValueStore = { getItem(key: string): string | null; setItem(key: string, value: string): void };
+
+export function loadChainSettings(storage: KeyValueStore): ChainSettings {
+  try {
+    const raw = storage.getItem(SETTINGS_KEY);
+    return mergeChainSettings(raw ? JSON.parse(raw) : undefined);
+  } catch {
+    // unreadable settings fall back to the defaults
+    return defaultChainSettings();
+  }
+}
+
+export function saveChainSettings(storage: KeyValueStore, settings: ChainSettings) {
+  storage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+}
+
+// ---- endpoint test ----
+
+export type EndpointTest = {
+  ok: boolean;
+  latencyMs?: number;   // round trip of the two RPC calls below
+  chainName?: string;   // system_chain
+  wrongChain?: boolean; // genesis hash differs from the registry
+  error?: string;
+};
+
+// Raw JSON-RPC only (no metadata download): reachability, latency and genesis check.
+export async function testEndpoint(chain: ChainId, url: string, timeoutMs = 8000): Promise<EndpointTest> {
+  const provider = new WsProvider(url, false);
+  try {
+    await provider.connect();
+    await withTimeout(provider.isReady, timeoutMs);
+
+    const t0 = Date.now();
+    const [chainName, genesis] = await withTimeout(
+      Promise.all([
+        provider.send<string>("system_chain", []),
+        provider.send<string>("chain_getBlockHash", [0]),
+      ]),
+      timeoutMs
+    );
+    const latencyMs = Date.now() - t0;
+
+    const wrongChain = genesis.toLowerCase() !== chainInfo(chain).genesisHash;
+    return { ok: !wrongChain, latencyMs, chainName, wrongChain };
+  } catch (e) {
+    return { ok: false, error: e instanceof Error ? e.message : String(e) };
+  } finally {
+    provider.disconnect().catch(() => {});
+  }
+}
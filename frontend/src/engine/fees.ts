@@ -0,0 +1,232 @@
+// Runtime-backed network fee estimation.
+//
+// Legs:
+// - source_extrinsic:      tx.paymentInfo on the source chain (native asset)
+// - local_execution:       XcmPaymentApi weight of the local XCM (already inside the extrinsic weight)
+// - delivery:              XcmPaymentApi delivery fees for each forwarded message (per hop)
+// - intermediate_execution: multi-hop routes: XcmPaymentApi weight of the forwarded XCM on the chain
+//                          it passes through, whose own forwarded message is found with DryRunApi.dry_run_xcm
+// - destination_execution: XcmPaymentApi weight of the forwarded XCM, priced on the destination
+import type { ApiPromise } from "@polkadot/api";
+import type { SubmittableExtrinsic } from "@polkadot/api/types";
+
+import { formatUnits } from "../../../xcm-engine/amount";
+import type { FeeLeg } from "../../../xcm-engine/types";
+import type { RouteAsset } from "../../../xcm-engine/capabilities";
+import { HERE, PARENT, encodeLocation } from "../../../xcm-engine/location";
+import type { LocationV4 } from "../../../xcm-engine/location";
+import type { ChainId } from "./balances";
+import {
+  dryRunCall,
+  dryRunXcm,
+  isLocationOf,
+  locationOf,
+  queryDeliveryFees,
+  queryWeightToAssetFee,
+  queryXcmWeight,
+} from "./runtimeApis";
+import type { ForwardedXcms, LocationJson } from "./runtimeApis";
+
+// -------- Types --------
+
+export type FeeAssetRef = {
+  symbol: string;
+  decimals: number;
+  location: LocationV4; // as seen from the chain that charges the fee
+};
+
+export type NetworkFeeInput = {
+  from: ChainId;
+  to: ChainId;
+  srcApi: ApiPromise;
+  destApi?: ApiPromise; // without it the destination leg is reported as not quoted
+  tx: SubmittableExtrinsic<"promise">;
+  address: string;
+
+  // Asset that pays BuyExecution on the destination (as seen from the destination)
+  destFeeAsset: FeeAssetRef;
+
+  // Multi-hop routes: the chain the XCM passes through (pays in its native DOT) and its connection
+  via?: ChainId;
+  viaApi?: ApiPromise;
+};
+
+// -------- Native assets --------
+
+export const NATIVE_FEE_ASSET: Record<ChainId, FeeAssetRef> = {
+  assethub: { symbol: "DOT", decimals: 10, location: encodeLocation(PARENT, "V4") },
+  people: { symbol: "DOT", decimals: 10, location: encodeLocation(PARENT, "V4") },
+  relay: { symbol: "DOT", decimals: 10, location: encodeLocation(HERE, "V4") },
+  hydradx: { symbol: "HDX", decimals: 12, location: encodeLocation(HERE, "V4") },
+};
+
+// Asset paying BuyExecution on the destination, as seen from the destination
+export function destFeeAssetFor(asset: RouteAsset): FeeAssetRef {
+  return {
+    symbol: asset.symbol,
+    decimals: asset.decimals,
+    location: encodeLocation(asset.destLocation, "V4"),
+  };
+}
+
+function errMsg(e: unknown): string {
+  return e instanceof Error ? e.message : String(e);
+}
+
+// Delivery fees are quoted by location; on Polkadot they are always DOT.
+function deliverySymbol(loc: LocationJson | undefined, chain: ChainId): string {
+  const parents = Number(loc?.parents ?? -1);
+  const here = typeof loc?.interior === "string" || "here" in (loc?.interior ?? {});
+  if (here && parents === (chain === "relay" ? 0 : 1)) return "DOT";
+  return NATIVE_FEE_ASSET[chain].symbol;
+}
+
+// One delivery leg per message `chain` forwards
+async function deliveryLegs(api: ApiPromise, chain: ChainId, forwardedXcms: ForwardedXcms): Promise<FeeLeg[]> {
+  const native = NATIVE_FEE_ASSET[chain];
+  const legs: FeeLeg[] = [];
+  for (const fwd of forwardedXcms) {
+    for (const msg of fwd.messages) {
+      try {
+        const fees = await queryDeliveryFees(api, fwd.destination, msg);
+        for (const f of fees) {
+          const symbol = deliverySymbol(f.location, chain);
+          const decimals = symbol === "DOT" ? 10 : native.decimals;
+          legs.push({
+            kind: "delivery",
+            chain,
+            asset: symbol,
+            amount: formatUnits(f.amount, decimals),
+            inTotal: true,
+          });
+        }
+      } catch (e) {
+        legs.push({ kind: "delivery", chain, asset: "DOT", inTotal: true, note: errMsg(e) });
+      }
+    }
+  }
+  return legs;
+}
+
+// -------- Public API --------
+
+export async function estimateNetworkFees(input: NetworkFeeInput): Promise<FeeLeg[]> {
+  const { from, to, srcApi, destApi, tx, address, destFeeAsset, via, viaApi } = input;
+  const native = NATIVE_FEE_ASSET[from];
+  const legs: FeeLeg[] = [];
+
+  // 1) Source extrinsic fee
+  try {
+    const info = await tx.paymentInfo(address);
+    legs.push({
+      kind: "source_extrinsic",
+      chain: from,
+      asset: native.symbol,
+      amount: formatUnits(info.partialFee.toBigInt(), native.decimals),
+      inTotal: true,
+    });
+  } catch (e) {
+    legs.push({ kind: "source_extrinsic", chain: from, asset: native.symbol, inTotal: true, note: errMsg(e) });
+  }
+
+  // The local program and forwarded messages are only known after a dry run.
+  let effects;
+  try {
+    effects = await dryRunCall(srcApi, address, tx);
+  } catch (e) {
+    const note = `Not quoted: ${errMsg(e)}`;
+    legs.push({ kind: "delivery", chain: from, asset: "DOT", inTotal: true, note });
+    legs.push({ kind: "destination_execution", chain: to, asset: destFeeAsset.symbol, inTotal: true, note });
+    return legs;
+  }
+
+  // 2) Local execution
+  if (effects.localXcm) {
+    try {
+      const weight = await queryXcmWeight(srcApi, effects.localXcm);
+      const fee = await queryWeightToAssetFee(srcApi, weight, native.location);
+      legs.push({
+        kind: "local_execution",
+        chain: from,
+        asset: native.symbol,
+        amount: formatUnits(fee, native.decimals),
+        inTotal: false,
+        note: "Charged through the extrinsic weight (included in the source fee).",
+      });
+    } catch (e) {
+      legs.push({ kind: "local_execution", chain: from, asset: native.symbol, inTotal: false, note: errMsg(e) });
+    }
+  }
+
+  // 3) Delivery, one leg per forwarded message
+  legs.push(...(await deliveryLegs(srcApi, from, effects.forwardedXcms)));
+
+  // 4) Multi-hop: the message to the intermediate chain is priced there in DOT and replayed
+  //    to find what it forwards to the destination (and that message's delivery fee)
+  let prev: ChainId = from;
+  let forwardedXcms = effects.forwardedXcms;
+  let viaNote: string | undefined;
+
+  if (via) {
+    const viaNative = NATIVE_FEE_ASSET[via];
+    const toVia = forwardedXcms.find((f) => isLocationOf(f.destination, via, from));
+    const viaLeg: FeeLeg = { kind: "intermediate_execution", chain: via, asset: viaNative.symbol, inTotal: true };
+    forwardedXcms = [];
+
+    if (!viaApi) {
+      viaNote = `Not quoted: ${via} not connected.`;
+    } else if (!toVia || toVia.messages.length === 0) {
+      viaNote = `Not quoted: dry run produced no message for ${via}.`;
+    } else {
+      try {
+        const weight = await queryXcmWeight(viaApi, toVia.messages[0]);
+        const fee = await queryWeightToAssetFee(viaApi, weight, viaNative.location);
+        viaLeg.amount = formatUnits(fee, viaNative.decimals);
+        viaLeg.note = `Deducted from the transferred amount on ${via}.`;
+      } catch (e) {
+        viaLeg.note = `Not quoted: ${errMsg(e)}`;
+      }
+      try {
+        forwardedXcms = (await dryRunXcm(viaApi, locationOf(from, via), toVia.messages[0])).forwardedXcms;
+      } catch (e) {
+        viaNote = `Not quoted: ${via} dry run failed (${errMsg(e)}).`;
+      }
+    }
+    viaLeg.note = viaLeg.note ?? viaNote;
+    legs.push(viaLeg);
+    if (viaApi) legs.push(...(await deliveryLegs(viaApi, via, forwardedXcms)));
+    prev = via;
+  }
+
+  // 5) Destination execution, priced in the asset that pays BuyExecution there
+  const toDest =
+    forwardedXcms.find((f) => isLocationOf(f.destination, to, prev)) ??
+    (forwardedXcms.length === 1 ? forwardedXcms[0] : undefined);
+
+  const destLeg: FeeLeg = {
+    kind: "destination_execution",
+    chain: to,
+    asset: destFeeAsset.symbol,
+    inTotal: true,
+  };
+
+  if (!destApi) {
+    destLeg.note = "Not quoted: destination chain not connected.";
+  } else if (viaNote) {
+    destLeg.note = viaNote;
+  } else if (!toDest || toDest.messages.length === 0) {
+    destLeg.note = "Not quoted: dry run produced no message for the destination.";
+  } else {
+    try {
+      const weight = await queryXcmWeight(destApi, toDest.messages[0]);
+      const fee = await queryWeightToAssetFee(destApi, weight, destFeeAsset.location);
+      destLeg.amount = formatUnits(fee, destFeeAsset.decimals);
+      destLeg.note = "Deducted from the transferred amount on arrival.";
+    } catch (e) {
+      destLeg.note = `Not quoted: ${errMsg(e)}`;
+    }
+  }
+  legs.push(destLeg);
+
+  return legs;
+}
@@ -0,0 +1,53 @@
+// IndexedDB store for the transfer history (survives tab close, stays in this browser).
+import type { TransferRecord } from "../../../xcm-engine/history";
+
+const DB_NAME = "xcm-crosspay";
+const DB_VERSION = 1;
+const STORE = "transfers";
+
+// -------- Helpers --------
+
+let dbPromise: Promise<IDBDatabase> | undefined;
+
+function openDb(): Promise<IDBDatabase> {
+  dbPromise ??= new Promise((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => {
+      const store = req.result.createObjectStore(STORE, { keyPath: "id" });
+      store.createIndex("account", "account");
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => {
+      dbPromise = undefined;
+      reject(req.error ?? new Error("IndexedDB unavailable"));
+    };
+  });
+  return dbPromise;
+}
+
+function done<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error ?? new Error("IndexedDB request failed"));
+  });
+}
+
+// -------- Public API --------
+
+export function newRecordId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+// Insert or replace (records are re-saved as the transfer progresses)
+export async function saveTransfer(record: TransferRecord): Promise<void> {
+  const db = await openDb();
+  await done(db.transaction(STORE, "readwrite").objectStore(STORE).put(record));
+}
+
+// Newest first
+export async function listTransfers(account: string): Promise<TransferRecord[]> {
+  const db = await openDb();
+  const index = db.transaction(STORE, "readonly").objectStore(STORE).index("account");
+  const rows = await done(index.getAll(account) as IDBRequest<TransferRecord[]>);
+  return rows.sort((a, b) => b.createdAt - a.createdAt);
+}
@@ -0,0 +1,83 @@
+// Source balances for the keep-alive guard (xcm-engine/keepAlive.ts): free, frozen and ED of the
+// native token, and balance plus min balance of the transferred asset, in smallest units.
+import type { ApiPromise } from "@polkadot/api";
+import type { Option } from "@polkadot/types";
+import type { Codec } from "@polkadot/types/types";
+
+import { feePayingAsset } from "../../../xcm-engine/capabilities";
+import type { FeeAssetChoice, RouteAsset, RouteDescriptor } from "../../../xcm-engine/capabilities";
+import type { SourceHolding, SourceHoldings } from "../../../xcm-engine/keepAlive";
+
+// Minimal shapes of the storage values read here; older runtimes split `frozen` in two
+type AccountData = Codec & {
+  data: { free: Codec; reserved: Codec; frozen?: Codec; miscFrozen?: Codec; feeFrozen?: Codec };
+};
+type AssetAccount = Option<Codec & { balance: Codec; status?: Codec & { isFrozen?: boolean; isBlocked?: boolean } }>;
+type AssetDetails = Option<Codec & { minBalance: Codec }>;
+type TokensAccount = Codec & { free?: Codec; frozen?: Codec };
+type RegistryAsset = Option<Codec & { existentialDeposit?: Codec }>;
+
+const big = (c: Codec | undefined): bigint => BigInt(c?.toString() ?? "0");
+
+async function nativeHolding(api: ApiPromise, address: string): Promise<SourceHolding> {
+  const { data } = (await api.query.system.account(address)) as AccountData;
+  const frozenTotal = data.frozen ? big(data.frozen) : [big(data.miscFrozen), big(data.feeFrozen)].reduce((a, b) => (a > b ? a : b));
+  // reserves count towards locks: only what they do not cover is untouchable
+  const frozen = frozenTotal - big(data.reserved);
+  return {
+    symbol: api.registry.chainTokens[0] ?? "DOT",
+    decimals: api.registry.chainDecimals[0] ?? 10,
+    native: true,
+    balance: big(data.free),
+    frozen: frozen > 0n ? frozen : 0n,
+    minBalance: big(api.consts.balances?.existentialDeposit),
+  };
+}
+
+async function assetHolding(api: ApiPromise, address: string, asset: RouteAsset): Promise<SourceHolding> {
+  const q = asset.decimalsQuery;
+  if (!q) throw new Error(`${asset.label} is not a pallet asset.`);
+  const base = { symbol: asset.symbol, decimals: asset.decimals, native: false };
+
+  if (q.pallet === "assets") {
+    const [account, details] = (await Promise.all([
+      api.query.assets.account(q.id, address),
+      api.query.assets.asset(q.id),
+    ])) as [AssetAccount, AssetDetails];
+    const acc = account.isSome ? account.unwrap() : undefined;
+    const balance = big(acc?.balance);
+    const frozen = acc?.status?.isFrozen || acc?.status?.isBlocked ? balance : 0n;
+    return { ...base, balance, frozen, minBalance: details.isSome ? big(details.unwrap().minBalance) : 0n };
+  }
+
+  // Hydra: orml tokens, min balance in the asset registry
+  const [account, registered] = (await Promise.all([
+    api.query.tokens.accounts(address, q.id),
+    api.query.assetRegistry.assets(q.id),
+  ])) as [TokensAccount, RegistryAsset];
+  return {
+    ...base,
+    balance: big(account.free),
+    frozen: big(account.frozen),
+    minBalance: registered.isSome ? big(registered.unwrap().existentialDeposit) : 0n,
+  };
+}
+
+// `address` is the account the transfer is dispatched from (the proxied / multisig one)
+export async function fetchSourceHoldings(
+  api: ApiPromise,
+  address: string,
+  route: RouteDescriptor,
+  asset: RouteAsset,
+  feeAsset?: FeeAssetChoice
+): Promise<SourceHoldings> {
+  const native = await nativeHolding(api, address);
+  const payer = feePayingAsset(route, asset, feeAsset);
+  const separateFees = payer.key !== asset.key && !!payer.decimalsQuery;
+  return {
+    chain: route.from,
+    native,
+    asset: asset.decimalsQuery ? await assetHolding(api, address, asset) : native,
+    feeAsset: separateFees ? await assetHolding(api, address, payer) : undefined,
+  };
+}
@@ -0,0 +1,212 @@
+// Proxy and multisig origins: multisig account derivation, proxy checks and pending operations read
+// from chain, wrapping of a built transfer (xcm-engine/origin.ts), and the persisted "Submit as" setting.
+import type { ApiPromise } from "@polkadot/api";
+import type { SubmittableExtrinsic } from "@polkadot/api/types";
+import type { Option, Vec } from "@polkadot/types";
+import type { Codec, ITuple } from "@polkadot/types/types";
+import { u8aEq } from "@polkadot/util";
+import { blake2AsHex, createKeyMulti, encodeAddress, sortAddresses } from "@polkadot/util-crypto";
+
+import { checkProxy, isDirect, multisigStep, validateOrigin, wrapMultisig, wrapProxy } from "../../../xcm-engine/origin";
+import type {
+  MultisigSetting,
+  MultisigStep,
+  OriginSetting,
+  PendingMultisig,
+  ProxyDefinition,
+} from "../../../xcm-engine/origin";
+
+import { parseAccountId } from "./addressBook";
+
+type Tx = SubmittableExtrinsic<"promise">;
+
+export type WrappedTransfer = {
+  tx: Tx;             // what the signer signs
+  call: Tx;           // the transfer as the multisig dispatches it (proxy wrapper included)
+  origin: string;     // account the XCM is dispatched from
+  multisig?: {
+    account: string;
+    callHash: string;
+    callData: string; // co-signers paste it to execute the last approval
+    step: MultisigStep;
+  };
+};
+
+// -------- Accounts --------
+
+export function multisigAddress(signer: string, ms: MultisigSetting, ss58Prefix = 0): string {
+  return encodeAddress(createKeyMulti([signer, ...ms.otherSignatories], ms.threshold), ss58Prefix);
+}
+
+// Account the XCM call is dispatched from (and whose balances the guards read)
+export function originAccount(signer: string, origin: OriginSetting): string {
+  if (origin.proxy) return origin.proxy.real;
+  if (origin.multisig) return multisigAddress(signer, origin.multisig);
+  return signer;
+}
+
+// Settings errors, address checks included (the signer cannot be one of the other signatories)
+export function checkOrigin(signer: string, origin: OriginSetting): string[] {
+  const errors = validateOrigin(origin);
+  const bad = (address: string) => {
+    const parsed = parseAccountId(address);
+    return typeof parsed === "string" || parsed.length !== 32;
+  };
+  if (origin.proxy?.real.trim() && bad(origin.proxy.real)) errors.push("Proxy: the real account is not a valid address.");
+  const ms = origin.multisig;
+  if (ms) {
+    if (ms.otherSignatories.some(bad)) errors.push("Multisig: a signatory is not a valid address.");
+    else if (signer && ms.otherSignatories.some((a) => sameAccount(a, signer))) {
+      errors.push("Multisig: list the other signatories only, not your own account.");
+    }
+  }
+  return errors;
+}
+
+function sameAccount(a: string, b: string): boolean {
+  const x = parseAccountId(a);
+  const y = parseAccountId(b);
+  return typeof x !== "string" && typeof y !== "string" && u8aEq(x, y);
+}
+
+// `address` in the chain's own SS58 format, as storage returns accounts
+function chainFormat(api: ApiPromise, address: string): string {
+  return api.createType("AccountId32", address).toString();
+}
+
+// -------- Chain state --------
+
+type ProxyDefinitionCodec = Codec & { delegate: Codec; proxyType: Codec; delay: Codec };
+type MultisigCodec = Codec & {
+  when: Codec & { height: Codec; index: Codec };
+  deposit: Codec;
+  depositor: Codec;
+  approvals: Vec<Codec>;
+};
+
+export async function fetchProxies(api: ApiPromise, real: string): Promise<ProxyDefinition[]> {
+  if (!api.query.proxy?.proxies) throw new Error("The proxy pallet is not available on this chain.");
+  const [defs] = (await api.query.proxy.proxies(real)) as unknown as ITuple<[Vec<ProxyDefinitionCodec>, Codec]>;
+  return defs.map((d) => ({
+    delegate: d.delegate.toString(),
+    proxyType: d.proxyType.toString(),
+    delay: Number(d.delay.toString()),
+  }));
+}
+
+export async function fetchPendingMultisigs(api: ApiPromise, account: string): Promise<PendingMultisig[]> {
+  if (!api.query.multisig?.multisigs) throw new Error("The multisig pallet is not available on this chain.");
+  const entries = await api.query.multisig.multisigs.entries(account);
+  const out: PendingMultisig[] = [];
+  for (const [key, value] of entries) {
+    const op = value as unknown as Option<MultisigCodec>;
+    if (op.isNone) continue;
+    const m = op.unwrap();
+    out.push({
+      callHash: key.args[1].toHex(),
+      when: { height: Number(m.when.height.toString()), index: Number(m.when.index.toString()) },
+      depositor: m.depositor.toString(),
+      deposit: BigInt(m.deposit.toString()),
+      approvals: m.approvals.map((a) => a.toString()),
+    });
+  }
+  return out.sort((a, b) => a.when.height - b.when.height || a.when.index - b.when.index);
+}
+
+// -------- Wrapping --------
+
+function sortedSetting(api: ApiPromise, ms: MultisigSetting): MultisigSetting {
+  return { ...ms, otherSignatories: sortAddresses(ms.otherSignatories, api.registry.chainSS58) };
+}
+
+// Multisig approval of `call` by `signer`, given the operations already on chain
+async function approveCall(api: ApiPromise, signer: string, ms: MultisigSetting, call: Tx) {
+  const account = chainFormat(api, multisigAddress(signer, ms));
+  const callHash = call.method.hash.toHex();
+  const pending = await fetchPendingMultisigs(api, account);
+  const step = multisigStep(pending, callHash, ms.threshold, chainFormat(api, signer));
+  if (step.error) throw new Error(step.error);
+
+  // the weight the multisig dispatches the call with
+  const { weight } = await call.paymentInfo(account);
+  const tx = wrapMultisig<Tx>(api, sortedSetting(api, ms), call.method, callHash, step, weight);
+  return { tx, multisig: { account, callHash, callData: call.method.toHex(), step } };
+}
+
+// The transaction `signer` submits for the unsigned transfer `tx` under `origin`
+export async function wrapForOrigin(
+  api: ApiPromise,
+  tx: Tx,
+  signer: string,
+  origin: OriginSetting
+): Promise<WrappedTransfer> {
+  if (isDirect(origin)) return { tx, call: tx, origin: signer };
+
+  const ms = origin.multisig;
+  let call = tx;
+  if (origin.proxy) {
+    // the proxy's delegate is the multisig when both are set
+    const delegate = chainFormat(api, ms ? multisigAddress(signer, ms) : signer);
+    const err = checkProxy(await fetchProxies(api, origin.proxy.real), delegate, origin.proxy.proxyType);
+    if (err) throw new Error(err);
+    call = wrapProxy<Tx>(api, origin.proxy, tx.method);
+  }
+
+  const from = chainFormat(api, originAccount(signer, origin));
+  if (!ms) return { tx: call, call, origin: from };
+  return { ...(await approveCall(api, signer, ms, call)), call, origin: from };
+}
+
+// Approval of an operation someone else opened; the last one needs the call data to execute it
+export async function approvePending(
+  api: ApiPromise,
+  signer: string,
+  ms: MultisigSetting,
+  op: PendingMultisig,
+  callData?: string
+): Promise<{ tx: Tx; step: MultisigStep }> {
+  const step = multisigStep([op], op.callHash, ms.threshold, chainFormat(api, signer));
+  if (step.error) throw new Error(step.error);
+  const account = chainFormat(api, multisigAddress(signer, ms));
+  const setting = sortedSetting(api, ms);
+
+  if (!step.final) {
+    // approveAsMulti ignores max_weight
+    const tx = wrapMultisig<Tx>(api, setting, undefined, op.callHash, step, { refTime: 0, proofSize: 0 });
+    return { tx, step };
+  }
+
+  const data = callData?.trim();
+  if (!data) throw new Error("The last approval executes the call: paste its call data.");
+  if (blake2AsHex(data) !== op.callHash) throw new Error("The call data does not match the operation's call hash.");
+  const call = api.tx(api.createType("Call", data));
+  const { weight } = await call.paymentInfo(account);
+  return { tx: wrapMultisig<Tx>(api, setting, call.method, op.callHash, step, weight), step };
+}
+
+// -------- Persistence --------
+
+const ORIGIN_KEY = "xcm_crosspay_origin_v1";
+
+type KeyValueStore = { getItem(key: string): string | null; setItem(key: string, value: string): void };
+
+export function loadOrigin(storage: KeyValueStore): OriginSetting {
+  try {
+    const raw = storage.getItem(ORIGIN_KEY);
+    const parsed: unknown = raw ? JSON.parse(raw) : {};
+    if (!parsed || typeof parsed !== "object") return {};
+    const { proxy, multisig } = parsed as OriginSetting;
+    return {
+      proxy: typeof proxy?.real === "string" ? proxy : undefined,
+      multisig:
+        typeof multisig?.threshold === "number" && Array.isArray(multisig.otherSignatories) ? multisig : undefined,
+    };
+  } catch {
+    // unreadable: submit directly
+    return {};
+  }
+}
+
+export function saveOrigin(storage: KeyValueStore, origin: OriginSetting) {
+  storage.setItem(ORIGIN_KEY, JSON.stringify(origin));
+}
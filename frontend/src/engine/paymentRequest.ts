@@ -0,0 +1,93 @@
+// Payment-request links on the crypto side: beneficiary check, signing by the payee's wallet,
+// signature verification and QR codes (the link format lives in xcm-engine/paymentRequest.ts).
+import type { Signer } from "@polkadot/api/types";
+import { stringToU8a, u8aToHex, u8aWrapBytes } from "@polkadot/util";
+import { cryptoWaitReady, signatureVerify } from "@polkadot/util-crypto";
+import QRCode from "qrcode";
+
+import { CAPABILITIES } from "../../../xcm-engine/capabilities";
+import { parsePaymentRequest, paymentRequestMessage, paymentRequestSources } from "../../../xcm-engine/paymentRequest";
+import type { PaymentRequest } from "../../../xcm-engine/paymentRequest";
+import type { ChainKey } from "../../../xcm-engine/types";
+
+import { isEvmAddress, parseAccountId } from "./addressBook";
+
+export type SignatureStatus = "unsigned" | "valid" | "invalid";
+
+export type IncomingPaymentRequest = {
+  request?: PaymentRequest;
+  errors: string[];
+  signature: SignatureStatus;
+  sources: ChainKey[]; // chains the payer can send from, first one preselected
+};
+
+// -------- Signature --------
+
+export async function verifyPaymentRequest(pr: PaymentRequest): Promise<SignatureStatus> {
+  if (!pr.signature) return "unsigned";
+  await cryptoWaitReady();
+  const message = stringToU8a(paymentRequestMessage(pr));
+  try {
+    // wallet extensions sign the message wrapped in <Bytes>…</Bytes>
+    const ok = [message, u8aWrapBytes(message)].some((m) => signatureVerify(m, pr.signature ?? "", pr.beneficiary).isValid);
+    return ok ? "valid" : "invalid";
+  } catch {
+    return "invalid";
+  }
+}
+
+// Request signed by its beneficiary, `address` being that account in the wallet
+export async function signPaymentRequest(pr: PaymentRequest, address: string, signer: Signer): Promise<PaymentRequest> {
+  if (!signer.signRaw) throw new Error("The wallet cannot sign messages.");
+  const unsigned = { ...pr, signature: undefined };
+  const { signature } = await signer.signRaw({
+    address,
+    data: u8aToHex(stringToU8a(paymentRequestMessage(unsigned))),
+    type: "bytes",
+  });
+  return { ...unsigned, signature };
+}
+
+// -------- Reading a link --------
+
+// Request of a link's query, with the checks the pure parser leaves out: the beneficiary address,
+// the routes accepting it (EVM beneficiaries), and the signature, which must verify when present.
+export async function readPaymentRequest(search: string): Promise<IncomingPaymentRequest> {
+  const { request, errors } = parsePaymentRequest(search);
+  if (!request) return { errors, signature: "unsigned", sources: [] };
+
+  const parsed = parseAccountId(request.beneficiary);
+  if (typeof parsed === "string") return { errors: [`Beneficiary: ${parsed}`], signature: "unsigned", sources: [] };
+
+  let sources = paymentRequestSources(request);
+  if (isEvmAddress(request.beneficiary)) {
+    sources = sources.filter((from) =>
+      CAPABILITIES.some((r) => r.from === from && r.to === request.to && r.evmBeneficiary)
+    );
+    if (!sources.length) {
+      return { errors: ["EVM (H160) beneficiaries are not accepted on this route."], signature: "unsigned", sources };
+    }
+  }
+
+  const signature = await verifyPaymentRequest(request);
+  if (signature === "invalid") {
+    return {
+      errors: ["The signature does not match the request: the link was altered or not signed by the beneficiary."],
+      signature,
+      sources,
+    };
+  }
+  return { request, errors: [], signature, sources };
+}
+
+// -------- QR --------
+
+// Image of the link (data: URL), for the payer's phone wallet or camera
+export function paymentRequestQr(url: string): Promise<string> {
+  return QRCode.toDataURL(url, { margin: 1, width: 220, errorCorrectionLevel: "M" });
+}
+
+// Same code as text, for terminals
+export function paymentRequestQrText(url: string): Promise<string> {
+  return QRCode.toString(url, { type: "terminal", small: true });
+}
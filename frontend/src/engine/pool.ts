@@ -0,0 +1,246 @@
+// Shared, long-lived connections: one ApiPromise per chain, reused by probes,
+// fee estimation, dry runs, submission and delivery tracking.
+// Dropped sockets are reconnected with backoff; every endpoint keeps latency/failure stats.
+import { ApiPromise, WsProvider } from "@polkadot/api";
+
+import { chainInfo } from "../../../chains";
+import { withTimeout } from "../../../xcm-engine/transfer";
+import type { TransferLogger } from "../../../xcm-engine/transfer";
+import type { ChainId } from "./balances";
+
+export type EndpointStats = {
+  chain: ChainId;
+  rpc: string;
+  connects: number;
+  failures: number;
+  consecutiveFailures: number;
+  lastLatencyMs?: number;  // socket open + metadata, last successful connect
+  avgLatencyMs?: number;
+  lastError?: string;
+  lastOkTs?: number;
+  active: boolean;         // the pool's current connection for its chain
+};
+
+export type PoolOptions = {
+  endpoints: Record<ChainId, { rpcs: string[] }>; // in order of preference
+  timeoutMs?: number; // per endpoint attempt, default 8000
+};
+
+export type ConnectionPool = {
+  // Live connection for `chain` (connects on first use, waits for a reconnect in progress)
+  get(chain: ChainId, log?: TransferLogger): Promise<{ api: ApiPromise; rpc: string }>;
+  // New endpoint lists (settings changed): connections to endpoints no longer listed are closed
+  setEndpoints(endpoints: PoolOptions["endpoints"]): void;
+  stats(): EndpointStats[];
+  onStats(cb: () => void): () => void;
+  disconnectAll(): Promise<void>;
+};
+
+// Rounds over the whole endpoint list after a drop, then the pool gives up until the next get()
+const BACKOFF_MS = [1000, 2000, 4000, 8000, 16000];
+
+type Entry = {
+  conn?: { api: ApiPromise; rpc: string };
+  pending?: Promise<{ api: ApiPromise; rpc: string }>;
+};
+
+// -------- Helpers --------
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function errorMessage(e: unknown): string {
+  return e instanceof Error ? e.message : String(e);
+}
+
+// -------- Pool --------
+
+export function createConnectionPool(opts: PoolOptions): ConnectionPool {
+  const timeoutMs = opts.timeoutMs ?? 8000;
+  let endpoints = opts.endpoints;
+  const entries = new Map<ChainId, Entry>();
+  const stats = new Map<string, EndpointStats>();
+  const listeners = new Set<() => void>();
+  let closed = false;
+
+  const emit = () => listeners.forEach((cb) => cb());
+
+  function statFor(chain: ChainId, rpc: string): EndpointStats {
+    const key = `${chain}|${rpc}`;
+    let s = stats.get(key);
+    if (!s) {
+      s = { chain, rpc, connects: 0, failures: 0, consecutiveFailures: 0, active: false };
+      stats.set(key, s);
+    }
+    return s;
+  }
+
+  // Configured order, endpoints currently failing last
+  function ordered(chain: ChainId): string[] {
+    return [...endpoints[chain].rpcs].sort(
+      (a, b) => Math.min(statFor(chain, a).consecutiveFailures, 1) - Math.min(statFor(chain, b).consecutiveFailures, 1)
+    );
+  }
+
+  async function connectEndpoint(chain: ChainId, rpc: string): Promise<ApiPromise> {
+    const s = statFor(chain, rpc);
+    const t0 = Date.now();
+
+    // no built-in auto-reconnect: the pool decides when and where to reconnect
+    const provider = new WsProvider(rpc, false);
+    try {
+      await provider.connect();
+      await withTimeout(provider.isReady, timeoutMs);
+      const api = await withTimeout(ApiPromise.create({ provider, noInitWarn: true }), timeoutMs);
+
+      // an endpoint serving another chain counts as failed: the next one is tried (as testEndpoint checks)
+      const genesis = api.genesisHash.toHex().toLowerCase();
+      if (genesis !== chainInfo(chain).genesisHash) {
+        throw new Error(`Wrong chain: genesis ${genesis} is not ${chainInfo(chain).name}'s`);
+      }
+
+      const ms = Date.now() - t0;
+      s.connects++;
+      s.consecutiveFailures = 0;
+      s.lastLatencyMs = ms;
+      s.avgLatencyMs = s.avgLatencyMs === undefined ? ms : Math.round(s.avgLatencyMs * 0.7 + ms * 0.3);
+      s.lastOkTs = Date.now();
+      return api;
+    } catch (e) {
+      s.failures++;
+      s.consecutiveFailures++;
+      s.lastError = errorMessage(e);
+      provider.disconnect().catch(() => {});
+      throw e;
+    } finally {
+      emit();
+    }
+  }
+
+  // One pass over the endpoint list (same log lines as connectApiWithFallback)
+  async function connectChain(chain: ChainId, log: TransferLogger): Promise<{ api: ApiPromise; rpc: string }> {
+    if (endpoints[chain].rpcs.length === 0) throw new Error(`No RPC endpoint enabled for ${chain}.`);
+    log("Connecting RPC (fallback mode)");
+    let lastErr: unknown = null;
+
+    for (const rpc of ordered(chain)) {
+      try {
+        log(`→ Trying: ${rpc}`);
+        const api = await connectEndpoint(chain, rpc);
+        log(`✅ Connected: ${rpc}`);
+        return { api, rpc };
+      } catch (e) {
+        lastErr = e;
+        log(`✗ Failed: ${rpc} (${errorMessage(e)})`);
+      }
+    }
+    throw new Error(`All RPC endpoints failed. Last error: ${errorMessage(lastErr)}`);
+  }
+
+  function adopt(chain: ChainId, entry: Entry, conn: { api: ApiPromise; rpc: string }) {
+    entry.conn = conn;
+    statFor(chain, conn.rpc).active = true;
+    emit();
+
+    conn.api.once("disconnected", () => {
+      if (entry.conn !== conn) return;
+      entry.conn = undefined;
+      statFor(chain, conn.rpc).active = false;
+      conn.api.disconnect().catch(() => {});
+      emit();
+      if (!closed) reconnect(chain, entry);
+    });
+  }
+
+  // After a drop: retry the whole list with growing pauses between rounds
+  function reconnect(chain: ChainId, entry: Entry) {
+    entry.pending = (async () => {
+      let lastErr: unknown = null;
+      for (let round = 0; round <= BACKOFF_MS.length; round++) {
+        if (round > 0) await sleep(BACKOFF_MS[round - 1]);
+        if (closed) break;
+        try {
+          const conn = await connectChain(chain, () => {});
+          adopt(chain, entry, conn);
+          return conn;
+        } catch (e) {
+          lastErr = e;
+        }
+      }
+      throw lastErr ?? new Error("Connection pool closed");
+    })().finally(() => {
+      entry.pending = undefined;
+    });
+    entry.pending.catch(() => {});
+  }
+
+  return {
+    get(chain, log = () => {}) {
+      if (closed) return Promise.reject(new Error("Connection pool closed"));
+
+      let entry = entries.get(chain);
+      if (!entry) {
+        entry = {};
+        entries.set(chain, entry);
+      }
+
+      if (entry.conn?.api.isConnected) {
+        log(`✅ Connected: ${entry.conn.rpc} (reused)`);
+        return Promise.resolve(entry.conn);
+      }
+      if (entry.conn) {
+        // dropped without a "disconnected" event
+        statFor(chain, entry.conn.rpc).active = false;
+        entry.conn.api.disconnect().catch(() => {});
+        entry.conn = undefined;
+      }
+      if (entry.pending) return entry.pending;
+
+      const e = entry;
+      e.pending = connectChain(chain, log)
+        .then((conn) => {
+          adopt(chain, e, conn);
+          return conn;
+        })
+        .finally(() => {
+          e.pending = undefined;
+        });
+      return e.pending;
+    },
+
+    setEndpoints(next) {
+      endpoints = next;
+      for (const [chain, entry] of entries) {
+        const conn = entry.conn;
+        if (!conn || next[chain].rpcs.includes(conn.rpc)) continue;
+
+        // cleared first so the "disconnected" handler does not reconnect it
+        entry.conn = undefined;
+        statFor(chain, conn.rpc).active = false;
+        conn.api.disconnect().catch(() => {});
+      }
+      emit();
+    },
+
+    stats() {
+      return [...stats.values()]
+        .filter((s) => endpoints[s.chain].rpcs.includes(s.rpc))
+        .map((s) => ({ ...s }));
+    },
+
+    onStats(cb) {
+      listeners.add(cb);
+      return () => {
+        listeners.delete(cb);
+      };
+    },
+
+    async disconnectAll() {
+      closed = true;
+      const apis = [...entries.values()].map((e) => e.conn?.api).filter((a) => a !== undefined);
+      entries.clear();
+      await Promise.all(apis.map((a) => a.disconnect().catch(() => {})));
+    },
+  };
+}
@@ -0,0 +1,216 @@
+// Thin wrappers around the XCM runtime APIs (DryRunApi, XcmPaymentApi).
+// Runtimes expose them through metadata v15, so they are reached via api.call.
+import type { ApiPromise } from "@polkadot/api";
+import type { SubmittableExtrinsic } from "@polkadot/api/types";
+import type { Option } from "@polkadot/types";
+import type { DispatchErrorModule } from "@polkadot/types/interfaces";
+import type { Codec } from "@polkadot/types/types";
+
+import { HERE, PARENT, encodeLocation, parachain } from "../../../xcm-engine/location";
+import type { LocationV4 } from "../../../xcm-engine/location";
+import type { ChainId } from "./balances";
+
+// -------- Topology --------
+
+export const PARA_ID: Partial<Record<ChainId, number>> = {
+  assethub: 1000,
+  people: 1004,
+  hydradx: 2034,
+};
+
+// Location of `target` as seen from `seenFrom`.
+export function locationOf(target: ChainId, seenFrom: ChainId): LocationV4 {
+  const parents = seenFrom === "relay" ? 0 : 1;
+  const para = PARA_ID[target];
+  if (para === undefined) return encodeLocation(parents ? PARENT : HERE, "V4");
+  return encodeLocation(parachain(para, parents), "V4");
+}
+
+// Location as codec JSON (lower-cased keys), in any XCM version
+export type LocationJson = {
+  parents?: number;
+  interior?: string | { here?: null; x1?: { parachain?: number } | Array<{ parachain?: number }> };
+};
+
+type VersionedJson<T> = { v3?: T; v4?: T; v5?: T };
+
+function unversioned<T>(json: VersionedJson<T> | null | undefined): T | undefined {
+  return json?.v5 ?? json?.v4 ?? json?.v3;
+}
+
+// Does a forwarded-message destination (codec JSON, any XCM version) point at `target`?
+export function isLocationOf(loc: Codec, target: ChainId, seenFrom: ChainId): boolean {
+  const json = loc.toJSON() as (VersionedJson<LocationJson> & LocationJson) | null;
+  const inner = unversioned(json) ?? json;
+  const parents = Number(inner?.parents ?? -1);
+  if (parents !== (seenFrom === "relay" ? 0 : 1)) return false;
+
+  const interior = inner?.interior ?? {};
+  const para = PARA_ID[target];
+  if (para === undefined) return typeof interior === "string" || "here" in interior;
+  if (typeof interior === "string") return false;
+
+  const x1 = interior.x1;
+  const j = Array.isArray(x1) ? x1[0] : x1;
+  return Number(j?.parachain ?? -1) === para;
+}
+
+// -------- Results --------
+
+// Result<T, Error> returned by the runtime APIs
+type ApiResult<T> = Codec & { isOk: boolean; isErr: boolean; asOk: T; asErr: Codec };
+
+function unwrap<T>(res: ApiResult<T>, what: string): T {
+  if (res.isErr) throw new Error(`${what} failed: ${res.asErr.toString()}`);
+  return res.asOk;
+}
+
+// A runtime API method reached through api.call; `meta.params` tells the API version
+type RuntimeCall<T> = ((...args: unknown[]) => Promise<ApiResult<T>>) & { meta?: { params?: unknown[] } };
+
+// XCM version requested for the messages returned by DryRunApi.
+export const RESULT_XCMS_VERSION = 4;
+
+// -------- DryRunApi --------
+
+export type ForwardedXcms = Array<{ destination: Codec; messages: Codec[] }>;
+
+// A frame_system event as decoded by the registry: `data` holds the fields, named by `names`
+export type RuntimeEvent = Codec & {
+  section: string;
+  method: string;
+  data: Codec & ArrayLike<Codec> & { names?: string[] | null };
+};
+
+// DispatchResult (dry_run_call) or XCM Outcome (dry_run_xcm): only the variant flags are read
+export type ExecutionResult = Codec & {
+  isErr?: boolean;
+  asErr?: Codec & { error?: DispatchError };
+  isComplete?: boolean;
+  isIncomplete?: boolean;
+  asIncomplete?: Codec & { error: Codec };
+  isError?: boolean;
+  asError?: Codec & { error?: Codec };
+};
+
+export type DispatchError = Codec & { isModule: boolean; asModule: DispatchErrorModule };
+
+export type CallDryRunEffects = {
+  executionResult: ExecutionResult;
+  emittedEvents: RuntimeEvent[];
+  localXcm?: Codec;
+  forwardedXcms: ForwardedXcms;
+};
+
+// Effects as the runtime returns them (both dry-run calls share the shape)
+type DryRunEffectsCodec = Codec & {
+  executionResult: ExecutionResult;
+  emittedEvents: Iterable<RuntimeEvent>;
+  localXcm?: Option<Codec>;
+  forwardedXcms: Iterable<[Codec, Iterable<Codec>]>;
+};
+
+type DryRunApi = {
+  dryRunCall?: RuntimeCall<DryRunEffectsCodec>;
+  dryRunXcm?: RuntimeCall<DryRunEffectsCodec>;
+};
+
+type XcmPaymentApi = {
+  queryXcmWeight: RuntimeCall<Codec>;
+  queryWeightToAssetFee: RuntimeCall<Codec>;
+  queryDeliveryFees: RuntimeCall<Codec>;
+};
+
+function forwarded(list: Iterable<[Codec, Iterable<Codec>]>): ForwardedXcms {
+  return [...list].map(([destination, messages]) => ({ destination, messages: [...messages] }));
+}
+
+export async function dryRunCall(
+  api: ApiPromise,
+  address: string,
+  tx: SubmittableExtrinsic<"promise">
+): Promise<CallDryRunEffects> {
+  const dry = api.call.dryRunApi as unknown as DryRunApi | undefined;
+  if (!dry?.dryRunCall) throw new Error("Runtime does not expose DryRunApi.");
+
+  const origin = { system: { Signed: address } };
+  // DryRunApi v2 added `result_xcms_version`; v1 runtimes take two params.
+  const withVersion = (dry.dryRunCall.meta?.params?.length ?? 3) >= 3;
+  const res = withVersion
+    ? await dry.dryRunCall(origin, tx.method, RESULT_XCMS_VERSION)
+    : await dry.dryRunCall(origin, tx.method);
+
+  const eff = unwrap(res, "dry_run_call");
+  return {
+    executionResult: eff.executionResult,
+    emittedEvents: [...eff.emittedEvents],
+    localXcm: eff.localXcm?.isSome ? eff.localXcm.unwrap() : undefined,
+    forwardedXcms: forwarded(eff.forwardedXcms),
+  };
+}
+
+export type XcmDryRunEffects = {
+  executionResult: ExecutionResult;
+  emittedEvents: RuntimeEvent[];
+  forwardedXcms: ForwardedXcms;
+};
+
+// `message` comes from another chain's registry, so it is passed as SCALE bytes.
+export async function dryRunXcm(
+  api: ApiPromise,
+  originLocation: LocationV4,
+  message: Codec
+): Promise<XcmDryRunEffects> {
+  const dry = api.call.dryRunApi as unknown as DryRunApi | undefined;
+  if (!dry?.dryRunXcm) throw new Error("Runtime does not expose DryRunApi.");
+
+  const res = await dry.dryRunXcm({ V4: originLocation }, message.toU8a());
+  const eff = unwrap(res, "dry_run_xcm");
+  return {
+    executionResult: eff.executionResult,
+    emittedEvents: [...eff.emittedEvents],
+    forwardedXcms: forwarded(eff.forwardedXcms),
+  };
+}
+
+// -------- XcmPaymentApi --------
+
+function paymentApi(api: ApiPromise): XcmPaymentApi {
+  const pay = api.call.xcmPaymentApi as unknown as XcmPaymentApi | undefined;
+  if (!pay?.queryXcmWeight) throw new Error("Runtime does not expose XcmPaymentApi.");
+  return pay;
+}
+
+export async function queryXcmWeight(api: ApiPromise, message: Codec): Promise<Codec> {
+  const res = await paymentApi(api).queryXcmWeight(message.toU8a());
+  return unwrap(res, "query_xcm_weight");
+}
+
+export async function queryWeightToAssetFee(
+  api: ApiPromise,
+  weight: Codec,
+  assetLocation: LocationV4
+): Promise<bigint> {
+  const res = await paymentApi(api).queryWeightToAssetFee(weight, { V4: assetLocation });
+  return BigInt(unwrap(res, "query_weight_to_asset_fee").toString());
+}
+
+// Assets as codec JSON: V3 wraps the location in `concrete`
+type AssetJson = { id?: LocationJson & { concrete?: LocationJson }; fun?: { fungible?: number | string } };
+
+// Delivery fees as (asset location JSON, amount) pairs, any XCM version.
+export async function queryDeliveryFees(
+  api: ApiPromise,
+  destination: Codec,
+  message: Codec
+): Promise<Array<{ location: LocationJson | undefined; amount: bigint }>> {
+  const res = await paymentApi(api).queryDeliveryFees(destination, message);
+  const json = unwrap(res, "query_delivery_fees").toJSON() as VersionedJson<AssetJson[]> | null;
+  const list = unversioned(json) ?? [];
+
+  return list.flatMap((a) =>
+    a.fun?.fungible === undefined
+      ? []
+      : [{ location: a.id?.concrete ?? a.id, amount: BigInt(a.fun.fungible) }]
+  );
+}
@@ -0,0 +1,9 @@
+// Topic id of a payment reference (see xcm-engine/topic.ts): blake2-256 of its preimage
+import { stringToU8a } from "@polkadot/util";
+import { blake2AsHex } from "@polkadot/util-crypto";
+
+import { topicPreimage } from "../../../xcm-engine/topic";
+
+export function paymentTopic(reference: string): string {
+  return blake2AsHex(stringToU8a(topicPreimage(reference)), 256);
+}
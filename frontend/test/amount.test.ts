@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+
+import { amountError, amountOf, compareAmounts, parseAmount, rescale, subAmounts } from "../../xcm-engine/amount";
+
+describe("parseAmount / amountError", () => {
+  it("parses decimals exactly into smallest units", () => {
+    expect(parseAmount("1.5", 6)).toEqual(amountOf(1_500_000n, 6));
+    expect(parseAmount("0.000001", 6)).toEqual(amountOf(1n, 6));
+    expect(parseAmount(".5", 2)).toEqual(amountOf(50n, 2));
+    expect(parseAmount("5.", 2)).toEqual(amountOf(500n, 2));
+    expect(parseAmount(" 12 ", 10)).toEqual(amountOf(120_000_000_000n, 10));
+  });
+
+  it("accepts zero: callers that need a positive amount check it", () => {
+    expect(amountError("0", 6)).toBeUndefined();
+    expect(parseAmount("0.0", 6)).toEqual(amountOf(0n, 6));
+  });
+
+  it("rejects more decimals than the asset has instead of truncating", () => {
+    expect(amountError("1.1234567", 6)).toBe("Amount has 7 decimals: this asset has 6.");
+    expect(amountError("0.12345678901", 10, "Fee")).toBe("Fee has 11 decimals: this asset has 10.");
+    expect(() => parseAmount("1.1234567", 6)).toThrow("Amount has 7 decimals: this asset has 6.");
+    expect(amountError("1.123456", 6)).toBeUndefined();
+  });
+
+  it("rejects malformed input instead of reading it as zero", () => {
+    for (const text of ["abc", "1e5", "-1", "1,5", "1.2.3", ".", "0x10", "Infinity"]) {
+      expect(amountError(text, 6)).toBe('Amount must be a plain decimal number (digits and one ".").');
+      expect(() => parseAmount(text, 6)).toThrow();
+    }
+    expect(amountError("", 6)).toBe("Amount is required.");
+    expect(amountError("   ", 6)).toBe("Amount is required.");
+  });
+});
+
+describe("rescale", () => {
+  it("adds decimals exactly", () => {
+    expect(rescale(amountOf(15n, 1), 6)).toEqual(amountOf(1_500_000n, 6));
+  });
+
+  it("drops decimals rounding down by default, or up when asked", () => {
+    expect(rescale(amountOf(1234n, 3), 1)).toEqual(amountOf(12n, 1));
+    expect(rescale(amountOf(1234n, 3), 1, "up")).toEqual(amountOf(13n, 1));
+    expect(rescale(amountOf(1200n, 3), 1, "up")).toEqual(amountOf(12n, 1));
+  });
+
+  it("rounds negative values towards the requested side", () => {
+    expect(rescale(amountOf(-1234n, 3), 1)).toEqual(amountOf(-13n, 1));
+    expect(rescale(amountOf(-1234n, 3), 1, "up")).toEqual(amountOf(-12n, 1));
+  });
+});
+
+describe("compareAmounts / subAmounts", () => {
+  it("compares values, not their decimals", () => {
+    expect(compareAmounts(amountOf(1n, 0), amountOf(10_000_000_000n, 10))).toBe(0);
+    expect(compareAmounts(amountOf(15n, 1), amountOf(1n, 0))).toBe(1);
+    expect(compareAmounts(amountOf(999_999n, 6), amountOf(1n, 0))).toBe(-1);
+  });
+
+  it("subtracts exactly on the larger decimals", () => {
+    expect(subAmounts(amountOf(1n, 0), amountOf(5n, 1))).toEqual(amountOf(5n, 1));
+    expect(subAmounts(amountOf(1n, 6), amountOf(1n, 10))).toEqual(amountOf(9_999n, 10));
+    expect(subAmounts(amountOf(5n, 1), amountOf(1n, 0))).toEqual(amountOf(-5n, 1));
+  });
+});
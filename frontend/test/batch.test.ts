@@ -0,0 +1,75 @@
+import { describe, expect, it } from "vitest";
+
+import { amountOf } from "../../xcm-engine/amount";
+import { failedPayoutsCsv, parsePayoutCsv, payoutItems, payoutTotals } from "../../xcm-engine/batch";
+
+const ALICE = "15oF4uVJwmo4TdGW7VfQxNLavjCXviqxT9S1MgbjMNHr6Sp5";
+const BOB = "14E5nqKAp3oAJcmzgZhUD2RcptBeUBScxKHgJKU4HPNcKVf3";
+
+const defaults = { from: "assethub", to: "hydradx" } as const;
+
+describe("parsePayoutCsv", () => {
+  it("reads rows in the default column order, skipping blanks and comments", () => {
+    const { rows, errors } = parsePayoutCsv(`# payroll\n${ALICE},1.5,USDC\n\n${BOB};2,USDT,hydradx,assethub\n`);
+    expect(errors).toEqual([]);
+    expect(rows).toEqual([
+      { line: 2, recipient: ALICE, amount: "1.5", asset: "USDC", to: undefined, from: undefined },
+      { line: 4, recipient: BOB, amount: "2", asset: "USDT", to: "hydradx", from: "assethub" },
+    ]);
+  });
+
+  it("follows a header's column order and keeps quoted cells whole", () => {
+    const { rows, errors } = parsePayoutCsv(`Asset,Amount,Recipient\nUSDC,"1,5",${ALICE}\n`);
+    expect(errors).toEqual([]);
+    expect(rows).toMatchObject([{ line: 2, recipient: ALICE, amount: "1,5", asset: "USDC" }]);
+  });
+
+  it("reports unknown columns, incomplete rows and empty files", () => {
+    expect(parsePayoutCsv("recipient,amount,asset,memo\n").errors).toEqual([
+      "Line 1: unknown column(s) memo.",
+    ]);
+    expect(parsePayoutCsv(`${ALICE},1.5\n`).errors).toEqual(["Line 1: recipient, amount and asset are required."]);
+    expect(parsePayoutCsv("# nothing\n\n").errors).toEqual(["The file has no payout rows."]);
+  });
+});
+
+describe("payoutItems / payoutTotals", () => {
+  const { rows } = parsePayoutCsv(
+    [`${ALICE},1.5,USDC`, `${BOB},0.25,USDC_AH`, `${ALICE},3,USDT`, `${BOB},1,USDC,moon`, `${BOB},1,DOGE`].join("\n")
+  );
+  const items = payoutItems(rows, defaults, () => []);
+
+  it("resolves assets by key or symbol and rejects unknown chains and assets", () => {
+    expect(items.map((it) => it.status)).toEqual(["ready", "ready", "ready", "invalid", "invalid"]);
+    expect(items[0].request).toEqual({ from: "assethub", to: "hydradx", asset: "USDC_AH", amount: "1.5", beneficiary: ALICE });
+    expect(items[3].errors).toEqual(['Unknown chain "moon".']);
+    expect(items[4].errors).toEqual(["DOGE cannot be sent from assethub."]);
+  });
+
+  it("keeps the rows the check rejects out of the batch", () => {
+    const checked = payoutItems(rows.slice(0, 1), defaults, () => ["Amount below the minimum."]);
+    expect(checked[0]).toMatchObject({ status: "invalid", errors: ["Amount below the minimum."] });
+  });
+
+  it("sums the ready rows per source and asset, exactly", () => {
+    expect(payoutTotals(items)).toEqual([
+      { from: "assethub", asset: "USDC_AH", amount: amountOf(1_750_000n, 6), rows: 2 },
+      { from: "assethub", asset: "USDT_AH", amount: amountOf(3_000_000n, 6), rows: 1 },
+    ]);
+  });
+
+  it("exports the failed rows in a file parsePayoutCsv reads back", () => {
+    const csv = failedPayoutsCsv(items);
+    expect(csv).toBe(
+      "recipient,amount,asset,to,from,error\n" +
+        `${BOB},1,USDC,moon,,"Unknown chain ""moon""."\n` +
+        `${BOB},1,DOGE,,,DOGE cannot be sent from assethub.\n`
+    );
+    const again = parsePayoutCsv(csv);
+    expect(again.errors).toEqual([]);
+    expect(again.rows.map((r) => [r.recipient, r.amount, r.asset, r.to])).toEqual([
+      [BOB, "1", "USDC", "moon"],
+      [BOB, "1", "DOGE", undefined],
+    ]);
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, expect, it } from "vitest";
+
+import { beneficiaryLocation, evmMappedAccountId } from "../../xcm-engine/beneficiary";
+import { findRoute } from "../../xcm-engine/capabilities";
+import type { Asset, Chain, RouteDescriptor } from "../../xcm-engine/capabilities";
+import {
+  accountLocation,
+  asset,
+  child,
+  encodeLocation,
+  parachain,
+  versionedAssets,
+  versionedLocation,
+} from "../../xcm-engine/location";
+
+const H160 = Uint8Array.from({ length: 20 }, (_, i) => i + 1);
+const ACCOUNT = new Uint8Array(32).fill(7);
+
+function route(from: Chain, to: Chain, symbol: Asset): RouteDescriptor {
+  const r = findRoute(from, to, symbol);
+  if (!r) throw new Error(`no ${symbol} route ${from} → ${to}`);
+  return r;
+}
+
+describe("encodeLocation", () => {
+  const usdc = child(parachain(1000), { PalletInstance: 50 }, { GeneralIndex: 1337 });
+
+  it("writes V3's single junction bare and V4/V5's in an array", () => {
+    expect(encodeLocation(parachain(2034), "V3")).toEqual({ parents: 1, interior: { X1: { Parachain: 2034 } } });
+    expect(encodeLocation(parachain(2034), "V4")).toEqual({ parents: 1, interior: { X1: [{ Parachain: 2034 }] } });
+    expect(encodeLocation({ parents: 1, interior: [] }, "V5")).toEqual({ parents: 1, interior: "Here" });
+  });
+
+  it("encodes longer paths and assets per version", () => {
+    const interior = { X3: [{ Parachain: 1000 }, { PalletInstance: 50 }, { GeneralIndex: 1337 }] };
+    expect(versionedLocation(usdc, "V4")).toEqual({ V4: { parents: 1, interior } });
+    expect(versionedAssets([asset(usdc, 1_500_000n)], "V3")).toEqual({
+      V3: [{ id: { Concrete: { parents: 1, interior } }, fun: { Fungible: "1500000" } }],
+    });
+  });
+
+  it("refuses more than 8 junctions", () => {
+    const deep = child(parachain(1), ...Array.from({ length: 8 }, (_, i) => ({ GeneralIndex: i })));
+    expect(() => encodeLocation(deep, "V4")).toThrow("XCM locations hold at most 8 junctions (got 9).");
+  });
+});
+
+describe("beneficiaryLocation", () => {
+  it("sends substrate accounts as AccountId32", () => {
+    expect(beneficiaryLocation(route("relay", "assethub", "DOT"), ACCOUNT)).toEqual(accountLocation(ACCOUNT));
+  });
+
+  it("maps an H160 to HydraDX's EVM account: ETH\\0 ++ h160 ++ 8 zero bytes", () => {
+    const mapped = evmMappedAccountId(H160);
+    expect([...mapped]).toEqual([0x45, 0x54, 0x48, 0x00, ...H160, 0, 0, 0, 0, 0, 0, 0, 0]);
+
+    const hydra = route("assethub", "hydradx", "USDC");
+    expect(hydra.evmBeneficiary).toBe("MappedAccountId32");
+    expect(beneficiaryLocation(hydra, H160)).toEqual(accountLocation(mapped));
+  });
+
+  it("sends an H160 as AccountKey20 when the route asks for it", () => {
+    const r = { ...route("assethub", "hydradx", "USDC"), evmBeneficiary: "AccountKey20" } as const;
+    expect(beneficiaryLocation(r, H160)).toEqual({
+      parents: 0,
+      interior: [{ AccountKey20: { network: null, key: H160 } }],
+    });
+  });
+
+  it("refuses H160s on routes without an EVM encoding, and other lengths", () => {
+    const relay = route("relay", "assethub", "DOT");
+    expect(() => beneficiaryLocation(relay, H160)).toThrow(`${relay.label} does not accept EVM (H160) beneficiaries.`);
+    expect(() => beneficiaryLocation(relay, new Uint8Array(21))).toThrow(
+      "Beneficiary must be 32 bytes (AccountId32) or 20 bytes (H160), got 21."
+    );
+    expect(() => evmMappedAccountId(ACCOUNT)).toThrow("An EVM address has 20 bytes (got 32).");
+  });
+});
@@ -0,0 +1,40 @@
+import { describe, expect, it } from "vitest";
+
+import { guardRoute } from "../../xcm-engine/guard";
+
+describe("guardRoute minimum amounts", () => {
+  it("accepts exactly the route minimum and blocks one planck below it", () => {
+    expect(guardRoute({ from: "relay", to: "assethub", asset: "DOT", amount: "0.05" }).ok).toBe(true);
+
+    const below = guardRoute({ from: "relay", to: "assethub", asset: "DOT", amount: "0.0499999999" });
+    expect(below).toMatchObject({ ok: false, hardBlock: true, reason: "Minimum DOT teleport amount is 0.05." });
+  });
+
+  it("compares stablecoin minimums in the asset's own decimals", () => {
+    expect(guardRoute({ from: "assethub", to: "hydradx", asset: "USDC", amount: "0.1" }).ok).toBe(true);
+    expect(guardRoute({ from: "assethub", to: "hydradx", asset: "USDC", amount: "0.099999" })).toMatchObject({
+      ok: false,
+      hardBlock: true,
+    });
+  });
+
+  it("blocks amounts the asset cannot represent instead of rounding them onto the minimum", () => {
+    const r = guardRoute({ from: "assethub", to: "hydradx", asset: "USDC", amount: "0.0999999" });
+    expect(r).toMatchObject({ ok: false, hardBlock: true, reason: "Amount has 7 decimals: this asset has 6." });
+  });
+
+  it("keeps the experimental route inside its range", () => {
+    const input = { from: "assethub", to: "hydradx", asset: "DOT", advancedEnabled: true } as const;
+    expect(guardRoute({ ...input, amount: "0.05" }).ok).toBe(true);
+    expect(guardRoute({ ...input, amount: "0.5" }).ok).toBe(true);
+    expect(guardRoute({ ...input, amount: "0.0499999999" })).toMatchObject({ ok: false, hardBlock: true });
+    expect(guardRoute({ ...input, amount: "0.5000000001" })).toMatchObject({ ok: false, hardBlock: true });
+  });
+
+  it("blocks zero", () => {
+    expect(guardRoute({ from: "relay", to: "assethub", asset: "DOT", amount: "0" })).toMatchObject({
+      ok: false,
+      reason: "Amount must be greater than zero.",
+    });
+  });
+});
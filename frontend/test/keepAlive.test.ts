@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+
+import { checkSourceKeepAlive, maxSendable } from "../../xcm-engine/keepAlive";
+import type { SourceHolding, SourceHoldings } from "../../xcm-engine/keepAlive";
+
+const DOT = 10_000_000_000n; // 1 DOT in planck
+const USDC = 1_000_000n;
+
+function dot(balance: bigint, frozen = 0n): SourceHolding {
+  return { symbol: "DOT", decimals: 10, native: true, balance, frozen, minBalance: DOT / 100n };
+}
+
+function usdc(balance: bigint, frozen = 0n): SourceHolding {
+  return { symbol: "USDC", decimals: 6, native: false, balance, frozen, minBalance: USDC / 100n };
+}
+
+describe("maxSendable", () => {
+  it("keeps the native ED and the fees paid in the native token", () => {
+    const native = dot(10n * DOT);
+    const holdings: SourceHoldings = { chain: "assethub", native, asset: native };
+    expect(maxSendable(holdings, {})).toBe(10n * DOT - DOT / 100n);
+    expect(maxSendable(holdings, { DOT: DOT / 50n })).toBe(10n * DOT - DOT / 100n - DOT / 50n);
+  });
+
+  it("keeps locks above the ED instead of the ED", () => {
+    const native = dot(10n * DOT, 3n * DOT);
+    expect(maxSendable({ chain: "assethub", native, asset: native }, {})).toBe(7n * DOT);
+  });
+
+  it("spends a pallet asset down to zero, minus its frozen part and its own fees", () => {
+    const holdings: SourceHoldings = { chain: "assethub", native: dot(DOT), asset: usdc(5n * USDC, USDC) };
+    expect(maxSendable(holdings, { DOT: DOT / 50n })).toBe(4n * USDC);
+    expect(maxSendable(holdings, { USDC: USDC / 10n })).toBe(4n * USDC - USDC / 10n);
+  });
+
+  it("never goes below zero", () => {
+    const native = dot(DOT / 200n);
+    expect(maxSendable({ chain: "assethub", native, asset: native }, { DOT: DOT })).toBe(0n);
+  });
+});
+
+describe("checkSourceKeepAlive", () => {
+  const holdings: SourceHoldings = { chain: "assethub", native: dot(DOT), asset: usdc(5n * USDC) };
+
+  it("notes that the fees are not estimated yet when blocking without them", () => {
+    expect(checkSourceKeepAlive(holdings, 6n * USDC, {}, false)).toEqual({
+      ok: false,
+      max: 5n * USDC,
+      reason: "At most 5 USDC can be sent from Asset Hub (fees not estimated yet).",
+    });
+    expect(checkSourceKeepAlive(holdings, 6n * USDC, {}, true).reason).toBe("At most 5 USDC can be sent from Asset Hub.");
+  });
+
+  it("still checks the min balance left behind without a fee estimate", () => {
+    expect(checkSourceKeepAlive(holdings, 5n * USDC, {}, false)).toEqual({ ok: true, max: 5n * USDC });
+    expect(checkSourceKeepAlive(holdings, 5n * USDC - USDC / 200n, {}, false)).toMatchObject({
+      ok: false,
+      reason: expect.stringContaining("This would leave 0.005 USDC on Asset Hub, below the asset's min balance (0.01 USDC)"),
+    });
+  });
+
+  it("blocks when the native token cannot pay the source fees", () => {
+    expect(checkSourceKeepAlive(holdings, USDC, { DOT: DOT }, true)).toMatchObject({
+      ok: false,
+      reason: "Not enough DOT on Asset Hub to pay ~1 DOT in fees and keep 0.01 DOT (ED / locks): 0.99 DOT spendable.",
+    });
+  });
+});
@@ -0,0 +1,99 @@
+import { Keyring } from "@polkadot/keyring";
+import { stringToU8a, u8aToHex } from "@polkadot/util";
+import { cryptoWaitReady, signatureVerify } from "@polkadot/util-crypto";
+import { beforeAll, describe, expect, it } from "vitest";
+
+import {
+  isPaymentRequestQuery,
+  parsePaymentRequest,
+  paymentRequestMessage,
+  paymentRequestQuery,
+  paymentRequestUrl,
+} from "../../xcm-engine/paymentRequest";
+import type { PaymentRequest } from "../../xcm-engine/paymentRequest";
+
+const PAYEE = "15oF4uVJwmo4TdGW7VfQxNLavjCXviqxT9S1MgbjMNHr6Sp5";
+
+const request: PaymentRequest = {
+  to: "hydradx",
+  asset: "USDC_AH",
+  amount: "12.5",
+  beneficiary: PAYEE,
+  reference: "INV 42/2026",
+};
+
+describe("payment request links", () => {
+  it("round-trips every field through the query, the reference escaped", () => {
+    const query = paymentRequestQuery({ ...request, from: "assethub", signature: "0xab" });
+    expect(isPaymentRequestQuery(query)).toBe(true);
+    expect(parsePaymentRequest(query)).toEqual({
+      request: { ...request, from: "assethub", signature: "0xab" },
+      errors: [],
+    });
+  });
+
+  it("drops the base URL's own query and hash", () => {
+    const url = paymentRequestUrl("https://pay.example/app/?tab=send#top", request);
+    expect(url.startsWith("https://pay.example/app/?pay=1&")).toBe(true);
+    expect(parsePaymentRequest(new URL(url).search).request).toEqual(request);
+  });
+
+  it("rejects other versions, missing fields and routes that do not exist", () => {
+    expect(parsePaymentRequest("pay=2&to=hydradx").errors).toEqual(['Unsupported payment request version "2".']);
+    expect(parsePaymentRequest("pay=1&to=hydradx&asset=USDC_AH").errors).toEqual([
+      "A payment request needs to, asset, amount and beneficiary.",
+    ]);
+    const pinned = paymentRequestQuery({ ...request, from: "relay" });
+    expect(parsePaymentRequest(pinned).errors).toEqual(["No supported route sends USDC_AH from relay to hydradx."]);
+  });
+
+  it("rejects a malformed amount, reference or signature", () => {
+    const errors = (pr: PaymentRequest) => parsePaymentRequest(paymentRequestQuery(pr)).errors;
+    expect(errors({ ...request, amount: "12.5.1" })).toContain("Amount must be a plain decimal number.");
+    expect(errors({ ...request, amount: "1.1234567" })).toEqual(["Amount has 7 decimals: this asset has 6."]);
+    expect(errors({ ...request, reference: "x".repeat(65) })).toEqual([
+      "The reference must be at most 64 printable characters.",
+    ]);
+    expect(errors({ ...request, signature: "signed" })).toEqual(["The signature is not hex."]);
+  });
+});
+
+describe("signed payment requests", () => {
+  let keyring: Keyring;
+
+  beforeAll(async () => {
+    await cryptoWaitReady();
+    keyring = new Keyring({ type: "sr25519", ss58Format: 0 });
+  });
+
+  // as the CLI's request command signs
+  function sign(pr: PaymentRequest): PaymentRequest {
+    const pair = keyring.addFromUri("//Alice");
+    const unsigned = { ...pr, beneficiary: pair.address, signature: undefined };
+    return { ...unsigned, signature: u8aToHex(pair.sign(stringToU8a(paymentRequestMessage(unsigned)))) };
+  }
+
+  const verifies = (pr: PaymentRequest) =>
+    signatureVerify(stringToU8a(paymentRequestMessage(pr)), pr.signature ?? "", pr.beneficiary).isValid;
+
+  it("signs every field but the signature", () => {
+    const message = paymentRequestMessage({ ...request, signature: "0xab" });
+    expect(message).toBe(
+      ["crosspay payment request v1", "to=hydradx", "asset=USDC_AH", "amount=12.5", `beneficiary=${PAYEE}`, "ref=INV 42/2026", "from="].join("\n")
+    );
+  });
+
+  it("verifies after a trip through the link", () => {
+    const signed = sign(request);
+    const { request: read } = parsePaymentRequest(paymentRequestQuery(signed));
+    expect(read).toEqual(signed);
+    expect(read && verifies(read)).toBe(true);
+  });
+
+  it("fails once any signed field is changed", () => {
+    const signed = sign(request);
+    expect(verifies({ ...signed, amount: "125" })).toBe(false);
+    expect(verifies({ ...signed, reference: undefined })).toBe(false);
+    expect(verifies({ ...signed, from: "assethub" })).toBe(false);
+  });
+});
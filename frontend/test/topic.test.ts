@@ -0,0 +1,83 @@
+import { describe, expect, it } from "vitest";
+
+import { findRoute } from "../../xcm-engine/capabilities";
+import type { Asset, Chain, RouteDescriptor } from "../../xcm-engine/capabilities";
+import {
+  MAX_REFERENCE_LENGTH,
+  paymentVerdict,
+  topicPreimage,
+  topicUnsupportedReason,
+  validateReference,
+} from "../../xcm-engine/topic";
+import type { TopicMatch } from "../../xcm-engine/topic";
+
+function route(from: Chain, to: Chain, asset: Asset): RouteDescriptor {
+  const r = findRoute(from, to, asset);
+  if (!r) throw new Error(`no ${asset} route ${from} → ${to}`);
+  return r;
+}
+
+describe("validateReference / topicPreimage", () => {
+  it("accepts printable references up to the length limit, trimmed", () => {
+    expect(validateReference("INV-2026-0042")).toBeUndefined();
+    expect(validateReference(`  ${"x".repeat(MAX_REFERENCE_LENGTH)}  `)).toBeUndefined();
+  });
+
+  it("rejects long references and control characters", () => {
+    const reason = `The reference must be at most ${MAX_REFERENCE_LENGTH} printable characters.`;
+    expect(validateReference("x".repeat(MAX_REFERENCE_LENGTH + 1))).toBe(reason);
+    expect(validateReference("INV\n42")).toBe(reason);
+    expect(validateReference("INV\u007f42")).toBe(reason);
+  });
+
+  it("derives the same preimage for references differing only by surrounding spaces", () => {
+    expect(topicPreimage(" INV-42 ")).toBe("crosspay:payment-reference:v1:INV-42");
+    expect(topicPreimage("INV-42")).not.toBe(topicPreimage("INV-43"));
+  });
+});
+
+describe("topicUnsupportedReason", () => {
+  it("accepts execute routes and typeAndThen on routes with a transfer type", () => {
+    const typed = route("assethub", "hydradx", "USDC");
+    expect(typed.transferType).toBeDefined();
+    expect(topicUnsupportedReason(typed, "typeAndThen")).toBeUndefined();
+    expect(topicUnsupportedReason({ ...typed, call: "execute" }, "transferAssets")).toBeUndefined();
+  });
+
+  it("names the method or the route that cannot carry the topic", () => {
+    const typed = route("assethub", "hydradx", "USDC");
+    expect(topicUnsupportedReason(typed, "transferAssets")).toBe(
+      "A payment reference needs the transferAssetsUsingTypeAndThen method."
+    );
+    const legacy = route("relay", "assethub", "DOT");
+    expect(topicUnsupportedReason(legacy, "transferAssets")).toBe(
+      `${legacy.label} cannot carry a payment reference (pallet-xcm writes its message).`
+    );
+  });
+});
+
+describe("paymentVerdict", () => {
+  const base = { chain: "hydradx", topic: "0x01", expected: 1000n, scanned: { from: 10, to: 20 } } as const;
+  const credit = (amount: bigint): TopicMatch => ({
+    blockNumber: 12,
+    blockHash: "0x12",
+    success: true,
+    credit: { event: "tokens.Deposited", amount: amount.toString() },
+  });
+
+  it("is paid within the tolerance and underpaid below it", () => {
+    expect(paymentVerdict({ ...base, matches: [credit(990n)] }, 0.01).status).toBe("paid");
+    expect(paymentVerdict({ ...base, matches: [credit(989n)] }, 0.01)).toMatchObject({ status: "underpaid", received: 989n });
+  });
+
+  it("explains a missing or failed message", () => {
+    expect(paymentVerdict({ ...base, matches: [] })).toMatchObject({
+      status: "not_found",
+      reason: "No message with this topic in blocks #10–#20.",
+    });
+    const failed = { blockNumber: 12, blockHash: "0x12", success: false };
+    expect(paymentVerdict({ ...base, matches: [failed] }).reason).toBe(
+      "The message with this topic failed on the destination: nothing was credited."
+    );
+  });
+});
@@ -0,0 +1,62 @@
+// xcm-engine/addressBook.ts
+//
+// Address book: labelled recipients, keyed by public key so one entry matches the account
+// in every SS58 format. Plain data plus helpers; SS58 decoding and persistence live in
+// frontend/src/engine/addressBook.ts.
+
+export type AddressBookEntry = {
+  publicKey: string;   // 0x-hex AccountId32 (or H160 of an EVM account)
+  label: string;
+  address: string;     // as entered, shown when no chain format applies
+  addedAt: number;     // Date.now()
+  lastUsedAt?: number; // last submitted transfer to it
+};
+
+const MAX_LABEL = 40;
+
+// Spoofed addresses copy the characters people check: the start and the end
+const LOOKALIKE_HEAD = 5;
+const LOOKALIKE_TAIL = 4;
+
+// -------- Entries --------
+
+export function findEntry(book: AddressBookEntry[], publicKey: string): AddressBookEntry | undefined {
+  return book.find((e) => e.publicKey === publicKey);
+}
+
+export function validateLabel(book: AddressBookEntry[], label: string, publicKey: string): string | undefined {
+  const s = label.trim();
+  if (!s) return "Label is required.";
+  if (s.length > MAX_LABEL) return `Label is longer than ${MAX_LABEL} characters.`;
+  if (book.some((e) => e.publicKey !== publicKey && e.label.toLowerCase() === s.toLowerCase())) {
+    return "Another entry already uses this label.";
+  }
+  return undefined;
+}
+
+// Adds the entry or relabels the existing one; sorted by label
+export function upsertEntry(
+  book: AddressBookEntry[],
+  entry: { publicKey: string; label: string; address: string },
+  now = Date.now()
+): AddressBookEntry[] {
+  const prev = findEntry(book, entry.publicKey);
+  const next: AddressBookEntry = { ...prev, ...entry, label: entry.label.trim(), addedAt: prev?.addedAt ?? now };
+  return [...book.filter((e) => e.publicKey !== entry.publicKey), next].sort((a, b) => a.label.localeCompare(b.label));
+}
+
+export function removeEntry(book: AddressBookEntry[], publicKey: string): AddressBookEntry[] {
+  return book.filter((e) => e.publicKey !== publicKey);
+}
+
+export function markUsed(book: AddressBookEntry[], publicKey: string, now = Date.now()): AddressBookEntry[] {
+  return book.map((e) => (e.publicKey === publicKey ? { ...e, lastUsedAt: now } : e));
+}
+
+// -------- Safety --------
+
+// Same leading and trailing characters, different address (compare both in the same SS58 format)
+export function looksAlike(a: string, b: string): boolean {
+  if (a === b) return false;
+  return a.slice(0, LOOKALIKE_HEAD) === b.slice(0, LOOKALIKE_HEAD) && a.slice(-LOOKALIKE_TAIL) === b.slice(-LOOKALIKE_TAIL);
+}
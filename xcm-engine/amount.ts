@@ -0,0 +1,102 @@
+// xcm-engine/amount.ts
+//
+// Fixed-point amounts: an integer count of the asset's smallest unit (planck) and its decimals.
+// Validation, guard, fees and probes compare and add these exactly: no float decides whether a
+// transfer is safe. Decimal strings are only for input and display.
+
+export type Amount = {
+  planck: bigint;
+  decimals: number;
+};
+
+export type Rounding = "down" | "up";
+
+export function amountOf(planck: bigint, decimals: number): Amount {
+  return { planck, decimals };
+}
+
+// -------- Parsing --------
+
+// Why `text` is not an amount of an asset with `decimals` decimals; undefined when it is.
+// Zero is a valid amount here: callers that need a positive one check it.
+export function amountError(text: string, decimals: number, label = "Amount"): string | undefined {
+  const s = (text ?? "").trim();
+  if (!s) return `${label} is required.`;
+  if (!/^\d*\.?\d*$/.test(s) || s === ".") return `${label} must be a plain decimal number (digits and one ".").`;
+  const frac = s.split(".")[1] ?? "";
+  if (frac.length > decimals) {
+    return `${label} has ${frac.length} decimals: this asset has ${decimals}.`;
+  }
+  return undefined;
+}
+
+// Throws the amountError message rather than truncating or reading garbage as zero
+export function parseAmount(text: string, decimals: number, label?: string): Amount {
+  const error = amountError(text, decimals, label);
+  if (error) throw new Error(error);
+  const [whole, frac = ""] = text.trim().split(".");
+  const planck = BigInt(whole || "0") * 10n ** BigInt(decimals) + BigInt(frac.padEnd(decimals, "0") || "0");
+  return { planck, decimals };
+}
+
+// -------- Arithmetic --------
+
+// Same value with `decimals` decimals; dropping digits rounds as asked
+export function rescale(a: Amount, decimals: number, round: Rounding = "down"): Amount {
+  if (decimals >= a.decimals) return { planck: a.planck * 10n ** BigInt(decimals - a.decimals), decimals };
+  const base = 10n ** BigInt(a.decimals - decimals);
+  let planck = a.planck / base;
+  const rest = a.planck % base;
+  if (round === "up" && rest > 0n) planck += 1n;
+  if (round === "down" && rest < 0n) planck -= 1n;
+  return { planck, decimals };
+}
+
+// Both on the larger decimals: exact
+function aligned(a: Amount, b: Amount): [bigint, bigint, number] {
+  const d = Math.max(a.decimals, b.decimals);
+  return [rescale(a, d).planck, rescale(b, d).planck, d];
+}
+
+export function compareAmounts(a: Amount, b: Amount): number {
+  const [x, y] = aligned(a, b);
+  return x < y ? -1 : x > y ? 1 : 0;
+}
+
+export function addAmounts(a: Amount, b: Amount): Amount {
+  const [x, y, decimals] = aligned(a, b);
+  return { planck: x + y, decimals };
+}
+
+export function subAmounts(a: Amount, b: Amount): Amount {
+  const [x, y, decimals] = aligned(a, b);
+  return { planck: x - y, decimals };
+}
+
+// a × numerator / denominator, rounded down (shares, basis points)
+export function mulDiv(a: Amount, numerator: bigint, denominator: bigint): Amount {
+  return { planck: (a.planck * numerator) / denominator, decimals: a.decimals };
+}
+
+// -------- Display --------
+
+// Smallest units as a decimal string: exact with trailing zeros dropped, or exactly `fixed` decimals
+export function formatUnits(value: bigint, decimals: number, fixed?: number, round: Rounding = "down"): string {
+  const a = fixed === undefined ? { planck: value, decimals } : rescale({ planck: value, decimals }, fixed, round);
+  const d = fixed ?? decimals;
+  const base = 10n ** BigInt(d);
+  const sign = a.planck < 0n ? "-" : "";
+  const abs = a.planck < 0n ? -a.planck : a.planck;
+  const digits = (abs % base).toString().padStart(d, "0");
+  const frac = fixed === undefined ? digits.replace(/0+$/, "") : digits;
+  return `${sign}${abs / base}${frac ? `.${frac}` : ""}`;
+}
+
+export function formatAmount(a: Amount, fixed?: number, round: Rounding = "down"): string {
+  return formatUnits(a.planck, a.decimals, fixed, round);
+}
+
+// JSON.stringify replacer: planck values as decimal strings (JSON has no bigint)
+export function jsonBigint(_key: string, value: unknown): unknown {
+  return typeof value === "bigint" ? value.toString() : value;
+}
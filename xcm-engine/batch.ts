@@ -0,0 +1,204 @@
+// xcm-engine/batch.ts
+//
+// Batch payouts: CSV rows (recipient, amount, asset, optional to / from) turned into transfer
+// requests, checked row by row, and grouped by source chain for one utility.batchAll each.
+// Plain data plus helpers; building, fees and tracking live in frontend/src/engine/batch.ts.
+import { addAmounts, amountOf, parseAmount } from "./amount";
+import type { Amount } from "./amount";
+import { assetDecimals, assetsFrom, findRouteByKey } from "./capabilities";
+import type { Chain } from "./capabilities";
+import type { DeliveryStatus } from "./delivery";
+import type { AssetKey, ChainKey, TransferRequest } from "./types";
+
+export type PayoutRow = {
+  line: number;        // 1-based line in the file
+  recipient: string;
+  amount: string;
+  asset: string;       // asset key (USDC_AH) or symbol offered on the source (USDC)
+  to?: string;
+  from?: string;
+};
+
+export type PayoutStatus = "invalid" | "ready" | "submitted" | DeliveryStatus;
+
+export type PayoutItem = {
+  row: PayoutRow;
+  request?: TransferRequest; // set once the row is readable
+  errors: string[];          // validation and guard; the row is left out of the batch
+  status: PayoutStatus;
+  reason?: string;           // failure / delivery reason after submitting
+  messageId?: string;        // id of its XCM message, for delivery tracking
+};
+
+export type PayoutTotal = { from: ChainKey; asset: AssetKey; amount: Amount; rows: number };
+
+// Keeps one batch inside a block's weight; larger files are split by the user
+export const MAX_BATCH_ROWS = 50;
+
+const COLUMNS = ["recipient", "amount", "asset", "to", "from"] as const;
+type Column = (typeof COLUMNS)[number];
+
+const CHAINS: readonly Chain[] = ["assethub", "hydradx", "relay", "people"];
+
+// -------- CSV --------
+
+// Cells of one CSV line (double quotes, "" escapes)
+function splitCsvLine(line: string): string[] {
+  const cells: string[] = [];
+  let cur = "";
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const c = line[i];
+    if (quoted) {
+      if (c === '"' && line[i + 1] === '"') {
+        cur += '"';
+        i++;
+      } else if (c === '"') quoted = false;
+      else cur += c;
+    } else if (c === '"') quoted = true;
+    else if (c === "," || c === ";") {
+      cells.push(cur.trim());
+      cur = "";
+    } else cur += c;
+  }
+  cells.push(cur.trim());
+  return cells;
+}
+
+// Rows of a payout file. A header naming the columns is optional; without it the order is
+// recipient, amount, asset[, to[, from]]. Blank lines and # comments are skipped.
+export function parsePayoutCsv(text: string): { rows: PayoutRow[]; errors: string[] } {
+  const rows: PayoutRow[] = [];
+  const errors: string[] = [];
+  let columns: Column[] = [...COLUMNS];
+
+  const lines = text.split(/\r?\n/);
+  lines.forEach((raw, i) => {
+    const line = raw.trim();
+    if (!line || line.startsWith("#")) return;
+    const cells = splitCsvLine(line);
+
+    const names = cells.map((c) => c.toLowerCase());
+    if (rows.length === 0 && names.includes("recipient")) {
+      const unknown = names.filter((n) => n && !(COLUMNS as readonly string[]).includes(n) && n !== "error");
+      if (unknown.length) errors.push(`Line ${i + 1}: unknown column(s) ${unknown.join(", ")}.`);
+      columns = names as Column[];
+      return;
+    }
+
+    const get = (col: Column) => {
+      const k = columns.indexOf(col);
+      return k < 0 ? undefined : cells[k] || undefined;
+    };
+    const recipient = get("recipient");
+    const amount = get("amount");
+    const asset = get("asset");
+    if (!recipient || !amount || !asset) {
+      errors.push(`Line ${i + 1}: recipient, amount and asset are required.`);
+      return;
+    }
+    rows.push({ line: i + 1, recipient, amount, asset, to: get("to"), from: get("from") });
+  });
+
+  if (!rows.length && !errors.length) errors.push("The file has no payout rows.");
+  return { rows, errors };
+}
+
+// -------- Requests --------
+
+function chainOf(value: string | undefined, fallback: ChainKey): ChainKey | undefined {
+  if (!value) return fallback;
+  const key = value.trim().toLowerCase();
+  return CHAINS.find((c) => c === key);
+}
+
+// Asset key of `asset` (key or symbol) among the assets `from` offers
+export function resolvePayoutAsset(asset: string, from: ChainKey): AssetKey | undefined {
+  const offered = assetsFrom(from);
+  const s = asset.trim().toUpperCase();
+  return (offered.find((a) => a.key === s) ?? offered.find((a) => a.symbol === s))?.key;
+}
+
+// Requests of `rows`; `check` returns the errors of one request (validateRequest, guardRoute, recipient)
+export function payoutItems(
+  rows: PayoutRow[],
+  defaults: { from: ChainKey; to: ChainKey },
+  check: (req: TransferRequest) => string[]
+): PayoutItem[] {
+  return rows.map((row) => {
+    const from = chainOf(row.from, defaults.from);
+    const to = chainOf(row.to, defaults.to);
+    if (!from || !to) return { row, errors: [`Unknown chain "${!from ? row.from : row.to}".`], status: "invalid" };
+
+    const asset = resolvePayoutAsset(row.asset, from);
+    if (!asset) return { row, errors: [`${row.asset} cannot be sent from ${from}.`], status: "invalid" };
+
+    const request: TransferRequest = { from, to, asset, amount: row.amount, beneficiary: row.recipient };
+    const errors = [...check(request)];
+    // one extrinsic per source: the XCM of a multi-hop route is not batched
+    if (findRouteByKey(from, to, asset)?.route.via) errors.push("Multi-hop routes are sent on their own, not in a batch.");
+    return { row, request, errors, status: errors.length ? "invalid" : "ready" };
+  });
+}
+
+// Rows past MAX_BATCH_ROWS for their source wait for the next batch (exported with the failed ones)
+export function capBatch(items: PayoutItem[]): PayoutItem[] {
+  const count = new Map<ChainKey, number>();
+  return items.map((it) => {
+    if (it.status !== "ready" || !it.request) return it;
+    const n = (count.get(it.request.from) ?? 0) + 1;
+    count.set(it.request.from, n);
+    if (n <= MAX_BATCH_ROWS) return it;
+    return { ...it, errors: [`Over the ${MAX_BATCH_ROWS}-row batch limit: send it in the next batch.`], status: "invalid" };
+  });
+}
+
+// Ready rows, one group per source chain (file order kept)
+export function groupBySource(items: PayoutItem[]): Array<{ from: ChainKey; items: PayoutItem[] }> {
+  const groups = new Map<ChainKey, PayoutItem[]>();
+  for (const it of items) {
+    if (it.status !== "ready" || !it.request) continue;
+    groups.set(it.request.from, [...(groups.get(it.request.from) ?? []), it]);
+  }
+  return [...groups.entries()].map(([from, list]) => ({ from, items: list }));
+}
+
+// Amount leaving each source per asset, over the ready rows (validated: their amounts parse exactly)
+export function payoutTotals(items: PayoutItem[]): PayoutTotal[] {
+  const totals = new Map<string, PayoutTotal>();
+  for (const it of items) {
+    const req = it.request;
+    if (it.status !== "ready" || !req) continue;
+    const key = `${req.from}|${req.asset}`;
+    const decimals = assetDecimals(req.asset) ?? 0;
+    const t = totals.get(key) ?? { from: req.from, asset: req.asset, amount: amountOf(0n, decimals), rows: 0 };
+    totals.set(key, { ...t, amount: addAmounts(t.amount, parseAmount(req.amount, decimals)), rows: t.rows + 1 });
+  }
+  return [...totals.values()];
+}
+
+// -------- Retry --------
+
+function csvCell(v: string | undefined): string {
+  const s = v ?? "";
+  return /[",;\n\r]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+// Rows that were left out or failed, re-importable as is (the error column is ignored).
+// Timed-out rows are not included: they may still arrive, a retry could pay twice.
+export function failedPayoutsCsv(items: PayoutItem[]): string {
+  const failed = items.filter((it) => it.status === "invalid" || it.status === "failed");
+  const rows = failed.map((it) =>
+    [
+      it.row.recipient,
+      it.row.amount,
+      it.request?.asset ?? it.row.asset,
+      it.request?.to ?? it.row.to,
+      it.request?.from ?? it.row.from,
+      it.errors.join(" ") || it.reason,
+    ]
+      .map(csvCell)
+      .join(",")
+  );
+  return ["recipient,amount,asset,to,from,error", ...rows].join("\n") + "\n";
+}
@@ -0,0 +1,38 @@
+// xcm-engine/beneficiary.ts
+//
+// Beneficiary junction of a transfer: AccountId32 for substrate accounts; for EVM (H160) accounts
+// the encoding the route declares. HydraDX's EVM maps an H160 to the AccountId32
+// "ETH\0" ++ h160 ++ [0u8; 8]: funds deposited to that account are what the 0x address holds.
+import type { RouteDescriptor } from "./capabilities";
+import { accountKey20Location, accountLocation } from "./location";
+import type { Location } from "./location";
+
+export type EvmBeneficiaryEncoding =
+  | "AccountKey20"       // AccountKey20 junction, for runtimes converting it to the mapped account
+  | "MappedAccountId32"; // AccountId32 of the mapped account (credited through AccountId32Aliases)
+
+const EVM_ACCOUNT_PREFIX = [0x45, 0x54, 0x48, 0x00]; // "ETH\0"
+
+export function isH160(account: Uint8Array): boolean {
+  return account.length === 20;
+}
+
+// AccountId32 HydraDX's EVM uses for `h160`
+export function evmMappedAccountId(h160: Uint8Array): Uint8Array {
+  if (!isH160(h160)) throw new Error(`An EVM address has 20 bytes (got ${h160.length}).`);
+  const out = new Uint8Array(32);
+  out.set(EVM_ACCOUNT_PREFIX, 0);
+  out.set(h160, EVM_ACCOUNT_PREFIX.length);
+  return out;
+}
+
+// Location deposited to on the destination, as seen from it
+export function beneficiaryLocation(route: RouteDescriptor, beneficiary: Uint8Array): Location {
+  if (beneficiary.length === 32) return accountLocation(beneficiary);
+  if (!isH160(beneficiary)) {
+    throw new Error(`Beneficiary must be 32 bytes (AccountId32) or 20 bytes (H160), got ${beneficiary.length}.`);
+  }
+  if (route.evmBeneficiary === "AccountKey20") return accountKey20Location(beneficiary);
+  if (route.evmBeneficiary === "MappedAccountId32") return accountLocation(evmMappedAccountId(beneficiary));
+  throw new Error(`${route.label} does not accept EVM (H160) beneficiaries.`);
+}
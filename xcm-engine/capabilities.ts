@@ -1,42 +1,440 @@
 // xcm-engine/capabilities.ts
+//
+// Route registry: every supported transfer is one descriptor below.
+// Guard, form options, mode labels, help text and tx building all derive from it,
+// so adding a route means adding one entry.
+import type { AssetKey } from "./types";
+import type { EvmBeneficiaryEncoding } from "./beneficiary";
+import { HERE, PARENT, child, parachain } from "./location";
+import type { Location } from "./location";
+
 export type Chain = "assethub" | "hydradx" | "relay" | "people";
 export type Asset = "DOT" | "USDC" | "USDT";
 
+// Chain names in guard and keep-alive messages
+export const CHAIN_LABEL: Record<Chain, string> = { assethub: "Asset Hub", hydradx: "HydraDX", relay: "Relay", people: "People" };
+
 export type RouteMode =
   | "stable_reserve"
   | "dot_teleport"
-  | "dot_execute_advanced";
-
-export const CAPABILITIES = {
-  stablecoin: {
-    assets: ["USDC", "USDT"] as const,
-    routes: [
-      { from: "assethub", to: "hydradx", mode: "stable_reserve" as const },
-      { from: "hydradx", to: "assethub", mode: "stable_reserve" as const },
+  | "dot_reserve_withdraw"
+  | "dot_execute_advanced"
+  | "dot_multihop";
+
+export type TransferType = "LocalReserve" | "DestinationReserve" | "RemoteReserve";
+
+// How an execute program moves the asset over one hop
+export type HopTransfer = "teleport" | "reserve_deposit" | "reserve_withdraw";
+
+export type RouteAsset = {
+  key: AssetKey;
+  symbol: Asset;
+  label: string;
+  decimals: number; // known value, used for display
+  // on-chain source of truth for decimals, read when building the tx
+  decimalsQuery?: { pallet: "assets" | "assetRegistry"; id: number };
+  location: Location;     // as seen from the source chain
+  destLocation: Location; // as seen from the destination (pays BuyExecution there)
+};
+
+export type RouteDescriptor = {
+  id: string;
+  from: Chain;
+  to: Chain;
+  mode: RouteMode;
+  assets: readonly RouteAsset[];
+
+  // first pallet the source runtime exposes is used
+  pallets: readonly ("polkadotXcm" | "xcmPallet")[];
+  call: "limitedReserveTransferAssets" | "limitedTeleportAssets" | "execute"; // the legacy call for reserve routes
+
+  // Reserve routes built with transferAssets / transferAssetsUsingTypeAndThen: who holds the reserve.
+  // RemoteReserve uses `reserve.location`.
+  transferType?: TransferType;
+
+  // Optional second asset paying the destination fees instead of the transferred one.
+  // `budget` (decimal) is sent along; what BuyExecution leaves is deposited with the transfer.
+  feeAsset?: { asset: RouteAsset; budget: string };
+  // no pinned XCM version: it is negotiated with the destination on every build (version.ts)
+  dest: Location; // as seen from the source chain
+
+  limits: { min: string; max?: string }; // decimal, in the transferred asset
+  enabledByDefault: boolean;
+  experimental?: boolean;
+
+  // destination account must be bootstrapped above ED (dynamic guard)
+  bootstrapEd?: "relay" | "people";
+
+  // EVM (H160) beneficiaries accepted, sent with this junction; absent: AccountId32 only
+  evmBeneficiary?: EvmBeneficiaryEncoding;
+
+  // asset reserve when it is neither the source nor the destination
+  // (execute programs go through it; RemoteReserve transfers name it)
+  reserve?: {
+    location: Location;      // reserve, as seen from the source
+    assetLocation: Location; // asset, as seen from the reserve (pays BuyExecution there)
+    dest: Location;          // destination, as seen from the reserve
+  };
+
+  // Multi-hop execute routes: the chain the single XCM program passes through
+  via?: {
+    chain: Chain;
+    location: Location;      // intermediate, as seen from the source
+    assetLocation: Location; // asset, as seen from the intermediate (pays BuyExecution there)
+    dest: Location;          // destination, as seen from the intermediate
+    transfers: readonly [HopTransfer, HopTransfer]; // source → intermediate, intermediate → destination
+  };
+
+  label: string; // mode label
+  help: string;  // submit help
+};
+
+// -------- Assets --------
+
+const ahAsset = (id: number): Location => child(HERE, { PalletInstance: 50 }, { GeneralIndex: id });
+
+const ahAssetFromSibling = (id: number): Location => child(parachain(1000), { PalletInstance: 50 }, { GeneralIndex: id });
+
+const DOT_FROM_PARA = { key: "DOT", symbol: "DOT", label: "DOT", decimals: 10 } as const;
+
+// DOT paying destination fees of the stablecoin routes (Asset Hub is DOT's reserve)
+const DOT_FEE_AH: RouteAsset = { ...DOT_FROM_PARA, location: PARENT, destLocation: PARENT };
+const DOT_FEE_HYDRA: RouteAsset = {
+  key: "DOT_HYDRA", symbol: "DOT", label: "DOT (Hydra)", decimals: 10,
+  decimalsQuery: { pallet: "assetRegistry", id: 5 },
+  location: PARENT, destLocation: PARENT,
+};
+const DOT_FEE_BUDGET = "0.05";
+
+// -------- Registry --------
+
+export const CAPABILITIES: readonly RouteDescriptor[] = [
+  // Stablecoins (safe-mode)
+  {
+    id: "ah-hydra-stable",
+    from: "assethub",
+    to: "hydradx",
+    mode: "stable_reserve",
+    assets: [
+      {
+        key: "USDC_AH", symbol: "USDC", label: "USDC (Asset Hub)", decimals: 6,
+        decimalsQuery: { pallet: "assets", id: 1337 },
+        location: ahAsset(1337), destLocation: ahAssetFromSibling(1337),
+      },
+      {
+        key: "USDT_AH", symbol: "USDT", label: "USDT (Asset Hub)", decimals: 6,
+        decimalsQuery: { pallet: "assets", id: 1984 },
+        location: ahAsset(1984), destLocation: ahAssetFromSibling(1984),
+      },
+    ],
+    pallets: ["polkadotXcm"],
+    call: "limitedReserveTransferAssets",
+    transferType: "LocalReserve",
+    feeAsset: { asset: DOT_FEE_AH, budget: DOT_FEE_BUDGET },
+    dest: parachain(2034),
+    // HydraDX converts AccountId32 junctions only (AccountId32Aliases): an H160 goes as its mapped account
+    evmBeneficiary: "MappedAccountId32",
+    limits: { min: "0.10" },
+    enabledByDefault: true,
+    label: "Asset Hub → HydraDX (reserve transfer)",
+    help: "Real submit: stablecoin Asset Hub → HydraDX.",
+  },
+  {
+    id: "hydra-ah-stable",
+    from: "hydradx",
+    to: "assethub",
+    mode: "stable_reserve",
+    assets: [
+      {
+        key: "USDC_HYDRA", symbol: "USDC", label: "USDC (Hydra)", decimals: 6,
+        decimalsQuery: { pallet: "assetRegistry", id: 22 },
+        location: ahAssetFromSibling(1337), destLocation: ahAsset(1337),
+      },
+      {
+        key: "USDT_HYDRA", symbol: "USDT", label: "USDT (Hydra)", decimals: 6,
+        decimalsQuery: { pallet: "assetRegistry", id: 10 },
+        location: ahAssetFromSibling(1984), destLocation: ahAsset(1984),
+      },
     ],
-    minAmount: 0.10,
+    pallets: ["polkadotXcm"],
+    call: "limitedReserveTransferAssets",
+    transferType: "DestinationReserve",
+    feeAsset: { asset: DOT_FEE_HYDRA, budget: DOT_FEE_BUDGET },
+    dest: parachain(1000),
+    limits: { min: "0.10" },
+    enabledByDefault: true,
+    label: "HydraDX → Asset Hub (reserve transfer)",
+    help: "Real submit: stablecoin HydraDX → Asset Hub.",
   },
 
-  dotTeleport: {
-    assets: ["DOT"] as const,
-    routes: [
-      // Relay
-      { from: "assethub", to: "relay", mode: "dot_teleport" as const },
-      { from: "relay", to: "assethub", mode: "dot_teleport" as const },
+  // DOT teleports: Relay
+  {
+    id: "ah-relay-dot",
+    from: "assethub",
+    to: "relay",
+    mode: "dot_teleport",
+    assets: [{ ...DOT_FROM_PARA, location: PARENT, destLocation: HERE }],
+    pallets: ["polkadotXcm"],
+    call: "limitedTeleportAssets",
+    dest: PARENT,
+    limits: { min: "0.05" },
+    enabledByDefault: true,
+    bootstrapEd: "relay",
+    label: "Asset Hub → Relay (DOT teleport)",
+    help: "Real submit: DOT teleport Asset Hub → Relay.",
+  },
+  {
+    id: "relay-ah-dot",
+    from: "relay",
+    to: "assethub",
+    mode: "dot_teleport",
+    assets: [{ ...DOT_FROM_PARA, location: HERE, destLocation: PARENT }],
+    pallets: ["xcmPallet", "polkadotXcm"],
+    call: "limitedTeleportAssets",
+    dest: parachain(1000, 0),
+    limits: { min: "0.05" },
+    enabledByDefault: true,
+    label: "Relay → Asset Hub (DOT teleport)",
+    help: "Real submit: DOT teleport Relay → Asset Hub (requires spendable DOT on Relay for fees).",
+  },
+
+  // DOT teleports: People (para 1004)
+  {
+    id: "ah-people-dot",
+    from: "assethub",
+    to: "people",
+    mode: "dot_teleport",
+    assets: [{ ...DOT_FROM_PARA, location: PARENT, destLocation: PARENT }],
+    pallets: ["polkadotXcm"],
+    call: "limitedTeleportAssets",
+    dest: parachain(1004),
+    limits: { min: "0.05" },
+    enabledByDefault: true,
+    bootstrapEd: "people",
+    label: "Asset Hub → People (DOT teleport)",
+    help: "Real submit: DOT teleport Asset Hub → People.",
+  },
+  {
+    id: "people-ah-dot",
+    from: "people",
+    to: "assethub",
+    mode: "dot_teleport",
+    assets: [{ ...DOT_FROM_PARA, location: HERE, destLocation: PARENT }],
+    pallets: ["xcmPallet", "polkadotXcm"],
+    call: "limitedTeleportAssets",
+    dest: parachain(1000),
+    limits: { min: "0.05" },
+    enabledByDefault: true,
+    label: "People → Asset Hub (DOT teleport)",
+    help: "Real submit: DOT teleport People → Asset Hub.",
+  },
 
-      // People (para 1004)
-      { from: "assethub", to: "people", mode: "dot_teleport" as const },
-      { from: "people", to: "assethub", mode: "dot_teleport" as const },
+  // DOT back from HydraDX (token id 5). Asset Hub is the reserve, so pallet-xcm sends
+  // InitiateReserveWithdraw: Asset Hub burns from HydraDX's sovereign account and deposits.
+  {
+    id: "hydra-ah-dot",
+    from: "hydradx",
+    to: "assethub",
+    mode: "dot_reserve_withdraw",
+    assets: [
+      {
+        key: "DOT_HYDRA", symbol: "DOT", label: "DOT (Hydra)", decimals: 10,
+        decimalsQuery: { pallet: "assetRegistry", id: 5 },
+        location: PARENT, destLocation: PARENT,
+      },
     ],
-    minAmount: 0.05,
+    pallets: ["polkadotXcm"],
+    call: "limitedReserveTransferAssets",
+    transferType: "DestinationReserve",
+    dest: parachain(1000),
+    limits: { min: "0.05" },
+    enabledByDefault: true,
+    label: "HydraDX → Asset Hub (DOT reserve withdraw)",
+    help: "Real submit: DOT HydraDX → Asset Hub (reserve withdraw; DOT is released from HydraDX's sovereign account on Asset Hub).",
   },
 
-  dotExecuteAdvanced: {
+  // DOT advanced execute (opt-in). Asset Hub is DOT's reserve: no `reserve` hop,
+  // the program uses DepositReserveAsset straight to HydraDX.
+  {
+    id: "ah-hydra-dot-advanced",
+    from: "assethub",
+    to: "hydradx",
+    mode: "dot_execute_advanced",
+    assets: [{ ...DOT_FROM_PARA, location: PARENT, destLocation: PARENT }],
+    pallets: ["polkadotXcm"],
+    call: "execute",
+    dest: parachain(2034),
+    limits: { min: "0.05", max: "0.50" },
     enabledByDefault: false,
-    assets: ["DOT"] as const,
-    routes: [{ from: "assethub", to: "hydradx", mode: "dot_execute_advanced" as const }],
-    minAmount: 0.05,
-    maxAmount: 0.50,
+    experimental: true,
+    label: "Asset Hub → HydraDX (advanced DOT execute)",
+    help: "Experimental: DOT Asset Hub → HydraDX via polkadotXcm.execute (WithdrawAsset, DepositReserveAsset, BuyExecution, DepositAsset). Review the XCM program before signing.",
+  },
+
+  // DOT multi-hop via Asset Hub: one execute program, two hops.
+  // Relay → Asset Hub is a teleport, then Asset Hub (DOT's reserve) deposits into HydraDX's sovereign account.
+  {
+    id: "relay-hydra-dot",
+    from: "relay",
+    to: "hydradx",
+    mode: "dot_multihop",
+    assets: [{ ...DOT_FROM_PARA, location: HERE, destLocation: PARENT }],
+    pallets: ["xcmPallet", "polkadotXcm"],
+    call: "execute",
+    dest: parachain(2034, 0),
+    via: {
+      chain: "assethub",
+      location: parachain(1000, 0),
+      assetLocation: PARENT,
+      dest: parachain(2034),
+      transfers: ["teleport", "reserve_deposit"],
+    },
+    limits: { min: "0.10" },
+    enabledByDefault: true,
+    label: "Relay → HydraDX via Asset Hub (DOT)",
+    help: "Real submit: DOT Relay → Asset Hub (teleport) → HydraDX (reserve deposit), one XCM program. Review the hops before signing.",
+  },
+  // HydraDX → Asset Hub withdraws from HydraDX's sovereign account, then Asset Hub teleports to People.
+  {
+    id: "hydra-people-dot",
+    from: "hydradx",
+    to: "people",
+    mode: "dot_multihop",
+    assets: [
+      {
+        key: "DOT_HYDRA", symbol: "DOT", label: "DOT (Hydra)", decimals: 10,
+        decimalsQuery: { pallet: "assetRegistry", id: 5 },
+        location: PARENT, destLocation: PARENT,
+      },
+    ],
+    pallets: ["polkadotXcm"],
+    call: "execute",
+    dest: parachain(1004),
+    via: {
+      chain: "assethub",
+      location: parachain(1000),
+      assetLocation: PARENT,
+      dest: parachain(1004),
+      transfers: ["reserve_withdraw", "teleport"],
+    },
+    limits: { min: "0.10" },
+    enabledByDefault: true,
+    bootstrapEd: "people",
+    label: "HydraDX → People via Asset Hub (DOT)",
+    help: "Real submit: DOT HydraDX → Asset Hub (reserve withdraw) → People (teleport), one XCM program. Review the hops before signing.",
   },
-} as const;
+];
+
+// -------- Lookups --------
+
+export function isRouteEnabled(r: RouteDescriptor, advancedEnabled = false): boolean {
+  return r.enabledByDefault || advancedEnabled;
+}
+
+export function routesFrom(from: Chain, advancedEnabled = false): RouteDescriptor[] {
+  return CAPABILITIES.filter((r) => r.from === from && isRouteEnabled(r, advancedEnabled));
+}
+
+// Guard-level lookup (asset symbol)
+export function findRoute(from: Chain, to: Chain, asset: Asset): RouteDescriptor | undefined {
+  return CAPABILITIES.find(
+    (r) => r.from === from && r.to === to && r.assets.some((a) => a.symbol === asset)
+  );
+}
+
+// Request-level lookup (asset key)
+export function findRouteByKey(
+  from: Chain,
+  to: Chain,
+  asset: AssetKey,
+  advancedEnabled = false
+): { route: RouteDescriptor; asset: RouteAsset } | undefined {
+  for (const r of CAPABILITIES) {
+    if (r.from !== from || r.to !== to || !isRouteEnabled(r, advancedEnabled)) continue;
+    const a = r.assets.find((x) => x.key === asset);
+    if (a) return { route: r, asset: a };
+  }
+  return undefined;
+}
+
+export type RouteHop = { from: Chain; to: Chain; transfer: HopTransfer };
+
+// Hops of a multi-hop route in order; undefined for direct routes
+export function routeHops(route: RouteDescriptor): RouteHop[] | undefined {
+  if (!route.via) return undefined;
+  return [
+    { from: route.from, to: route.via.chain, transfer: route.via.transfers[0] },
+    { from: route.via.chain, to: route.to, transfer: route.via.transfers[1] },
+  ];
+}
+
+export type FeeAssetChoice = "asset" | "DOT";
+
+// Asset paying the destination fees: the transferred one unless DOT is chosen and the route offers it
+export function feePayingAsset(route: RouteDescriptor, asset: RouteAsset, choice: FeeAssetChoice = "asset"): RouteAsset {
+  return choice === "DOT" && route.feeAsset ? route.feeAsset.asset : asset;
+}
+
+export function assetSymbol(key: AssetKey): Asset {
+  for (const r of CAPABILITIES) {
+    const a = r.assets.find((x) => x.key === key);
+    if (a) return a.symbol;
+  }
+  return "DOT";
+}
+
+// Decimals of an asset key (the same on every route carrying it)
+export function assetDecimals(key: AssetKey): number | undefined {
+  for (const r of CAPABILITIES) {
+    const a = r.assets.find((x) => x.key === key);
+    if (a) return a.decimals;
+  }
+  return undefined;
+}
+
+// Assets offered when sending from `from` (deduplicated by key, registry order)
+export function assetsFrom(from: Chain, advancedEnabled = false): RouteAsset[] {
+  const seen = new Map<AssetKey, RouteAsset>();
+  for (const r of routesFrom(from, advancedEnabled)) {
+    for (const a of r.assets) if (!seen.has(a.key)) seen.set(a.key, a);
+  }
+  return [...seen.values()];
+}
+
+// Assets some route delivers to `to` (deduplicated by key, registry order)
+export function assetsTo(to: Chain, advancedEnabled = false): RouteAsset[] {
+  const seen = new Map<AssetKey, RouteAsset>();
+  for (const r of CAPABILITIES) {
+    if (r.to !== to || !isRouteEnabled(r, advancedEnabled)) continue;
+    for (const a of r.assets) if (!seen.has(a.key)) seen.set(a.key, a);
+  }
+  return [...seen.values()];
+}
+
+// Destinations reachable from `from` with `asset`
+export function destinationsFor(from: Chain, asset: AssetKey, advancedEnabled = false): Chain[] {
+  return routesFrom(from, advancedEnabled)
+    .filter((r) => r.assets.some((a) => a.key === asset))
+    .map((r) => r.to);
+}
+
+// Keep asset and destination valid after From or Asset changed.
+// Prefers the same key, then the same symbol, then the first asset the chain offers.
+export function coerceRoute(
+  from: Chain,
+  asset: AssetKey,
+  to: Chain,
+  advancedEnabled = false
+): { asset: AssetKey; to: Chain } {
+  const offered = assetsFrom(from, advancedEnabled);
+  const symbol = assetSymbol(asset);
+  const nextAsset =
+    offered.find((a) => a.key === asset)?.key ??
+    offered.find((a) => a.symbol === symbol)?.key ??
+    offered[0]?.key ??
+    asset;
 
+  const dests = destinationsFor(from, nextAsset, advancedEnabled);
+  const nextTo = dests.includes(to) ? to : dests[0] ?? to;
+  return { asset: nextAsset, to: nextTo };
+}
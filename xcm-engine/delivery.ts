@@ -0,0 +1,69 @@
+// xcm-engine/delivery.ts
+//
+// Destination-side delivery tracking: did the message sent on the source
+// actually credit the beneficiary on the destination?
+// Plain data only: the chain subscription lives in frontend/src/engine/delivery.ts.
+import type { ChainKey } from "./types";
+import type { DryRunCredit } from "./dryRun";
+import type { EventRecordLike } from "./transfer";
+
+export type DeliveryStatus = "tracking" | "delivered" | "failed" | "timed_out";
+
+export type DeliveryResult = {
+  status: DeliveryStatus;
+  chain: ChainKey;          // destination
+  messageIds: string[];     // correlated ids, from the source events
+  blockNumber?: number;     // destination block the message was processed in
+  blockHash?: string;
+  credit?: DryRunCredit;    // set when "delivered"
+  reason?: string;          // set when "failed" / "timed_out"
+};
+
+// Source events carrying the id of the outgoing message, with the field holding it.
+// polkadotXcm/xcmPallet.Sent gives the SetTopic id, which is what the destination's
+// messageQueue reports; the queue hashes are kept as a fallback for topic-less messages.
+export const SENT_EVENTS = [
+  { section: "polkadotXcm", method: "Sent", field: "messageId" },
+  { section: "xcmPallet", method: "Sent", field: "messageId" },
+  { section: "xcmpQueue", method: "XcmpMessageSent", field: "messageHash" },
+  { section: "parachainSystem", method: "UpwardMessageSent", field: "messageHash" },
+] as const;
+
+// Ids of the outgoing XCM messages in a finalized source result (hex, deduplicated).
+export function extractMessageIds(events: EventRecordLike[]): string[] {
+  const ids = new Set<string>();
+  for (const { event } of events ?? []) {
+    const spec = SENT_EVENTS.find((s) => s.section === event?.section && s.method === event?.method);
+    if (!spec) continue;
+
+    const names = event.data?.names ?? [];
+    const value = event.data?.[names.indexOf(spec.field)];
+    const hex = value?.toHex();
+    if (hex) ids.add(hex);
+  }
+  return [...ids];
+}
+
+// SetTopic ids of the pallet-xcm Sent events, in dispatch order: one per transfer of a batch
+export function sentMessageIds(events: EventRecordLike[]): string[] {
+  const ids: string[] = [];
+  for (const { event } of events ?? []) {
+    const spec = SENT_EVENTS.slice(0, 2).find((s) => s.section === event?.section && s.method === event?.method);
+    if (!spec) continue;
+    const names = event.data?.names ?? [];
+    const hex = event.data?.[names.indexOf(spec.field)]?.toHex();
+    if (hex) ids.push(hex);
+  }
+  return ids;
+}
+
+export function formatDelivery(d: DeliveryResult): string {
+  const where = d.blockNumber !== undefined ? ` (${d.chain} #${d.blockNumber})` : ` (${d.chain})`;
+  if (d.status === "tracking") return `⏳ Tracking delivery on ${d.chain}...`;
+  if (d.status === "delivered") {
+    const credit = d.credit ? `: ${d.credit.event} ${d.credit.amount}` : "";
+    return `✅ Delivered${where}${credit}`;
+  }
+  if (d.status === "failed") return `❌ Delivery failed${where}: ${d.reason ?? "unknown reason"}`;
+  return `⌛ Delivery timed out${where}: ${d.reason ?? "no matching message processed"}`;
+}
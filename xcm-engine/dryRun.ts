@@ -1,5 +1,35 @@
 import type { TransferRequest } from "./types";
 import type { FeeQuote } from "./types";
+import type { VersionNegotiation } from "./version";
+
+// Runtime dry run (DryRunApi) of the exact extrinsic "Submit (REAL)" would sign.
+// Everything here is plain data: the runtime side lives in frontend/src/engine/dryRun.ts.
+
+export type DryRunEvent = {
+  section: string;
+  method: string;
+  data: unknown;
+};
+
+export type DryRunForwarded = {
+  destination: unknown;
+  messages: unknown[];
+};
+
+export type DryRunCredit = {
+  event: string;   // e.g. "assets.Issued"
+  amount: string;  // smallest units
+};
+
+// Multi-hop routes: the source's message replayed on the chain it passes through
+export type DryRunHop = {
+  chain: string;
+  ok: boolean;
+  error?: string;
+  executionResult: unknown;
+  events: DryRunEvent[];
+  forwarded: DryRunForwarded[];
+};
 
 export type XcmDryRun = {
   mode: "dry-run";
@@ -9,47 +39,58 @@ export type XcmDryRun = {
   amount: string;
   route: string;
   fees: FeeQuote;
-  xcm: Record<string, unknown>;
-};
+  xcmVersion?: VersionNegotiation; // version dest, beneficiary and assets were encoded with
 
-export function buildXcmDryRun(
-  req: TransferRequest,
-  fee: FeeQuote
-): XcmDryRun {
-  // Phase 0: explicit, boring, predictable
-  const route =
-    req.from === "assethub" || req.to === "assethub"
-      ? "direct"
-      : "via Asset Hub";
-
-  // This is NOT executable XCM yet.
-  // It is a transparent preview of intent.
-  const xcmPreview = {
-    WithdrawAsset: {
-      asset: req.asset,
-      amount: req.amount,
-      from: req.from,
-    },
-    BuyExecution: {
-      fees: fee.totalFeeDot,
-      asset: "DOT",
-    },
-    DepositAsset: {
-      asset: req.asset,
-      amount: req.amount,
-      to: req.to,
-    },
+  // "ok" only when the source call, every intermediate hop and the destination XCM execute cleanly
+  verdict: "ok" | "fail" | "unknown";
+
+  call: {
+    section: string;
+    method: string;
+    args: unknown;
+    callData: string;
   };
 
-  return {
-    mode: "dry-run",
-    from: req.from,
-    to: req.to,
-    asset: req.asset,
-    amount: req.amount,
-    route,
-    fees: fee,
-    xcm: xcmPreview,
+  source: {
+    ok: boolean;
+    error?: string;
+    executionResult: unknown;
+    events: DryRunEvent[];
+    forwarded: DryRunForwarded[];
+  };
+
+  hops?: DryRunHop[]; // in order, multi-hop routes only
+
+  destination?: {
+    ok: boolean;
+    error?: string;
+    executionResult: unknown;
+    events: DryRunEvent[];
+    credit?: DryRunCredit;
   };
+};
+
+// Events that credit the beneficiary on arrival, with the field names holding who/amount.
+export const CREDIT_EVENTS = [
+  { section: "assets", method: "Issued", who: "owner", amount: "amount" },
+  { section: "foreignAssets", method: "Issued", who: "owner", amount: "amount" },
+  { section: "tokens", method: "Deposited", who: "who", amount: "amount" },
+  { section: "currencies", method: "Deposited", who: "who", amount: "amount" },
+  { section: "balances", method: "Minted", who: "who", amount: "amount" },
+  { section: "balances", method: "Deposit", who: "who", amount: "amount" },
+] as const;
+
+export function routeLabel(req: TransferRequest): string {
+  // Phase 0: explicit, boring, predictable
+  return req.from === "assethub" || req.to === "assethub" ? "direct" : "via Asset Hub";
 }
 
+export function dryRunVerdict(
+  source: XcmDryRun["source"],
+  destination?: XcmDryRun["destination"],
+  hops: DryRunHop[] = []
+): XcmDryRun["verdict"] {
+  if (!source.ok || hops.some((h) => !h.ok)) return "fail";
+  if (!destination) return "unknown";
+  return destination.ok ? "ok" : "fail";
+}
@@ -1,37 +1,84 @@
-import type { FeeClamp, FeeQuote } from "./types";
+import { addAmounts, amountOf, compareAmounts, formatAmount, mulDiv, parseAmount } from "./amount";
+import type { Amount } from "./amount";
+import type { RouteAsset } from "./capabilities";
+import type { ChainKey, FeeClamp, FeeLeg, FeeQuote } from "./types";
 
 export const DEFAULT_SERVICE_FEE: FeeClamp = {
-  pct: 0.0015,   // 0.15%
-  minDot: 0.02,
-  maxDot: 0.20,
+  bps: 15,       // 0.15%
+  minDot: "0.02",
+  maxDot: "0.20",
 };
 
-// NOTE: this is UI-level placeholder. Real network fee estimation comes later.
+export const DOT_DECIMALS = 10;
+
+// Sum of the legs paid in `asset` that actually add to the cost of the transfer, exact in `decimals`
+// (the asset's). Legs without an amount (runtime could not quote them) are skipped.
+export function sumFeeLegs(legs: FeeLeg[], asset: string, decimals: number): Amount {
+  let total = amountOf(0n, decimals);
+  for (const l of legs) {
+    if (!l.inTotal || l.asset !== asset || l.amount === undefined) continue;
+    total = addAmounts(total, parseAmount(l.amount, decimals, `${l.asset} fee`));
+  }
+  return total;
+}
+
+// Destination fees taken out of the transferred amount: none when another asset pays them
+// (`payer`, see feePayingAsset), else the destination legs in the asset itself.
+export function destFeeFromAmount(legs: FeeLeg[], to: ChainKey, asset: RouteAsset, payer: RouteAsset): Amount {
+  if (payer !== asset) return amountOf(0n, asset.decimals);
+  return sumFeeLegs(legs.filter((l) => l.chain === to), asset.symbol, asset.decimals);
+}
+
+// Why the source fees are not fully quoted (a leg charged there has no amount), else undefined.
+// Without them the source keep-alive check cannot run: callers block.
+export function unquotedSourceFees(legs: FeeLeg[], from: ChainKey): string | undefined {
+  const leg = legs.find((l) => l.chain === from && l.inTotal && l.amount === undefined);
+  return leg ? `Source fees could not be estimated (${leg.kind}): ${leg.note ?? "no quote"}` : undefined;
+}
+
+// DOT taken out of a multi-hop transfer before it leaves the intermediate chain:
+// delivery from the source and execution on the intermediate. Unquoted legs count as zero.
+export function feesBeforeHopDot(legs: FeeLeg[], source: ChainKey): Amount {
+  let total = amountOf(0n, DOT_DECIMALS);
+  for (const l of legs) {
+    const before = (l.kind === "delivery" && l.chain === source) || l.kind === "intermediate_execution";
+    if (!before || l.asset !== "DOT" || l.amount === undefined) continue;
+    total = addAmounts(total, parseAmount(l.amount, DOT_DECIMALS, "DOT fee"));
+  }
+  return total;
+}
+
+// networkFeeDotEst comes from the runtime estimator (see frontend engine/fees.ts);
+// the DOT-denominated legs are summed by the caller with sumFeeLegs.
 export function quoteFeesDot(
-  amountDot: number,
-  networkFeeDotEst: number,
-  clamp: FeeClamp = DEFAULT_SERVICE_FEE
+  amountDot: Amount,
+  networkFeeDotEst: Amount,
+  clamp: FeeClamp = DEFAULT_SERVICE_FEE,
+  legs?: FeeLeg[]
 ): FeeQuote {
   const notes: string[] = [];
 
-  // service fee = amount * pct, clamped
-  let service = amountDot * clamp.pct;
+  // service fee = amount * bps / 10000, clamped
+  let service = mulDiv(amountDot, BigInt(clamp.bps), 10_000n);
+  const minDot = parseAmount(clamp.minDot, DOT_DECIMALS);
+  const maxDot = parseAmount(clamp.maxDot, DOT_DECIMALS);
 
-  if (service < clamp.minDot) {
-    service = clamp.minDot;
+  if (compareAmounts(service, minDot) < 0) {
+    service = minDot;
     notes.push(`Service fee clamped to minimum ${clamp.minDot} DOT`);
   }
-  if (service > clamp.maxDot) {
-    service = clamp.maxDot;
+  if (compareAmounts(service, maxDot) > 0) {
+    service = maxDot;
     notes.push(`Service fee clamped to maximum ${clamp.maxDot} DOT`);
   }
 
-  const total = networkFeeDotEst + service;
+  const total = addAmounts(networkFeeDotEst, service);
 
   return {
-    networkFeeDotEst: networkFeeDotEst.toFixed(6),
-    serviceFeeDot: service.toFixed(6),
-    totalFeeDot: total.toFixed(6),
+    networkFeeDotEst: formatAmount(networkFeeDotEst, 6),
+    serviceFeeDot: formatAmount(service, 6),
+    totalFeeDot: formatAmount(total, 6),
+    legs,
     notes,
   };
 }
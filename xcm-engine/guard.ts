@@ -1,20 +1,43 @@
 // xcm-engine/guard.ts
-import { CAPABILITIES } from "./capabilities";
+import { addAmounts, amountError, compareAmounts, formatAmount, parseAmount, subAmounts } from "./amount";
+import type { Amount } from "./amount";
+import { CHAIN_LABEL, findRoute, isRouteEnabled } from "./capabilities";
 import type { Chain, Asset, RouteMode } from "./capabilities";
+import { checkSourceKeepAlive } from "./keepAlive";
+import type { SourceCosts, SourceHoldings } from "./keepAlive";
 
 export type GuardInput = {
   from: Chain;
   to: Chain;
   asset: Asset;
-  amount: number;
+  amount: string; // decimal as entered, parsed exactly with the route asset's decimals
 
   // Relay bootstrap safety (dynamic)
-  relayFreeDot?: number;
-  relayEDDot?: number;
+  relayFreeDot?: Amount;
+  relayEDDot?: Amount;
 
   // People bootstrap safety (dynamic)
-  peopleFreeDot?: number;
-  peopleEDDot?: number;
+  peopleFreeDot?: Amount;
+  peopleEDDot?: Amount;
+
+  // Multi-hop safety: Asset Hub ED, and the estimated DOT spent before the intermediate hop forwards
+  assetHubEDDot?: Amount;
+  viaFeeDot?: Amount;
+
+  // Stablecoin destination safety (dynamic): the asset's min balance and sufficiency there, what the
+  // beneficiary holds (unknown: warn only) and the destination fee taken from the amount
+  destAssetMinBalance?: Amount;
+  destAssetSufficient?: boolean;
+  destAssetBalance?: Amount;
+  destNativeFree?: Amount;
+  destFeeAsset?: Amount;
+
+  // Source keep-alive (dynamic): the sender's balances on the source, the amount in smallest units
+  // and the fees charged there (`estimated` false until the runtime quoted them)
+  source?: { holdings: SourceHoldings; amount: bigint; costs: SourceCosts; estimated: boolean };
+
+  // opt-in for routes that are not enabled by default
+  advancedEnabled?: boolean;
 };
 
 export type GuardResult = {
@@ -22,81 +45,137 @@ export type GuardResult = {
   hardBlock: boolean;
   mode?: RouteMode;
   reason?: string;
-  minRequired?: number;
+  minRequired?: Amount;
 };
 
-function inRoutes(from: Chain, to: Chain, mode: RouteMode): boolean {
-  const all = [
-    ...CAPABILITIES.stablecoin.routes,
-    ...CAPABILITIES.dotTeleport.routes,
-    ...CAPABILITIES.dotExecuteAdvanced.routes,
-  ];
-  return all.some((r) => r.from === from && r.to === to && r.mode === mode);
+const MODE_NOUN: Record<RouteMode, string> = {
+  stable_reserve: "stablecoin",
+  dot_teleport: "DOT teleport",
+  dot_reserve_withdraw: "DOT reserve withdraw",
+  dot_execute_advanced: "advanced DOT execute",
+  dot_multihop: "multi-hop DOT",
+};
+
+const BOOTSTRAP_LABEL = { relay: "Relay", people: "People" } as const;
+
+const NATIVE_SYMBOL: Record<Chain, string> = { assethub: "DOT", hydradx: "HDX", relay: "DOT", people: "DOT" };
+
+// Safety buffers on top of the computed minimums, in the transferred asset
+const BOOTSTRAP_BUFFER = "0.06"; // 0.01 + 0.05
+const MIN_BALANCE_BUFFER = "0.01";
+
+function edOf(input: GuardInput, chain: Chain): Amount | undefined {
+  if (chain === "assethub") return input.assetHubEDDot;
+  if (chain === "relay") return input.relayEDDot;
+  if (chain === "people") return input.peopleEDDot;
+  return undefined;
+}
+
+function bootstrapBalances(input: GuardInput, which: "relay" | "people") {
+  return which === "relay"
+    ? { free: input.relayFreeDot, ed: input.relayEDDot }
+    : { free: input.peopleFreeDot, ed: input.peopleEDDot };
 }
 
+// Minimums are shown rounded up, so sending the shown value always clears them
+const atLeast = (a: Amount) => formatAmount(a, 4, "up");
+
 export function guardRoute(input: GuardInput): GuardResult {
-  const { from, to, asset, amount } = input;
+  const { from, to, asset } = input;
 
   if (from === to) return { ok: false, hardBlock: true, reason: "From and To must be different." };
-  if (!Number.isFinite(amount) || amount <= 0) return { ok: false, hardBlock: true, reason: "Amount must be greater than zero." };
-
-  // stablecoins
-  if ((asset === "USDC" || asset === "USDT") && (from === "assethub" || from === "hydradx")) {
-    const mode: RouteMode = "stable_reserve";
-    if (!inRoutes(from, to, mode)) return { ok: false, hardBlock: true, mode, reason: "Stablecoin route not supported in safe-mode." };
-    if (amount < CAPABILITIES.stablecoin.minAmount) {
-      return { ok: false, hardBlock: true, mode, reason: `Minimum stablecoin amount is ${CAPABILITIES.stablecoin.minAmount.toFixed(2)}.` };
-    }
-    return { ok: true, hardBlock: false, mode };
+
+  const route = findRoute(from, to, asset);
+  if (!route) return { ok: false, hardBlock: true, reason: "Unsupported asset/route combination." };
+
+  const decimals = route.assets.find((a) => a.symbol === asset)?.decimals ?? 0;
+  const invalid = amountError(input.amount, decimals);
+  if (invalid) return { ok: false, hardBlock: true, reason: invalid };
+  const amount = parseAmount(input.amount, decimals);
+  if (amount.planck <= 0n) return { ok: false, hardBlock: true, reason: "Amount must be greater than zero." };
+  const below = (min: Amount) => compareAmounts(amount, min) < 0;
+
+  const mode = route.mode;
+  if (!isRouteEnabled(route, input.advancedEnabled)) {
+    return { ok: false, hardBlock: true, mode, reason: `${route.label} is disabled (opt-in).` };
   }
 
-  // DOT teleport
-  if (asset === "DOT" && (from === "assethub" || from === "relay" || from === "people")) {
-    const mode: RouteMode = "dot_teleport";
-    if (!inRoutes(from, to, mode)) return { ok: false, hardBlock: true, mode, reason: "DOT teleport route not supported." };
-    if (amount < CAPABILITIES.dotTeleport.minAmount) {
-      return { ok: false, hardBlock: true, mode, reason: `Minimum DOT teleport amount is ${CAPABILITIES.dotTeleport.minAmount.toFixed(2)}.` };
+  const { min, max } = route.limits;
+  const noun = MODE_NOUN[mode];
+  const minimum = parseAmount(min, decimals);
+  if (max !== undefined && (below(minimum) || compareAmounts(amount, parseAmount(max, decimals)) > 0)) {
+    const cap = noun.charAt(0).toUpperCase() + noun.slice(1);
+    return { ok: false, hardBlock: true, mode, reason: `${cap} supports ${min}–${max} ${asset}.` };
+  }
+  if (below(minimum)) {
+    return { ok: false, hardBlock: true, mode, reason: `Minimum ${noun} amount is ${min}.` };
+  }
+
+  // Dynamic bootstrap guard: buffers 0.01 + 0.05
+  if (route.bootstrapEd) {
+    const { free, ed } = bootstrapBalances(input, route.bootstrapEd);
+    if (free && ed && compareAmounts(free, ed) < 0) {
+      const minRequired = addAmounts(subAmounts(ed, free), parseAmount(BOOTSTRAP_BUFFER, decimals));
+      if (below(minRequired)) {
+        const label = BOOTSTRAP_LABEL[route.bootstrapEd];
+        return { ok: false, hardBlock: true, mode, minRequired, reason: `${label} account is below ED. Send at least ~${atLeast(minRequired)} DOT to bootstrap safely.` };
+      }
     }
+  }
 
-    // Dynamic bootstrap guard: buffers 0.01 + 0.05
-    const buffer = 0.01 + 0.05;
-
-    // AssetHub -> Relay
-    if (from === "assethub" && to === "relay") {
-      const rf = input.relayFreeDot;
-      const red = input.relayEDDot;
-      if (typeof rf === "number" && typeof red === "number" && rf < red) {
-        const minRequired = (red - rf) + buffer;
-        if (amount < minRequired) {
-          return { ok: false, hardBlock: true, mode, minRequired, reason: `Relay account is below ED. Send at least ~${minRequired.toFixed(4)} DOT to bootstrap safely.` };
-        }
+  // Intermediate ED guard: what is left on the intermediate chain after fees must stay above its ED,
+  // or the onward hop fails and the DOT is trapped there. Buffer 0.01
+  if (route.via) {
+    const ed = edOf(input, route.via.chain);
+    if (ed) {
+      const buffer = parseAmount(MIN_BALANCE_BUFFER, decimals);
+      const minRequired = addAmounts(input.viaFeeDot ? addAmounts(ed, input.viaFeeDot) : ed, buffer);
+      if (below(minRequired)) {
+        const label = CHAIN_LABEL[route.via.chain];
+        const feeNote = input.viaFeeDot ? ` after ~${atLeast(input.viaFeeDot)} DOT fees` : " (fees not estimated yet)";
+        return { ok: false, hardBlock: true, mode, minRequired, reason: `Too little DOT would remain on ${label}${feeNote} to stay above its ED (${formatAmount(ed)} DOT). Send at least ~${atLeast(minRequired)} DOT.` };
       }
     }
+  }
 
-    // AssetHub -> People
-    if (from === "assethub" && to === "people") {
-      const pf = input.peopleFreeDot;
-      const ped = input.peopleEDDot;
-      if (typeof pf === "number" && typeof ped === "number" && pf < ped) {
-        const minRequired = (ped - pf) + buffer;
-        if (amount < minRequired) {
-          return { ok: false, hardBlock: true, mode, minRequired, reason: `People account is below ED. Send at least ~${minRequired.toFixed(4)} DOT to bootstrap safely.` };
-        }
+  // Destination asset guard (stablecoins): the first deposit must reach the asset's min balance, and an
+  // asset that is not sufficient needs the native token there, or the deposit fails on arrival. Buffer 0.01
+  let note: { reason: string; minRequired?: Amount } | undefined;
+  const minBalance = input.destAssetMinBalance;
+  const held = input.destAssetBalance;
+  if (mode === "stable_reserve" && minBalance && (!held || compareAmounts(held, minBalance) < 0)) {
+    const where = CHAIN_LABEL[to];
+    const native = NATIVE_SYMBOL[to];
+    if (input.destAssetSufficient === false) {
+      // hard block only when the beneficiary's native balance is known to be zero
+      if (held && input.destNativeFree && input.destNativeFree.planck === 0n) {
+        return { ok: false, hardBlock: true, mode, reason: `${asset} is not a sufficient asset on ${where} and the beneficiary holds no ${native} there: the deposit would fail.` };
+      }
+      if (!held || !input.destNativeFree) {
+        note = { reason: `${asset} is not a sufficient asset on ${where}: a beneficiary without ${native} there cannot receive it.` };
       }
     }
 
-    return { ok: true, hardBlock: false, mode };
+    const fees = input.destFeeAsset;
+    const missing = held ? subAmounts(minBalance, held) : minBalance;
+    const minRequired = addAmounts(fees ? addAmounts(missing, fees) : missing, parseAmount(MIN_BALANCE_BUFFER, decimals));
+    if (below(minRequired)) {
+      const feeNote = fees ? ` after ~${atLeast(fees)} ${asset} fees` : " (fees not estimated yet)";
+      const floor = `${asset}'s min balance on ${where} (${formatAmount(minBalance)} ${asset})${feeNote}. Send at least ~${atLeast(minRequired)} ${asset}.`;
+      if (held) {
+        return { ok: false, hardBlock: true, mode, minRequired, reason: `The beneficiary's ${asset} would stay below ${floor}` };
+      }
+      note = { minRequired, reason: `If the beneficiary holds no ${asset} yet, this stays below ${floor}` };
+    }
   }
 
-  // DOT advanced execute
-  if (asset === "DOT" && from === "assethub" && to === "hydradx") {
-    const mode: RouteMode = "dot_execute_advanced";
-    if (amount < CAPABILITIES.dotExecuteAdvanced.minAmount || amount > CAPABILITIES.dotExecuteAdvanced.maxAmount) {
-      return { ok: false, hardBlock: true, mode, reason: `Advanced DOT execute supports ${CAPABILITIES.dotExecuteAdvanced.minAmount.toFixed(2)}–${CAPABILITIES.dotExecuteAdvanced.maxAmount.toFixed(2)} DOT.` };
-    }
-    return { ok: true, hardBlock: false, mode, reason: "Advanced route enabled (experimental)." };
+  // Source keep-alive: ED and locks of the native token, fees, and no asset dust left behind
+  if (input.source) {
+    const { holdings, amount: units, costs, estimated } = input.source;
+    const check = checkSourceKeepAlive(holdings, units, costs, estimated);
+    if (!check.ok) return { ok: false, hardBlock: true, mode, reason: check.reason };
   }
 
-  return { ok: false, hardBlock: true, reason: "Unsupported asset/route combination." };
+  if (route.experimental) return { ok: true, hardBlock: false, mode, reason: "Advanced route enabled (experimental)." };
+  return { ok: true, hardBlock: false, mode, ...note };
 }
-
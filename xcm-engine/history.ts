@@ -0,0 +1,124 @@
+// xcm-engine/history.ts
+//
+// Local transfer history: one record per submitted transfer.
+// Plain data plus filter/export helpers; the IndexedDB store lives in
+// frontend/src/engine/historyStore.ts.
+import type { RouteMode } from "./capabilities";
+import type { DeliveryStatus } from "./delivery";
+import type { FeeQuote, TransferRequest } from "./types";
+
+export type TransferOutcomeStatus = "pending" | "finalized" | "failed";
+
+export type TransferRecord = {
+  id: string;
+  account: string;        // signer, the history is keyed by it
+  origin?: string;        // account the transfer was dispatched from (proxy real / multisig), when not the signer
+  createdAt: number;      // Date.now() at submit
+  request: TransferRequest;
+  mode: RouteMode;
+  routeId: string;
+  rpc: string;            // source endpoint used to submit
+
+  status: TransferOutcomeStatus;
+  blockHash?: string;
+  txHash?: string;
+  error?: string;
+
+  fees: FeeQuote;         // quote shown when signing
+  events: string[];       // decoded finalized events
+  messageIds: string[];
+
+  delivery?: DeliveryStatus;
+  deliveryReason?: string;
+  deliveryBlock?: number;
+
+  // multisig origin: this signer's approval (the transfer runs at approvals === threshold)
+  multisig?: { callHash: string; approvals: number; threshold: number };
+
+  // payment reference and the SetTopic id derived from it (the message id on every hop)
+  reference?: string;
+  topic?: string;
+
+  // batch payout: the row's place in its utility.batchAll (records of a batch share the id and tx)
+  batch?: { id: string; index: number; size: number };
+};
+
+export type HistoryFilter = {
+  from?: string;
+  to?: string;
+  asset?: string;
+  status?: TransferOutcomeStatus | DeliveryStatus;
+  text?: string;          // matches hashes, beneficiary, origin, reference, error and delivery reason
+};
+
+export function filterHistory(records: TransferRecord[], f: HistoryFilter): TransferRecord[] {
+  const text = f.text?.trim().toLowerCase();
+  return records.filter((r) => {
+    if (f.from && r.request.from !== f.from) return false;
+    if (f.to && r.request.to !== f.to) return false;
+    if (f.asset && r.request.asset !== f.asset) return false;
+    if (f.status && r.status !== f.status && r.delivery !== f.status) return false;
+    if (text) {
+      const hay = [
+        r.blockHash,
+        r.txHash,
+        r.request.beneficiary,
+        r.origin,
+        r.multisig?.callHash,
+        r.reference,
+        r.topic,
+        r.error,
+        r.deliveryReason,
+        ...r.messageIds,
+      ]
+        .filter(Boolean)
+        .join(" ")
+        .toLowerCase();
+      if (!hay.includes(text)) return false;
+    }
+    return true;
+  });
+}
+
+// -------- Export --------
+
+const CSV_COLUMNS: Array<[string, (r: TransferRecord) => string | number | undefined]> = [
+  ["date", (r) => new Date(r.createdAt).toISOString()],
+  ["account", (r) => r.account],
+  ["origin", (r) => r.origin ?? r.account],
+  ["from", (r) => r.request.from],
+  ["to", (r) => r.request.to],
+  ["asset", (r) => r.request.asset],
+  ["amount", (r) => r.request.amount],
+  ["beneficiary", (r) => r.request.beneficiary || r.account],
+  ["mode", (r) => r.mode],
+  ["route", (r) => r.routeId],
+  ["rpc", (r) => r.rpc],
+  ["status", (r) => r.status],
+  ["delivery", (r) => r.delivery],
+  ["network_fee_dot", (r) => r.fees.networkFeeDotEst],
+  ["service_fee_dot", (r) => r.fees.serviceFeeDot],
+  ["total_fee_dot", (r) => r.fees.totalFeeDot],
+  ["block_hash", (r) => r.blockHash],
+  ["tx_hash", (r) => r.txHash],
+  ["message_ids", (r) => r.messageIds.join(" ")],
+  ["reference", (r) => r.reference],
+  ["batch", (r) => (r.batch ? `${r.batch.id}#${r.batch.index + 1}/${r.batch.size}` : undefined)],
+  ["error", (r) => r.error ?? r.deliveryReason],
+];
+
+function csvCell(v: string | number | undefined): string {
+  const s = v === undefined ? "" : String(v);
+  return /[",\n\r]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+// One row per transfer; decoded events are only in the JSON export.
+export function historyToCsv(records: TransferRecord[]): string {
+  const head = CSV_COLUMNS.map(([name]) => name).join(",");
+  const rows = records.map((r) => CSV_COLUMNS.map(([, get]) => csvCell(get(r))).join(","));
+  return [head, ...rows].join("\n") + "\n";
+}
+
+export function historyToJson(records: TransferRecord[]): string {
+  return JSON.stringify(records, null, 2);
+}
@@ -0,0 +1,165 @@
+// xcm-engine/keepAlive.ts
+//
+// Source-side safety: what the sender may spend on the source chain without losing the account
+// (native below ED) or leaving asset dust (a stablecoin below its min balance is wiped), once the
+// fees charged there are paid. Balances are read by the caller (frontend/src/engine/keepAlive.ts).
+import { formatUnits } from "./amount";
+import type { RouteAsset, RouteDescriptor } from "./capabilities";
+import { CHAIN_LABEL, feePayingAsset } from "./capabilities";
+import type { FeeAssetChoice } from "./capabilities";
+import { parseDecimalToInt } from "./transfer";
+import type { ChainKey, FeeLeg } from "./types";
+
+// One balance of the sender on the source chain, in smallest units
+export type SourceHolding = {
+  symbol: string;      // DOT, HDX, USDC, ...
+  decimals: number;
+  native: boolean;     // balances pallet (keeps the account alive), else assets / tokens
+  balance: bigint;     // free
+  frozen: bigint;      // locked part not covered by reserves (native), or frozen tokens
+  minBalance: bigint;  // ED of the native token, min balance / existential deposit of the asset
+};
+
+export type SourceHoldings = {
+  chain: ChainKey;
+  native: SourceHolding;
+  asset: SourceHolding;       // transferred asset (the native one when it is)
+  feeAsset?: SourceHolding;   // asset paying the destination fees, when it is neither
+};
+
+// Fees charged to the source account besides the amount, by symbol
+export type SourceCosts = Record<string, bigint>;
+
+// Share added to estimated source fees: they move with the amount and the block weight
+const FEE_MARGIN_PCT = 10n;
+
+// -------- Costs --------
+
+// Legs the source account pays (extrinsic, local execution, delivery from the source), plus the
+// budget of a separate fee asset; `signerPays` false when a proxy / multisig signer pays the extrinsic
+export function sourceCosts(input: {
+  legs: FeeLeg[];
+  from: ChainKey;
+  holdings: SourceHoldings;
+  route: RouteDescriptor;
+  asset: RouteAsset;
+  feeAsset?: FeeAssetChoice;
+  signerPays?: boolean;
+}): SourceCosts {
+  const { legs, from, holdings, route, asset } = input;
+  const decimals = new Map(
+    [holdings.native, holdings.asset, holdings.feeAsset].flatMap((h) => (h ? [[h.symbol, h.decimals] as const] : []))
+  );
+
+  const costs: SourceCosts = {};
+  const add = (symbol: string, amount: bigint) => (costs[symbol] = (costs[symbol] ?? 0n) + amount);
+
+  for (const l of legs) {
+    if (!l.inTotal || l.chain !== from || l.amount === undefined) continue;
+    if (l.kind === "source_extrinsic" && input.signerPays === false) continue;
+    if (l.kind !== "source_extrinsic" && l.kind !== "local_execution" && l.kind !== "delivery") continue;
+    const d = decimals.get(l.asset);
+    if (d === undefined) continue; // not a balance we track
+    const amount = parseDecimalToInt(l.amount, d);
+    add(l.asset, amount + (amount * FEE_MARGIN_PCT) / 100n);
+  }
+
+  const payer = feePayingAsset(route, asset, input.feeAsset);
+  if (payer.key !== asset.key && route.feeAsset) {
+    add(payer.symbol, parseDecimalToInt(route.feeAsset.budget, payer.decimals));
+  }
+  return costs;
+}
+
+// Costs of a batch from one source: its combined fee legs once, plus the fee budget every
+// transfer carries. `holdings` are those of the asset being checked.
+export function batchSourceCosts(input: {
+  legs: FeeLeg[];
+  holdings: SourceHoldings;
+  transfers: Array<{ route: RouteDescriptor; asset: RouteAsset }>;
+  feeAsset?: FeeAssetChoice;
+  signerPays?: boolean;
+}): SourceCosts {
+  const costs: SourceCosts = {};
+  input.transfers.forEach(({ route, asset }, i) => {
+    const legs = i === 0 ? input.legs : [];
+    const one = sourceCosts({ ...input, legs, from: input.holdings.chain, route, asset });
+    for (const [symbol, amount] of Object.entries(one)) costs[symbol] = (costs[symbol] ?? 0n) + amount;
+  });
+  return costs;
+}
+
+// -------- Checks --------
+
+// Part of `h` that cannot be spent: ED or locks for the native token, frozen tokens otherwise
+function untouchable(h: SourceHolding): bigint {
+  if (!h.native) return h.frozen;
+  return h.frozen > h.minBalance ? h.frozen : h.minBalance;
+}
+
+function spendable(h: SourceHolding): bigint {
+  const left = h.balance - untouchable(h);
+  return left > 0n ? left : 0n;
+}
+
+function fmt(value: bigint, h: SourceHolding): string {
+  return `${formatUnits(value, h.decimals)} ${h.symbol}`;
+}
+
+// Largest amount of the transferred asset that pays `costs` and keeps every balance safe
+export function maxSendable(holdings: SourceHoldings, costs: SourceCosts): bigint {
+  const { asset } = holdings;
+  const max = spendable(asset) - (costs[asset.symbol] ?? 0n);
+  return max > 0n ? max : 0n;
+}
+
+export type SourceCheck = {
+  ok: boolean;
+  reason?: string;
+  max: bigint; // maxSendable
+};
+
+// `estimated` false: `costs` holds no fee estimate yet, only what is known up front
+export function checkSourceKeepAlive(
+  holdings: SourceHoldings,
+  amount: bigint,
+  costs: SourceCosts,
+  estimated: boolean
+): SourceCheck {
+  const { native, asset, feeAsset } = holdings;
+  const max = maxSendable(holdings, costs);
+  const feeNote = estimated ? "" : " (fees not estimated yet)";
+  const where = CHAIN_LABEL[holdings.chain];
+
+  // balances paying fees only: they must cover them and stay above ED / unfrozen
+  for (const h of asset.native ? [feeAsset] : [native, feeAsset]) {
+    const cost = h ? costs[h.symbol] ?? 0n : 0n;
+    if (!h || cost === 0n || cost <= spendable(h)) continue;
+    const floor = h.native ? ` and keep ${fmt(untouchable(h), h)} (ED / locks)` : "";
+    return {
+      ok: false,
+      max,
+      reason: `Not enough ${h.symbol} on ${where} to pay ~${fmt(cost, h)} in fees${floor}: ${fmt(spendable(h), h)} spendable.`,
+    };
+  }
+
+  if (amount > max) {
+    const keep = asset.native ? ` while keeping ${fmt(untouchable(asset), asset)} (ED / locks) and paying the fees` : "";
+    return {
+      ok: false,
+      max,
+      reason: `At most ${fmt(max, asset)} can be sent from ${where}${keep}${feeNote}.`,
+    };
+  }
+
+  // an asset left below its min balance is wiped with the account
+  const left = asset.balance - amount - (costs[asset.symbol] ?? 0n);
+  if (!asset.native && left > 0n && left < asset.minBalance) {
+    return {
+      ok: false,
+      max,
+      reason: `This would leave ${fmt(left, asset)} on ${where}, below the asset's min balance (${fmt(asset.minBalance, asset)}), and it would be lost: send the max or leave at least the min balance.`,
+    };
+  }
+  return { ok: true, max };
+}
@@ -0,0 +1,184 @@
+// xcm-engine/location.ts
+//
+// Typed XCM locations and assets.
+// Routes and builders use the version-neutral forms (Location, Asset); they are encoded
+// per XCM version only when a transaction or runtime call is built. The encoded types spell
+// out each version's shape (V3 writes X1 as a bare junction, V4/V5 always use arrays), so a
+// hand-written literal in the wrong shape is a compile error.
+
+export type XcmVersion = "V3" | "V4" | "V5";
+
+// -------- Neutral form --------
+
+export type NetworkId =
+  | { Polkadot: null }
+  | { Kusama: null }
+  | { Ethereum: { chainId: number } };
+
+export type Junction =
+  | { Parachain: number }
+  | { PalletInstance: number }
+  | { GeneralIndex: number }
+  | { AccountId32: { network: NetworkId | null; id: Uint8Array } }
+  | { AccountKey20: { network: NetworkId | null; key: Uint8Array } }
+  | { GlobalConsensus: NetworkId };
+
+export type Parents = 0 | 1 | 2;
+
+export type Location = {
+  parents: Parents;
+  interior: Junction[]; // [] = Here, at most 8
+};
+
+// Fungible asset: `amount` in the asset's smallest unit
+export type Asset = { id: Location; amount: bigint };
+
+export type Assets = Asset[];
+
+// -------- Encoded forms --------
+
+type X<N extends number, J, Acc extends J[] = []> = Acc["length"] extends N ? Acc : X<N, J, [...Acc, J]>;
+
+export type JunctionsV3 =
+  | "Here"
+  | { X1: Junction }
+  | { X2: X<2, Junction> }
+  | { X3: X<3, Junction> }
+  | { X4: X<4, Junction> }
+  | { X5: X<5, Junction> }
+  | { X6: X<6, Junction> }
+  | { X7: X<7, Junction> }
+  | { X8: X<8, Junction> };
+
+export type JunctionsV4 =
+  | "Here"
+  | { X1: X<1, Junction> }
+  | { X2: X<2, Junction> }
+  | { X3: X<3, Junction> }
+  | { X4: X<4, Junction> }
+  | { X5: X<5, Junction> }
+  | { X6: X<6, Junction> }
+  | { X7: X<7, Junction> }
+  | { X8: X<8, Junction> };
+
+export type LocationV3 = { parents: Parents; interior: JunctionsV3 };
+export type LocationV4 = { parents: Parents; interior: JunctionsV4 }; // V5 has the same shape
+
+type Fungible = { Fungible: string };
+
+export type AssetV3 = { id: { Concrete: LocationV3 }; fun: Fungible };
+export type AssetV4 = { id: LocationV4; fun: Fungible }; // V5 has the same shape
+
+export type EncodedLocation<V extends XcmVersion> = V extends "V3" ? LocationV3 : LocationV4;
+export type EncodedAsset<V extends XcmVersion> = V extends "V3" ? AssetV3 : AssetV4;
+
+export type VersionedLocation = { V3: LocationV3 } | { V4: LocationV4 } | { V5: LocationV4 };
+export type VersionedAssetId = { V3: { Concrete: LocationV3 } } | { V4: LocationV4 } | { V5: LocationV4 };
+export type VersionedAssets = { V3: AssetV3[] } | { V4: AssetV4[] } | { V5: AssetV4[] };
+
+// -------- Constructors --------
+
+export const HERE: Location = { parents: 0, interior: [] };
+export const PARENT: Location = { parents: 1, interior: [] };
+
+export function parachain(id: number, parents: Parents = 1): Location {
+  return { parents, interior: [{ Parachain: id }] };
+}
+
+// `base` extended with more junctions (e.g. a pallet asset under a parachain)
+export function child(base: Location, ...junctions: Junction[]): Location {
+  return { parents: base.parents, interior: [...base.interior, ...junctions] };
+}
+
+export function accountLocation(id: Uint8Array, network: NetworkId | null = null): Location {
+  return { parents: 0, interior: [{ AccountId32: { network, id } }] };
+}
+
+export function accountKey20Location(key: Uint8Array, network: NetworkId | null = null): Location {
+  return { parents: 0, interior: [{ AccountKey20: { network, key } }] };
+}
+
+export function asset(id: Location, amount: bigint): Asset {
+  return { id, amount };
+}
+
+// -------- Ordering --------
+
+// Junction variants in the order the runtime's enum declares them
+const JUNCTION_ORDER = ["Parachain", "AccountId32", "AccountKey20", "PalletInstance", "GeneralIndex", "GlobalConsensus"];
+
+function compareJunction(a: Junction, b: Junction): number {
+  const [ka, va] = Object.entries(a)[0];
+  const [kb, vb] = Object.entries(b)[0];
+  if (ka !== kb) return JUNCTION_ORDER.indexOf(ka) - JUNCTION_ORDER.indexOf(kb);
+  if (typeof va === "number" && typeof vb === "number") return va - vb;
+  const sa = JSON.stringify(va, (_k, x) => (x instanceof Uint8Array ? [...x] : x));
+  const sb = JSON.stringify(vb, (_k, x) => (x instanceof Uint8Array ? [...x] : x));
+  return sa < sb ? -1 : sa > sb ? 1 : 0;
+}
+
+// Same order as the runtime's `Ord` on locations: parents, then junction count, then junctions
+export function compareLocation(a: Location, b: Location): number {
+  if (a.parents !== b.parents) return a.parents - b.parents;
+  if (a.interior.length !== b.interior.length) return a.interior.length - b.interior.length;
+  for (let i = 0; i < a.interior.length; i++) {
+    const c = compareJunction(a.interior[i], b.interior[i]);
+    if (c !== 0) return c;
+  }
+  return 0;
+}
+
+export function sameLocation(a: Location, b: Location): boolean {
+  return compareLocation(a, b) === 0;
+}
+
+// Multi-asset lists must be sorted (and free of duplicates) to decode on chain
+export function sortAssets(assets: Assets): Assets {
+  return [...assets].sort((a, b) => compareLocation(a.id, b.id));
+}
+
+// -------- Encoders --------
+
+function encodeJunctions(junctions: Junction[], version: XcmVersion): JunctionsV3 | JunctionsV4 {
+  if (junctions.length > 8) throw new Error(`XCM locations hold at most 8 junctions (got ${junctions.length}).`);
+  if (junctions.length === 0) return "Here";
+  if (version === "V3" && junctions.length === 1) return { X1: junctions[0] };
+  // the length check above is what the tuple types express
+  return { [`X${junctions.length}`]: [...junctions] } as JunctionsV4;
+}
+
+export function encodeLocation<V extends XcmVersion>(loc: Location, version: V): EncodedLocation<V> {
+  return { parents: loc.parents, interior: encodeJunctions(loc.interior, version) } as EncodedLocation<V>;
+}
+
+export function encodeAsset<V extends XcmVersion>(a: Asset, version: V): EncodedAsset<V> {
+  const fun = { Fungible: a.amount.toString() };
+  if (version === "V3") return { id: { Concrete: encodeLocation(a.id, "V3") }, fun } as EncodedAsset<V>;
+  return { id: encodeLocation(a.id, version), fun } as EncodedAsset<V>;
+}
+
+export function encodeAssets<V extends XcmVersion>(assets: Assets, version: V): EncodedAsset<V>[] {
+  return assets.map((a) => encodeAsset(a, version));
+}
+
+export function encodeFungible<V extends XcmVersion>(loc: Location, amount: bigint, version: V): EncodedAsset<V> {
+  return encodeAsset(asset(loc, amount), version);
+}
+
+export function versionedLocation(loc: Location, version: XcmVersion): VersionedLocation {
+  return { [version]: encodeLocation(loc, version) } as VersionedLocation;
+}
+
+export function versionedAssets(assets: Assets, version: XcmVersion): VersionedAssets {
+  return { [version]: encodeAssets(assets, version) } as VersionedAssets;
+}
+
+export function versionedAssetId(id: Location, version: XcmVersion): VersionedAssetId {
+  const loc = encodeLocation(id, version);
+  return { [version]: version === "V3" ? { Concrete: loc } : loc } as VersionedAssetId;
+}
+
+// Any other versioned payload (e.g. an XCM program)
+export function versioned<T>(version: XcmVersion, value: T): Record<string, T> {
+  return { [version]: value };
+}
@@ -0,0 +1,139 @@
+// xcm-engine/origin.ts
+//
+// Dispatch origin of a transfer: the signer itself, a "real" account the signer (or its multisig)
+// is a proxy of, and/or a multisig the signer is one signatory of. The built XCM call is wrapped
+// in proxy.proxy and multisig.approveAsMulti / asMulti; the outermost origin signs.
+// Account derivation and storage reads live in frontend/src/engine/multisig.ts.
+import { txFn } from "./transfer";
+import type { ChainApi } from "./transfer";
+
+export type ProxySetting = {
+  real: string;          // account the funds sit in
+  proxyType?: string;    // forceProxyType; absent: whichever the delegate has
+};
+
+export type MultisigSetting = {
+  threshold: number;
+  otherSignatories: string[]; // without the signer
+};
+
+export type OriginSetting = {
+  proxy?: ProxySetting;
+  multisig?: MultisigSetting;
+};
+
+// On-chain proxy.proxies entry of the real account
+export type ProxyDefinition = {
+  delegate: string;
+  proxyType: string;
+  delay: number;
+};
+
+// On-chain multisig.multisigs entry
+export type PendingMultisig = {
+  callHash: string;
+  when: { height: number; index: number }; // timepoint of the first approval
+  depositor: string;
+  deposit: bigint;
+  approvals: string[];
+};
+
+// What the signer's extrinsic does for a multisig call
+export type MultisigStep = {
+  timepoint?: { height: number; index: number }; // absent: first approval
+  approvals: number;                             // already on chain
+  final: boolean;                                // the signer's approval dispatches the call
+  error?: string;
+};
+
+// Proxy types that may dispatch XCM transfers (NonTransfer, Governance, Staking... filter them out)
+export const XCM_PROXY_TYPES = ["Any"];
+
+export const MAX_SIGNATORIES = 100;
+
+export function isDirect(origin: OriginSetting): boolean {
+  return !origin.proxy && !origin.multisig;
+}
+
+// -------- Checks --------
+
+export function validateOrigin(origin: OriginSetting): string[] {
+  const errors: string[] = [];
+  if (origin.proxy && !origin.proxy.real.trim()) errors.push("Proxy: the real account is required.");
+  const ms = origin.multisig;
+  if (ms) {
+    const signatories = ms.otherSignatories.length + 1;
+    if (!Number.isInteger(ms.threshold) || ms.threshold < 2) errors.push("Multisig: threshold must be 2 or more.");
+    else if (ms.threshold > signatories) {
+      errors.push(`Multisig: threshold ${ms.threshold} is above the ${signatories} signatories.`);
+    }
+    if (signatories > MAX_SIGNATORIES) errors.push(`Multisig: at most ${MAX_SIGNATORIES} signatories.`);
+    if (new Set(ms.otherSignatories).size !== ms.otherSignatories.length) {
+      errors.push("Multisig: a signatory is listed twice.");
+    }
+  }
+  return errors;
+}
+
+// `delegate` (signer or multisig account) must be an immediate, XCM-capable proxy of the real account
+export function checkProxy(proxies: ProxyDefinition[], delegate: string, proxyType?: string): string | undefined {
+  const mine = proxies.filter((p) => p.delegate === delegate && (!proxyType || p.proxyType === proxyType));
+  if (!mine.length) {
+    const typed = proxyType ? ` (type ${proxyType})` : "";
+    return `${delegate} is not a proxy${typed} of the real account.`;
+  }
+  const usable = mine.filter((p) => XCM_PROXY_TYPES.includes(p.proxyType));
+  if (!usable.length) {
+    const types = mine.map((p) => p.proxyType).join(", ");
+    return `Proxy type ${types} cannot dispatch XCM transfers (needs ${XCM_PROXY_TYPES.join(" or ")}).`;
+  }
+  if (usable.every((p) => p.delay > 0)) {
+    return "The proxy has an announcement delay: announce the call first (not supported here).";
+  }
+  return undefined;
+}
+
+// Step of `signer` for the call with `callHash`, given the multisig's pending operations
+export function multisigStep(
+  pending: PendingMultisig[],
+  callHash: string,
+  threshold: number,
+  signer: string
+): MultisigStep {
+  const op = pending.find((p) => p.callHash === callHash);
+  if (!op) return { approvals: 0, final: false }; // threshold is 2 or more
+  if (op.approvals.includes(signer)) {
+    return { timepoint: op.when, approvals: op.approvals.length, final: false, error: "You already approved this call." };
+  }
+  return { timepoint: op.when, approvals: op.approvals.length, final: op.approvals.length + 1 >= threshold };
+}
+
+// -------- Wrapping --------
+
+// proxy.proxy(real, forceProxyType, call)
+export function wrapProxy<Tx>(api: ChainApi, proxy: ProxySetting, call: unknown): Tx {
+  return txFn(api, "proxy", "proxy")(proxy.real, proxy.proxyType ?? null, call) as Tx;
+}
+
+// asMulti with the call when the signer's approval is the last one, approveAsMulti with its hash before.
+// `otherSignatories` must be sorted (see sortSignatories); `maxWeight` is the weight of `call`.
+export function wrapMultisig<Tx>(
+  api: ChainApi,
+  ms: MultisigSetting,
+  call: unknown,
+  callHash: string,
+  step: MultisigStep,
+  maxWeight: unknown
+): Tx {
+  const timepoint = step.timepoint ?? null;
+  if (step.final) return txFn(api, "multisig", "asMulti")(ms.threshold, ms.otherSignatories, timepoint, call, maxWeight) as Tx;
+  return txFn(api, "multisig", "approveAsMulti")(ms.threshold, ms.otherSignatories, timepoint, callHash, maxWeight) as Tx;
+}
+
+export function formatMultisigStep(step: MultisigStep, threshold: number): string {
+  if (step.error) return step.error;
+  const next = step.approvals + 1;
+  if (step.final) return `Multisig: your approval (${next}/${threshold}) executes the call.`;
+  if (!step.timepoint) return `Multisig: opens the operation (1/${threshold}); the other signatories approve it next.`;
+  return `Multisig: approval ${next}/${threshold}; the call executes at ${threshold}/${threshold}.`;
+}
@@ -0,0 +1,130 @@
+// xcm-engine/paymentRequest.ts
+//
+// Payment requests: a payee asks for one transfer with a link whose query carries the destination,
+// asset, amount, beneficiary and an optional reference. Plain (anyone holding the link can edit it)
+// or signed by the beneficiary; signing, verification and the QR code live in
+// frontend/src/engine/paymentRequest.ts.
+import { CAPABILITIES, isRouteEnabled } from "./capabilities";
+import { validateReference } from "./topic";
+import type { AssetKey, ChainKey, TransferRequest } from "./types";
+import { validateRequest } from "./validate";
+
+export type PaymentRequest = {
+  to: ChainKey;
+  asset: AssetKey;
+  amount: string;
+  beneficiary: string;   // any SS58 format, or 0x EVM on routes accepting it
+  reference?: string;    // payee's invoice / order id, shown to the payer and sent as the XCM topic
+  from?: ChainKey;       // pins the source chain; otherwise any source with a route for the asset
+  signature?: string;    // beneficiary's signature over paymentRequestMessage (hex)
+};
+
+export const PAYMENT_REQUEST_VERSION = "1";
+
+// Query parameter of each field; `pay` marks the link and carries the format version
+const PARAMS = {
+  to: "to",
+  asset: "asset",
+  amount: "amount",
+  beneficiary: "beneficiary",
+  reference: "ref",
+  from: "from",
+  signature: "sig",
+} as const;
+
+// -------- Encoding --------
+
+// Text the beneficiary signs: every field but the signature, in a fixed order
+export function paymentRequestMessage(pr: PaymentRequest): string {
+  return [
+    `crosspay payment request v${PAYMENT_REQUEST_VERSION}`,
+    `to=${pr.to}`,
+    `asset=${pr.asset}`,
+    `amount=${pr.amount}`,
+    `beneficiary=${pr.beneficiary}`,
+    `ref=${pr.reference ?? ""}`,
+    `from=${pr.from ?? ""}`,
+  ].join("\n");
+}
+
+export function paymentRequestQuery(pr: PaymentRequest): string {
+  const q = new URLSearchParams({ pay: PAYMENT_REQUEST_VERSION });
+  for (const field of Object.keys(PARAMS) as Array<keyof typeof PARAMS>) {
+    const v = pr[field];
+    if (v) q.set(PARAMS[field], v);
+  }
+  return q.toString();
+}
+
+// Link to the dApp at `base` (its own query and hash are dropped)
+export function paymentRequestUrl(base: string, pr: PaymentRequest): string {
+  return `${base.split(/[?#]/)[0]}?${paymentRequestQuery(pr)}`;
+}
+
+// -------- Decoding --------
+
+export function isPaymentRequestQuery(search: string): boolean {
+  return new URLSearchParams(search).has("pay");
+}
+
+// Sources with an enabled route carrying the asset to the destination
+export function paymentRequestSources(pr: Pick<PaymentRequest, "to" | "asset" | "from">): ChainKey[] {
+  const sources = CAPABILITIES.filter(
+    (r) => r.to === pr.to && isRouteEnabled(r) && r.assets.some((a) => a.key === pr.asset)
+  ).map((r) => r.from);
+  const unique = [...new Set(sources)];
+  return pr.from ? unique.filter((c) => c === pr.from) : unique;
+}
+
+export function paymentRequestToTransfer(pr: PaymentRequest, from: ChainKey): TransferRequest {
+  return { from, to: pr.to, asset: pr.asset, amount: pr.amount, beneficiary: pr.beneficiary };
+}
+
+// Request of a link's query. Rejected when malformed, when no enabled route serves it, or when the
+// transfer it asks for fails validateRequest. The beneficiary address and the signature are checked
+// by the caller (they need the crypto packages).
+export function parsePaymentRequest(search: string): { request?: PaymentRequest; errors: string[] } {
+  const q = new URLSearchParams(search);
+  const version = q.get("pay");
+  if (version !== PAYMENT_REQUEST_VERSION) {
+    return { errors: [`Unsupported payment request version "${version ?? ""}".`] };
+  }
+
+  const get = (field: keyof typeof PARAMS) => q.get(PARAMS[field])?.trim() || undefined;
+  const to = get("to");
+  const asset = get("asset");
+  const amount = get("amount");
+  const beneficiary = get("beneficiary");
+  if (!to || !asset || !amount || !beneficiary) {
+    return { errors: ["A payment request needs to, asset, amount and beneficiary."] };
+  }
+
+  const request = {
+    to,
+    asset,
+    amount,
+    beneficiary,
+    reference: get("reference"),
+    from: get("from"),
+    signature: get("signature"),
+  } as PaymentRequest;
+
+  const errors: string[] = [];
+  if (!/^\d*\.?\d*$/.test(amount)) errors.push("Amount must be a plain decimal number.");
+  const refError = request.reference ? validateReference(request.reference) : undefined;
+  if (refError) errors.push(refError);
+  if (request.signature && !/^0x[0-9a-fA-F]+$/.test(request.signature)) errors.push("The signature is not hex.");
+
+  // validateRequest rejects unknown chains and assets, and the amount; without a source
+  // (no route serves the request) the From/To comparison does not apply
+  const sources = paymentRequestSources(request);
+  const from = sources[0] ?? request.from;
+  const checked = validateRequest(paymentRequestToTransfer(request, from ?? request.to));
+  errors.push(...(from ? checked : checked.filter((e) => !e.startsWith("From and To"))));
+  if (!sources.length && !errors.length) {
+    const pinned = request.from ? ` from ${request.from}` : "";
+    errors.push(`No supported route sends ${asset}${pinned} to ${to}.`);
+  }
+
+  return errors.length ? { errors } : { request, errors };
+}
@@ -0,0 +1,145 @@
+// xcm-engine/program.ts
+//
+// Explicit XCM programs for `execute` routes.
+// Every instruction is written out here so the message can be reviewed before signing;
+// nothing is left to pallet-xcm's transfer helpers.
+import type { HopTransfer, RouteAsset, RouteDescriptor } from "./capabilities";
+import { encodeFungible, encodeLocation } from "./location";
+import type { Location, XcmVersion } from "./location";
+
+export type Weight = { refTime: bigint; proofSize: bigint };
+
+export type XcmInstruction = Record<string, unknown>; // one encoded instruction, e.g. { WithdrawAsset: [...] }
+
+export type ExecuteProgram = {
+  version: XcmVersion;
+  instructions: XcmInstruction[];
+  maxWeight?: Weight;
+  weightSource?: "runtime" | "fallback";
+};
+
+// Share of the transferred amount BuyExecution may spend on each hop.
+// Unused fees go back to holding and travel on with the rest.
+const DEST_FEE_DIVISOR = 2n;
+
+// Headroom over the runtime's own weight of the local program
+const WEIGHT_MARGIN_PCT = 20n;
+
+// Used when the source runtime cannot weigh XCM (no XcmPaymentApi): generous per-instruction bound
+const FALLBACK_INSTRUCTION_WEIGHT: Weight = { refTime: 1_000_000_000n, proofSize: 65_536n };
+
+const ALL_COUNTED = (n: number) => ({ Wild: { AllCounted: n } });
+
+// -------- Builder --------
+
+// One hop of the program: how the asset moves, where to (as seen from the previous chain)
+// and the asset as seen from there (pays BuyExecution on arrival)
+type ProgramLeg = { transfer: HopTransfer; dest: Location; assetLocation: Location };
+
+function programLegs(route: RouteDescriptor, asset: RouteAsset): ProgramLeg[] {
+  if (route.via) {
+    const [first, second] = route.via.transfers;
+    return [
+      { transfer: first, dest: route.via.location, assetLocation: route.via.assetLocation },
+      { transfer: second, dest: route.via.dest, assetLocation: asset.destLocation },
+    ];
+  }
+  if (route.reserve) {
+    return [
+      { transfer: "reserve_withdraw", dest: route.reserve.location, assetLocation: route.reserve.assetLocation },
+      { transfer: "reserve_deposit", dest: route.reserve.dest, assetLocation: asset.destLocation },
+    ];
+  }
+  return [{ transfer: "reserve_deposit", dest: route.dest, assetLocation: asset.destLocation }];
+}
+
+function transferInstruction(transfer: HopTransfer, dest: Location, xcm: XcmInstruction[], v: XcmVersion): XcmInstruction {
+  const to = encodeLocation(dest, v);
+  if (transfer === "teleport") return { InitiateTeleport: { assets: ALL_COUNTED(1), dest: to, xcm } };
+  if (transfer === "reserve_withdraw") return { InitiateReserveWithdraw: { assets: ALL_COUNTED(1), reserve: to, xcm } };
+  return { DepositReserveAsset: { assets: ALL_COUNTED(1), dest: to, xcm } };
+}
+
+// Program for `route`: withdraw `amount` of `asset` on the source, move it hop by hop
+// (straight to the destination, through `route.reserve` or through `route.via`) and deposit it to `beneficiary`.
+//
+//   WithdrawAsset(asset)
+//   DepositReserveAsset(dest)        | InitiateReserveWithdraw(reserve)  | <transfer>(via)
+//     BuyExecution(fees)             |   BuyExecution(fees)              |   BuyExecution(fees)
+//     DepositAsset(beneficiary)      |   DepositReserveAsset(dest)       |   <transfer>(dest)
+//                                    |     BuyExecution(fees)            |     BuyExecution(fees)
+//                                    |     DepositAsset(beneficiary)     |     DepositAsset(beneficiary)
+//
+// <transfer> is InitiateTeleport, InitiateReserveWithdraw or DepositReserveAsset (route.via.transfers).
+// With a `topic` (32-byte hex), SetTopic closes the program and every message it forwards: routers
+// keep a trailing SetTopic as the message id, so each hop reports the same id.
+export function buildExecuteProgram(
+  route: RouteDescriptor,
+  asset: RouteAsset,
+  amount: bigint,
+  beneficiary: Location, // as seen from the destination (beneficiaryLocation)
+  v: XcmVersion,
+  topic?: string
+): ExecuteProgram {
+  const fees = amount / DEST_FEE_DIVISOR;
+  const closing: XcmInstruction[] = topic ? [{ SetTopic: topic }] : [];
+
+  // built inside out: the last hop's deposit first
+  let xcm: XcmInstruction[] = [
+    { DepositAsset: { assets: ALL_COUNTED(1), beneficiary: encodeLocation(beneficiary, v) } },
+  ];
+  for (const leg of programLegs(route, asset).reverse()) {
+    const onArrival: XcmInstruction[] = [
+      { BuyExecution: { fees: encodeFungible(leg.assetLocation, fees, v), weightLimit: { Unlimited: null } } },
+      ...xcm,
+      ...closing,
+    ];
+    xcm = [transferInstruction(leg.transfer, leg.dest, onArrival, v)];
+  }
+
+  return {
+    version: v,
+    instructions: [{ WithdrawAsset: [encodeFungible(asset.location, amount, v)] }, ...xcm, ...closing],
+  };
+}
+
+// -------- Weight --------
+
+export function withWeightMargin(w: Weight): Weight {
+  return {
+    refTime: w.refTime + (w.refTime * WEIGHT_MARGIN_PCT) / 100n,
+    proofSize: w.proofSize + (w.proofSize * WEIGHT_MARGIN_PCT) / 100n,
+  };
+}
+
+// Only the top-level instructions run on the source; nested programs are weighed remotely.
+export function fallbackMaxWeight(program: ExecuteProgram): Weight {
+  const n = BigInt(program.instructions.length);
+  return {
+    refTime: FALLBACK_INSTRUCTION_WEIGHT.refTime * n,
+    proofSize: FALLBACK_INSTRUCTION_WEIGHT.proofSize * n,
+  };
+}
+
+export function encodeWeight(w: Weight): { refTime: string; proofSize: string } {
+  return { refTime: w.refTime.toString(), proofSize: w.proofSize.toString() };
+}
+
+// -------- Review --------
+
+// Pretty JSON of the program (byte arrays as hex, amounts as strings)
+export function formatProgram(program: ExecuteProgram): string {
+  return JSON.stringify(
+    {
+      version: program.version,
+      maxWeight: program.maxWeight ? { ...encodeWeight(program.maxWeight), source: program.weightSource } : undefined,
+      instructions: program.instructions,
+    },
+    (_k, value) => {
+      if (value instanceof Uint8Array) return `0x${[...value].map((b) => b.toString(16).padStart(2, "0")).join("")}`;
+      if (typeof value === "bigint") return value.toString();
+      return value;
+    },
+    2
+  );
+}
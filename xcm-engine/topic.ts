@@ -0,0 +1,100 @@
+// xcm-engine/topic.ts
+//
+// Payment references as XCM topics: a reference (invoice number, order id) maps to a fixed
+// SetTopic id, so the payee finds the deposit by the reference alone. The id is the blake2-256
+// of topicPreimage(reference), hashed by the caller (frontend/src/engine/topic.ts); this file also
+// decides which transfers can carry it and turns the destination scan into a paid / underpaid verdict.
+import { formatUnits } from "./amount";
+import type { RouteDescriptor } from "./capabilities";
+import type { DryRunCredit } from "./dryRun";
+import type { ChainKey } from "./types";
+
+export const MAX_REFERENCE_LENGTH = 64;
+
+// -------- Reference --------
+
+export function normalizeReference(reference: string): string {
+  return reference.trim();
+}
+
+export function validateReference(reference: string): string | undefined {
+  const ref = normalizeReference(reference);
+  const control = (c: string) => c.charCodeAt(0) < 0x20 || c.charCodeAt(0) === 0x7f;
+  if (ref.length > MAX_REFERENCE_LENGTH || [...ref].some(control)) {
+    return `The reference must be at most ${MAX_REFERENCE_LENGTH} printable characters.`;
+  }
+  return undefined;
+}
+
+// Text hashed into the topic id; versioned so the derivation can change without collisions
+export function topicPreimage(reference: string): string {
+  return `crosspay:payment-reference:v1:${normalizeReference(reference)}`;
+}
+
+// Whether the built XCM can end with our SetTopic: execute programs and custom_xcm_on_dest
+// (transferAssetsUsingTypeAndThen) can; transferAssets and the legacy calls let pallet-xcm
+// write the message, and its router picks the topic.
+export function topicUnsupportedReason(route: RouteDescriptor, method: string): string | undefined {
+  if (route.call === "execute") return undefined;
+  if (route.transferType && method === "typeAndThen") return undefined;
+  return route.transferType
+    ? "A payment reference needs the transferAssetsUsingTypeAndThen method."
+    : `${route.label} cannot carry a payment reference (pallet-xcm writes its message).`;
+}
+
+// -------- Verification --------
+
+// One messageQueue result on the destination carrying the topic
+export type TopicMatch = {
+  blockNumber: number;
+  blockHash: string;
+  success: boolean;
+  credit?: DryRunCredit; // to the beneficiary, in the message's events
+};
+
+export type PaymentStatus = "paid" | "underpaid" | "not_found";
+
+export type PaymentVerification = {
+  status: PaymentStatus;
+  chain: ChainKey;
+  topic: string;
+  expected: bigint;    // smallest units
+  received: bigint;    // sum of the credits of successful messages
+  matches: TopicMatch[];
+  scanned: { from: number; to: number };
+  reason?: string;
+};
+
+// `tolerance` is the share of `expected` that may be missing (destination fees deducted on arrival)
+export function paymentVerdict(
+  input: Omit<PaymentVerification, "status" | "received" | "reason">,
+  tolerance = 0
+): PaymentVerification {
+  const { matches, expected } = input;
+  const received = matches.reduce((sum, m) => (m.success && m.credit ? sum + BigInt(m.credit.amount) : sum), 0n);
+  const floor = expected - (expected * BigInt(Math.round(tolerance * 10_000))) / 10_000n;
+
+  if (!matches.length) {
+    const { from, to } = input.scanned;
+    return { ...input, status: "not_found", received, reason: `No message with this topic in blocks #${from}–#${to}.` };
+  }
+  if (received >= floor) return { ...input, status: "paid", received };
+
+  const failed = matches.filter((m) => !m.success).length;
+  const reason = !received
+    ? failed
+      ? "The message with this topic failed on the destination: nothing was credited."
+      : "The message with this topic credited nothing to the beneficiary."
+    : undefined;
+  return { ...input, status: "underpaid", received, reason };
+}
+
+export function formatPaymentVerification(v: PaymentVerification, decimals: number, symbol: string): string {
+  const amounts = `${formatUnits(v.received, decimals)} of ${formatUnits(v.expected, decimals)} ${symbol}`;
+  const blocks = v.matches.map((m) => `#${m.blockNumber}`).join(", ");
+  if (v.status === "paid") return `✅ Paid on ${v.chain}: ${amounts} received (${blocks}).`;
+  if (v.status === "underpaid") {
+    return `⚠️ Underpaid on ${v.chain}: ${amounts} received (${blocks}).${v.reason ? ` ${v.reason}` : ""}`;
+  }
+  return `❔ Not found on ${v.chain}: ${v.reason ?? "no message with this topic."}`;
+}
@@ -0,0 +1,486 @@
+// xcm-engine/transfer.ts
+//
+// Headless transfer engine: build, sign and submit the registry routes without React.
+// No @polkadot/* import here: the API factory, signer and logger are injected,
+// so the same builders run in the dApp, the CLI and backend services.
+import { parseAmount } from "./amount";
+import { feePayingAsset, findRouteByKey } from "./capabilities";
+import type { FeeAssetChoice, RouteAsset, RouteDescriptor } from "./capabilities";
+import { extractMessageIds, sentMessageIds } from "./delivery";
+import { beneficiaryLocation } from "./beneficiary";
+import {
+  asset as fungible,
+  encodeLocation,
+  sameLocation,
+  sortAssets,
+  versioned,
+  versionedAssetId,
+  versionedAssets,
+  versionedLocation,
+} from "./location";
+import type { Asset, XcmVersion } from "./location";
+import { buildExecuteProgram, encodeWeight, fallbackMaxWeight, withWeightMargin } from "./program";
+import type { ExecuteProgram } from "./program";
+import { topicUnsupportedReason } from "./topic";
+import { negotiateXcmVersion } from "./version";
+import type { VersionNegotiation } from "./version";
+import type { TransferRequest } from "./types";
+
+// -------- Structural types --------
+
+// A decoded chain value: the parts of @polkadot's Codec the engine reads.
+export interface CodecLike {
+  toString(): string;
+  toHex(): string;
+  toHuman(): unknown;
+}
+
+// pallet -> item, as ApiPromise decorates tx, query, consts and call
+type Modules<T> = Record<string, Record<string, T | undefined> | undefined>;
+type ChainFn<R> = (...args: unknown[]) => R;
+
+// The parts of @polkadot/api's ApiPromise the engine uses.
+export interface ChainApi {
+  tx: Modules<ChainFn<unknown>>; // extrinsic builders; callers pick the concrete type (buildTransfer's Tx)
+  query: Modules<ChainFn<Promise<CodecLike>>>;
+  consts?: Modules<CodecLike>; // pallet-xcm advertisedXcmVersion
+  call?: Modules<ChainFn<Promise<CodecLike>>>; // runtime APIs (XcmPaymentApi weighs `execute` programs)
+  registry: { findMetaError(e: unknown): { section: string; name: string; docs: string[] } };
+  disconnect(): Promise<void>;
+}
+
+// A source event record (system.events, or the events of a submit result)
+export type EventRecordLike = {
+  event: CodecLike & {
+    section: string;
+    method: string;
+    data: ArrayLike<CodecLike> & { names?: string[] | null; result?: CodecLike };
+  };
+};
+
+// DispatchError: module errors decode through the registry
+type DispatchErrorLike = CodecLike & { isModule: boolean; asModule: unknown };
+
+// Result<(), DispatchError> carried by proxy.ProxyExecuted / multisig.MultisigExecuted
+type DispatchResultLike = CodecLike & { isErr: boolean; asErr: DispatchErrorLike };
+
+// The parts of an ISubmittableResult submitTransfer reads.
+export type SubmitResultLike = {
+  dispatchError?: DispatchErrorLike;
+  events: EventRecordLike[];
+  txHash?: CodecLike;
+  status: {
+    type: string;
+    isFinalized: boolean;
+    asFinalized: CodecLike;
+    isInvalid: boolean;
+    isDropped: boolean;
+    isUsurped: boolean;
+  };
+};
+
+// The parts of a SubmittableExtrinsic the engine uses.
+export interface SubmittableLike {
+  method: { section: string; method: string; toHex(): string };
+  signAndSend(account: unknown, options: object, cb: (result: SubmitResultLike) => void): Promise<() => void>;
+}
+
+// api.tx.<pallet>.<call>, when the runtime exposes it
+export function txFn(api: ChainApi, pallet: string, call: string): ChainFn<unknown> {
+  const fn = api.tx[pallet]?.[call];
+  if (!fn) throw new Error(`${pallet}.${call} is not available on this chain.`);
+  return fn;
+}
+
+// Either an address with an injected signer (browser extension) or a keyring pair (scripts).
+export type TransferSigner =
+  | { address: string; signer: unknown }
+  | { pair: { address: string } };
+
+export type TransferLogger = (line: string) => void;
+
+// -------- Amounts --------
+
+// Smallest units of a decimal amount; throws on malformed input or more decimals than the asset has
+// (see amount.ts) instead of truncating or reading it as zero
+export function parseDecimalToInt(amount: string, decimals: number): bigint {
+  return parseAmount(amount, decimals).planck;
+}
+
+// -------- Connection --------
+
+export function withTimeout<T>(p: Promise<T>, ms: number): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const t = setTimeout(() => reject(new Error("RPC timeout")), ms);
+    p.then((v) => {
+      clearTimeout(t);
+      resolve(v);
+    }).catch((e) => {
+      clearTimeout(t);
+      reject(e);
+    });
+  });
+}
+
+export type ConnectOptions<A> = {
+  createApi: (rpc: string) => Promise<A>;
+  log?: TransferLogger;
+  timeoutMs?: number; // default 8000
+
+  // remembers the last endpoint that worked (e.g. sessionStorage)
+  cache?: { getItem(key: string): string | null; setItem(key: string, value: string): void };
+  cacheKey?: string;
+};
+
+export async function connectApiWithFallback<A>(
+  rpcs: string[],
+  opts: ConnectOptions<A>
+): Promise<{ api: A; rpc: string }> {
+  const log = opts.log ?? (() => {});
+  const cached = opts.cacheKey ? opts.cache?.getItem(opts.cacheKey) : null;
+  const ordered = cached ? [cached, ...rpcs.filter((x) => x !== cached)] : rpcs;
+
+  log("Connecting RPC (fallback mode)");
+  let lastErr: unknown = null;
+
+  for (const rpc of ordered) {
+    try {
+      log(`→ Trying: ${rpc}`);
+      const api = await withTimeout(opts.createApi(rpc), opts.timeoutMs ?? 8000);
+      log(`✅ Connected: ${rpc}`);
+      if (opts.cacheKey) opts.cache?.setItem(opts.cacheKey, rpc);
+      return { api, rpc };
+    } catch (e) {
+      lastErr = e;
+      log(`✗ Failed: ${rpc} (${e instanceof Error ? e.message : String(e)})`);
+    }
+  }
+
+  throw new Error(
+    `All RPC endpoints failed. Last error: ${lastErr instanceof Error ? lastErr.message : String(lastErr)}`
+  );
+}
+
+// -------- Build --------
+
+// Decimals from chain state when the registry names a source, else the registry value
+export async function readAssetDecimals(api: ChainApi, asset: RouteAsset): Promise<number> {
+  const q = asset.decimalsQuery;
+  if (!q) return asset.decimals;
+
+  if (q.pallet === "assets") {
+    const md = (await api.query.assets?.metadata?.(q.id)) as (CodecLike & { decimals?: CodecLike }) | undefined;
+    return Number(md?.decimals?.toString() ?? String(asset.decimals));
+  }
+
+  const a = await api.query.assetRegistry?.assets?.(q.id);
+  const human = a?.toHuman() as { decimals?: string | number } | null | undefined;
+  return Number(human?.decimals ?? String(asset.decimals));
+}
+
+// How reserve routes are built:
+// - typeAndThen:    transferAssetsUsingTypeAndThen, transfer type from the registry (default)
+// - transferAssets: transferAssets, the runtime infers the transfer type
+// - legacy:         the route's limitedReserveTransferAssets (deprecated upstream, kept as a fallback)
+export type TransferMethod = "typeAndThen" | "transferAssets" | "legacy";
+
+export const TRANSFER_METHOD_CALL: Record<TransferMethod, string | undefined> = {
+  typeAndThen: "transferAssetsUsingTypeAndThen",
+  transferAssets: "transferAssets",
+  legacy: undefined, // route.call
+};
+
+export type BuildOptions = {
+  advancedEnabled?: boolean;
+  // reserve routes with a transferType only; others always use their own call
+  method?: TransferMethod;
+  // asset paying destination fees (routes with a feeAsset only)
+  feeAsset?: FeeAssetChoice;
+  // receives the XCM program of `execute` routes (with its max_weight) for review
+  onProgram?: (program: ExecuteProgram) => void;
+  // connection to the next hop (the destination, or `route.via` on multi-hop routes):
+  // its advertised XCM version when the source has none recorded
+  destApi?: ChainApi;
+  // receives the XCM version dest, beneficiary and assets were encoded with
+  onVersion?: (negotiation: VersionNegotiation) => void;
+  // SetTopic id (32-byte hex) of a payment reference, see topic.ts; execute and typeAndThen only
+  topic?: string;
+};
+
+// max_weight for `program`: the source runtime's own weight plus a margin, else a static bound
+export async function weighProgram(api: ChainApi, program: ExecuteProgram): Promise<ExecuteProgram> {
+  const pay = api.call?.xcmPaymentApi;
+  if (pay?.queryXcmWeight) {
+    try {
+      const res = (await pay.queryXcmWeight(versioned(program.version, program.instructions))) as CodecLike & {
+        isOk: boolean;
+        asOk: { refTime: CodecLike; proofSize: CodecLike };
+      };
+      if (res?.isOk) {
+        const w = res.asOk;
+        const weight = { refTime: BigInt(w.refTime.toString()), proofSize: BigInt(w.proofSize.toString()) };
+        return { ...program, maxWeight: withWeightMargin(weight), weightSource: "runtime" };
+      }
+    } catch {
+      // weighing is best-effort: fall back to the static bound
+    }
+  }
+  return { ...program, maxWeight: fallbackMaxWeight(program), weightSource: "fallback" };
+}
+
+// Unsigned extrinsic for `request`, crediting `beneficiary`: AccountId32 bytes, or a 20-byte H160
+// on routes with `evmBeneficiary` (encoded as the route declares, see beneficiary.ts).
+// `Tx` lets callers keep their concrete extrinsic type (e.g. SubmittableExtrinsic<"promise">).
+export async function buildTransfer<Tx = SubmittableLike>(
+  api: ChainApi,
+  request: TransferRequest,
+  beneficiary: Uint8Array,
+  opts: BuildOptions = {}
+): Promise<Tx> {
+  const match = findRouteByKey(request.from, request.to, request.asset, opts.advancedEnabled);
+  if (!match) throw new Error("Unsupported route/asset.");
+
+  const { route, asset } = match;
+  const beneficiaryLoc = beneficiaryLocation(route, beneficiary); // throws for an H160 the route cannot take
+
+  const method: TransferMethod = route.transferType ? opts.method ?? "typeAndThen" : "legacy";
+  const topicError = opts.topic ? topicUnsupportedReason(route, method) : undefined;
+  if (topicError) throw new Error(topicError);
+  const call = TRANSFER_METHOD_CALL[method] ?? route.call;
+  const pallet = route.pallets.find((p) => api.tx[p]?.[call]);
+  if (!pallet) {
+    const hint = method === "legacy" ? "" : " Choose the legacy method.";
+    throw new Error(`${route.from} runtime does not expose ${call}.${hint}`);
+  }
+
+  // throws when source and next hop share no XCM version the engine can encode
+  // (each hop re-encodes what it forwards for the chain after it)
+  const negotiation = await negotiateXcmVersion(api, route.via?.location ?? route.dest, opts.destApi);
+  opts.onVersion?.(negotiation);
+  const v = negotiation.version;
+
+  const decimals = await readAssetDecimals(api, asset);
+  const amountInt = parseDecimalToInt(request.amount, decimals);
+
+  if (route.call === "execute") {
+    const program = await weighProgram(api, buildExecuteProgram(route, asset, amountInt, beneficiaryLoc, v, opts.topic));
+    opts.onProgram?.(program);
+    const message = versioned(v, program.instructions);
+    return txFn(api, pallet, "execute")(message, encodeWeight(program.maxWeight ?? fallbackMaxWeight(program))) as Tx;
+  }
+
+  const dest = versionedLocation(route.dest, v);
+  const benef = versionedLocation(beneficiaryLoc, v);
+
+  const feeAsset = feePayingAsset(route, asset, opts.feeAsset);
+  if (method === "legacy") {
+    if (feeAsset !== asset) throw new Error("The legacy method pays fees with the transferred asset only.");
+    const assets = versionedAssets([fungible(asset.location, amountInt)], v);
+    return txFn(api, pallet, route.call)(dest, benef, assets, 0, { Unlimited: null }) as Tx;
+  }
+
+  // the fee asset travels with the transfer; sorted as the runtime expects
+  const moved: Asset[] = [fungible(asset.location, amountInt)];
+  if (feeAsset !== asset) {
+    const budget = parseDecimalToInt(route.feeAsset?.budget ?? "0", await readAssetDecimals(api, feeAsset));
+    moved.push(fungible(feeAsset.location, budget));
+  }
+  const sorted = sortAssets(moved);
+  const assets = versionedAssets(sorted, v);
+
+  if (method === "transferAssets") {
+    const feeIndex = sorted.findIndex((a) => sameLocation(a.id, feeAsset.location));
+    return txFn(api, pallet, "transferAssets")(dest, benef, assets, feeIndex, { Unlimited: null }) as Tx;
+  }
+
+  const transferType = encodeTransferType(route, v);
+  const onDest = versioned(v, [
+    {
+      DepositAsset: {
+        assets: { Wild: { AllCounted: sorted.length } },
+        beneficiary: encodeLocation(beneficiaryLoc, v),
+      },
+    },
+    // last, so the router keeps it as the message id
+    ...(opts.topic ? [{ SetTopic: opts.topic }] : []),
+  ]);
+  return txFn(api, pallet, "transferAssetsUsingTypeAndThen")(
+    dest,
+    assets,
+    transferType,
+    versionedAssetId(feeAsset.location, v),
+    transferType, // the fee asset shares the route's reserve (DOT and the stablecoins both live on Asset Hub)
+    onDest,
+    { Unlimited: null }
+  ) as Tx;
+}
+
+function encodeTransferType(route: RouteDescriptor, v: XcmVersion): unknown {
+  if (route.transferType !== "RemoteReserve") return { [route.transferType ?? "LocalReserve"]: null };
+  if (!route.reserve) throw new Error(`${route.label}: RemoteReserve needs a reserve location.`);
+  return { RemoteReserve: versionedLocation(route.reserve.location, v) };
+}
+
+// -------- Submit --------
+
+export type TransferEvent =
+  | { type: "status"; status: string }
+  | { type: "dispatchError"; message: string }
+  | { type: "finalized"; blockHash: string; events: string[] };
+
+export type TransferOutcome = {
+  ok: boolean;
+  blockHash: string;
+  txHash?: string;
+  error?: string;
+  events: string[];
+  messageIds: string[]; // outgoing XCM ids, for destination delivery tracking
+  sentIds?: string[];   // pallet-xcm Sent ids in dispatch order (one per transfer of a batch)
+};
+
+// Interesting events of a finalized result, one line each (noisy system events dropped).
+export function describeFinalizedEvents(result: { events: EventRecordLike[] }): string[] {
+  const lines: string[] = [];
+  try {
+    for (const { event } of result.events) {
+      const sec = event.section;
+      const met = event.method;
+
+      const interesting =
+        sec === "polkadotXcm" ||
+        sec === "xcmPallet" ||
+        sec === "xcmpQueue" ||
+        sec === "messageQueue" ||
+        sec === "dmpQueue" ||
+        sec === "balances" ||
+        sec === "assets" ||
+        sec === "tokens" ||
+        sec === "proxy" ||
+        sec === "multisig" ||
+        sec === "system";
+
+      if (!interesting) continue;
+
+      let payload = "";
+      try {
+        payload = JSON.stringify(event.toHuman());
+      } catch {
+        payload = event.toString();
+      }
+
+      // keep system noise low
+      if (sec === "system" && met !== "ExtrinsicSuccess" && met !== "ExtrinsicFailed")
+        continue;
+
+      if (sec === "polkadotXcm" && met === "Attempted") {
+        let p2 = "";
+        try {
+          p2 = JSON.stringify(event.toHuman(), null, 2);
+        } catch {
+          p2 = event.toString();
+        }
+        lines.push(`*** polkadotXcm.Attempted ***\n${p2}`);
+      } else {
+        lines.push(`${sec}.${met}: ${payload}`);
+      }
+    }
+  } catch {
+    // best-effort: decoding must never break the submit flow
+  }
+  return lines;
+}
+
+export function formatTransferEvent(ev: TransferEvent): string {
+  if (ev.type === "status") return `Status: ${ev.status}`;
+  if (ev.type === "dispatchError") return `❌ DispatchError: ${ev.message}`;
+
+  const head = `🎉 Finalized: ${ev.blockHash}`;
+  if (!ev.events.length) return head;
+  return `${head}\n\n--- EVENTS (finalized) ---\n${ev.events.join("\n")}\n--- END EVENTS ---`;
+}
+
+function decodeDispatchError(api: ChainApi, err: DispatchErrorLike): string {
+  if (err.isModule) {
+    const decoded = api.registry.findMetaError(err.asModule);
+    return `${decoded.section}.${decoded.name}: ${decoded.docs.join(" ")}`;
+  }
+  return err.toString();
+}
+
+// Calls wrapped in proxy.proxy / multisig.asMulti report their result in an event:
+// the extrinsic itself succeeds even when the transfer inside fails.
+function wrappedDispatchError(api: ChainApi, events: EventRecordLike[] = []): string | undefined {
+  for (const { event } of events) {
+    const wrapper =
+      (event.section === "proxy" && event.method === "ProxyExecuted") ||
+      (event.section === "multisig" && event.method === "MultisigExecuted");
+    if (!wrapper) continue;
+    const result = (event.data.result ?? event.data[event.data.length - 1]) as DispatchResultLike | undefined;
+    if (result?.isErr) return decodeDispatchError(api, result.asErr);
+  }
+  return undefined;
+}
+
+// Signs and submits `tx`; resolves once the block is finalized (or the tx is dropped).
+export function submitTransfer(
+  api: ChainApi,
+  tx: SubmittableLike,
+  signer: TransferSigner,
+  onEvent: (ev: TransferEvent) => void = () => {}
+): Promise<TransferOutcome> {
+  const account = "pair" in signer ? signer.pair : signer.address;
+  const options = "pair" in signer ? {} : { signer: signer.signer };
+
+  return new Promise((resolve, reject) => {
+    let unsub: (() => void) | undefined;
+    let done = false;
+    let dispatchError: string | undefined;
+
+    const finish = (out: TransferOutcome) => {
+      done = true;
+      try { unsub?.(); } catch { /* already unsubscribed */ }
+      resolve(out);
+    };
+
+    tx.signAndSend(account, options, (result) => {
+      if (done) return;
+
+      if (result.dispatchError && !dispatchError) {
+        dispatchError = decodeDispatchError(api, result.dispatchError);
+        onEvent({ type: "dispatchError", message: dispatchError });
+      }
+
+      if (result.status.isFinalized) {
+        const inner = dispatchError ? undefined : wrappedDispatchError(api, result.events);
+        if (inner) {
+          dispatchError = inner;
+          onEvent({ type: "dispatchError", message: inner });
+        }
+        const blockHash = result.status.asFinalized.toString();
+        const events = describeFinalizedEvents(result);
+        onEvent({ type: "finalized", blockHash, events });
+        finish({
+          ok: !dispatchError,
+          blockHash,
+          txHash: result.txHash?.toString(),
+          error: dispatchError,
+          events,
+          messageIds: extractMessageIds(result.events),
+          sentIds: sentMessageIds(result.events),
+        });
+        return;
+      }
+
+      onEvent({ type: "status", status: result.status.type });
+
+      if (result.status.isInvalid || result.status.isDropped || result.status.isUsurped) {
+        finish({ ok: false, blockHash: "", error: `Transaction ${result.status.type}`, events: [], messageIds: [] });
+      }
+    })
+      .then((u) => {
+        unsub = u;
+        if (done) u();
+      })
+      .catch(reject);
+  });
+}
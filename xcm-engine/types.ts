@@ -2,15 +2,16 @@ export type ChainKey = "assethub" | "hydradx" | "relay" | "people";
 
 export type AssetKey =
   | "DOT"
+  | "DOT_HYDRA"
   | "USDC_AH"
   | "USDT_AH"
   | "USDC_HYDRA"
   | "USDT_HYDRA";
 
 export type FeeClamp = {
-  pct: number;
-  minDot: number;
-  maxDot: number;
+  bps: number;    // share of the amount, in basis points (15 = 0.15%)
+  minDot: string; // decimal
+  maxDot: string; // decimal
 };
 
 export type TransferRequest = {
@@ -18,12 +19,30 @@ export type TransferRequest = {
   to: ChainKey;
   asset: AssetKey;
   amount: string;
+  beneficiary?: string; // account credited on the destination (any SS58 format); empty: the sender
+};
+
+export type FeeLegKind =
+  | "source_extrinsic"       // paymentInfo of the signed extrinsic
+  | "local_execution"        // XcmPaymentApi weight of the local XCM
+  | "delivery"               // XcmPaymentApi delivery fees to the next hop
+  | "intermediate_execution" // XcmPaymentApi weight of the forwarded XCM, on the chain a multi-hop route passes through
+  | "destination_execution"; // XcmPaymentApi weight of the forwarded XCM, on the destination
+
+export type FeeLeg = {
+  kind: FeeLegKind;
+  chain: ChainKey;
+  asset: string;      // symbol of the asset paying this leg (DOT, HDX, USDC, ...)
+  amount?: string;    // exact decimal (formatUnits); undefined when the runtime could not quote it
+  inTotal: boolean;   // false when the leg is already contained in another one
+  note?: string;
 };
 
 export type FeeQuote = {
   networkFeeDotEst: string;
   serviceFeeDot: string;
   totalFeeDot: string;
+  legs?: FeeLeg[];
   notes: string[];
 };
 
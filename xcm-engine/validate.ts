@@ -1,20 +1,26 @@
 import type { TransferRequest } from "./types";
+import { amountError, parseAmount } from "./amount";
+import { CAPABILITIES, assetDecimals } from "./capabilities";
 
 export function validateRequest(req: TransferRequest): string[] {
   const errs: string[] = [];
 
   if (req.from === req.to) errs.push("From and To chains must be different.");
 
-  if (!req.amount || Number(req.amount) <= 0) {
-    errs.push("Amount must be greater than zero.");
+  // exact, in the asset's decimals: malformed or over-precise input is an error, never rounded
+  const decimals = assetDecimals(req.asset);
+  if (decimals !== undefined) {
+    const amountErr = amountError(req.amount, decimals);
+    if (amountErr) errs.push(amountErr);
+    else if (parseAmount(req.amount, decimals).planck === 0n) errs.push("Amount must be greater than zero.");
   }
 
-  const allowedChains = new Set(["assethub", "hydradx", "relay", "people"]);
+  const allowedChains = new Set<string>(CAPABILITIES.flatMap((r) => [r.from, r.to]));
   if (!allowedChains.has(req.from) || !allowedChains.has(req.to)) {
     errs.push("Unsupported chain.");
   }
 
-  const allowedAssets = new Set(["DOT", "USDC_AH", "USDT_AH", "USDC_HYDRA", "USDT_HYDRA"]);
+  const allowedAssets = new Set<string>(CAPABILITIES.flatMap((r) => r.assets.map((a) => a.key)));
   if (!allowedAssets.has(req.asset)) errs.push("Unsupported asset.");
 
   return errs;
@@ -0,0 +1,114 @@
+// xcm-engine/version.ts
+//
+// XCM version negotiation: dest, beneficiary and assets of a transfer are encoded in the highest
+// version both the source and the destination understand, read from chain state on every build
+// instead of being pinned per route.
+import type { Location, XcmVersion } from "./location";
+import { versionedLocation } from "./location";
+import type { ChainApi, CodecLike } from "./transfer";
+
+// Versions the encoders in location.ts can write
+export const XCM_VERSIONS: readonly XcmVersion[] = ["V3", "V4", "V5"];
+
+export type VersionNegotiation = {
+  version: XcmVersion;
+  sourceVersion: number;     // highest version the source runtime speaks
+  destVersion: number;       // highest version the destination is known to understand
+  destSource: "supportedVersion" | "advertisedXcmVersion" | "safeXcmVersion";
+};
+
+// The parts of an ApiPromise used here (same structural style as ChainApi in transfer.ts)
+type VersionApi = Pick<ChainApi, "query" | "consts">;
+
+// Option<u32> storage values, or a plain u32 constant
+type OptionalNumber = CodecLike & { isNone?: boolean; isSome?: boolean; unwrap?(): CodecLike };
+
+export function versionNumber(v: XcmVersion): number {
+  return Number(v.slice(1));
+}
+
+// Highest encodable version not above both sides, or undefined when there is none
+export function pickVersion(sourceVersion: number, destVersion: number): XcmVersion | undefined {
+  const max = Math.min(sourceVersion, destVersion);
+  return [...XCM_VERSIONS].reverse().find((v) => versionNumber(v) <= max);
+}
+
+export function formatNegotiation(n: VersionNegotiation): string {
+  return `XCM ${n.version} (source speaks v${n.sourceVersion}, destination v${n.destVersion} via ${n.destSource})`;
+}
+
+// -------- Chain state --------
+
+function palletOf(api: VersionApi): "polkadotXcm" | "xcmPallet" | undefined {
+  if (api.query.polkadotXcm) return "polkadotXcm";
+  if (api.query.xcmPallet) return "xcmPallet";
+  return undefined;
+}
+
+function optNumber(v: OptionalNumber | undefined | null): number | undefined {
+  if (v === undefined || v === null) return undefined;
+  if (v.isNone) return undefined;
+  const inner = v.isSome && v.unwrap ? v.unwrap() : v;
+  const n = Number(inner.toString());
+  return Number.isFinite(n) ? n : undefined;
+}
+
+// Version the chain itself advertises (pallet-xcm constant), else its safe default
+async function ownVersion(api: VersionApi): Promise<number | undefined> {
+  const pallet = palletOf(api);
+  if (!pallet) return undefined;
+  const advertised = optNumber(api.consts?.[pallet]?.advertisedXcmVersion);
+  if (advertised !== undefined) return advertised;
+  return optNumber(await api.query[pallet]?.safeXcmVersion?.());
+}
+
+// supportedVersion is keyed by (key version, versioned location): try each encodable key version
+async function supportedVersionOf(api: VersionApi, dest: Location): Promise<number | undefined> {
+  const pallet = palletOf(api);
+  const query = pallet ? api.query[pallet]?.supportedVersion : undefined;
+  if (!query) return undefined;
+
+  for (const v of [...XCM_VERSIONS].reverse()) {
+    try {
+      const found = optNumber(await query(versionNumber(v), versionedLocation(dest, v)));
+      if (found !== undefined) return found;
+    } catch {
+      // the runtime cannot decode this location version: try the next one
+    }
+  }
+  return undefined;
+}
+
+// Highest mutually supported version for sending from `srcApi` to `dest`.
+// `destApi` (when connected) gives the destination's own advertised version as a second source.
+export async function negotiateXcmVersion(
+  srcApi: VersionApi,
+  dest: Location,
+  destApi?: VersionApi
+): Promise<VersionNegotiation> {
+  const sourceVersion = await ownVersion(srcApi);
+  if (sourceVersion === undefined) throw new Error("Source runtime does not expose its XCM version (no pallet-xcm).");
+
+  let destVersion = await supportedVersionOf(srcApi, dest);
+  let destSource: VersionNegotiation["destSource"] = "supportedVersion";
+
+  if (destVersion === undefined && destApi) {
+    const pallet = palletOf(destApi);
+    destVersion = pallet ? optNumber(destApi.consts?.[pallet]?.advertisedXcmVersion) : undefined;
+    destSource = "advertisedXcmVersion";
+  }
+  if (destVersion === undefined) {
+    const pallet = palletOf(srcApi);
+    destVersion = pallet ? optNumber(await srcApi.query[pallet]?.safeXcmVersion?.()) : undefined;
+    destSource = "safeXcmVersion";
+  }
+  if (destVersion === undefined) throw new Error("Destination XCM version unknown (no supportedVersion or safeXcmVersion).");
+
+  const version = pickVersion(sourceVersion, destVersion);
+  if (!version) {
+    throw new Error(
+      `No mutually supported XCM version: source v${sourceVersion}, destination v${destVersion}, engine ${XCM_VERSIONS.join("/")}.`
+    );
+  }
+  return { version, sourceVersion, destVersion, destSource };
+}